@@ -38,7 +38,7 @@ const patchSetMaxListenersPlugin = transformHookPlugin({
 const context = await esbuild.context({
   entryPoints: ['src/main.ts'],
   bundle: true,
-  external: ['obsidian', 'electron'],
+  external: ['obsidian', 'electron', '@codemirror/state', '@codemirror/view'],
   format: 'cjs',
   platform: 'node',
   target: 'es2018',
@@ -0,0 +1,283 @@
+/**
+ * The note context added to the system prompt with every message: the active note
+ * and cursor, plus optional sections (selection, properties, outline, links,
+ * backlinks, open tabs, the note itself) fitted into a token budget
+ */
+
+import { App, FileView, MarkdownView, TFile, getFrontMatterInfo } from 'obsidian';
+import { CHARS_PER_TOKEN, estimateTokens } from './context-mentions';
+import { getBacklinks, getOutgoingLinks } from './link-graph';
+
+export interface ActiveContextOptions {
+  includeSelection: boolean;
+  // The note's frontmatter
+  includeProperties: boolean;
+  includeOutline: boolean;
+  includeLinks: boolean;
+  includeBacklinks: boolean;
+  includeOpenTabs: boolean;
+  includeBody: boolean;
+  budgetTokens: number;
+}
+
+export const DEFAULT_ACTIVE_CONTEXT_OPTIONS: ActiveContextOptions = {
+  includeSelection: true,
+  includeProperties: true,
+  includeOutline: true,
+  includeLinks: false,
+  includeBacklinks: false,
+  includeOpenTabs: false,
+  includeBody: false,
+  budgetTokens: 2000,
+};
+
+export type ActiveContextToggle = Exclude<keyof ActiveContextOptions, 'budgetTokens'>;
+
+export const ACTIVE_CONTEXT_SECTIONS: { key: ActiveContextToggle; name: string; description: string }[] = [
+  { key: 'includeSelection', name: 'Selected text', description: 'The text selected in the note' },
+  { key: 'includeProperties', name: 'Properties', description: 'The note\'s frontmatter' },
+  { key: 'includeOutline', name: 'Outline', description: 'The note\'s headings, with line numbers' },
+  { key: 'includeLinks', name: 'Outgoing links', description: 'Notes the active note links to' },
+  { key: 'includeBacklinks', name: 'Backlinks summary', description: 'Notes that link to the active note, with the linking line' },
+  { key: 'includeOpenTabs', name: 'Open tabs', description: 'Files open in the main editor area' },
+  { key: 'includeBody', name: 'Active note body', description: 'The note itself; when it\'s too long, the part around the cursor' },
+];
+
+export interface ActiveContextSection {
+  title: string;
+  // Text as sent, after any truncation
+  text: string;
+  truncated: boolean;
+  // Size before truncation
+  fullTokens: number;
+}
+
+export interface ActiveContext {
+  // Everything appended to the system prompt
+  text: string;
+  sections: ActiveContextSection[];
+  tokens: number;
+  budgetTokens: number;
+}
+
+interface SectionSource {
+  title: string;
+  text: string;
+  truncate: (text: string, maxChars: number) => string;
+}
+
+// Sections squeezed below this are left out rather than sent as a stub
+const MIN_SECTION_CHARS = 120;
+// Most backlinking notes and open tabs listed before truncation even starts
+const MAX_LISTED = 50;
+
+/**
+ * Keep whole lines from the top
+ */
+function truncateLines(text: string, maxChars: number): string {
+  const lines = text.split('\n');
+  const kept: string[] = [];
+  let length = 0;
+  for (const line of lines) {
+    if (length + line.length + 1 > maxChars - 30) break;
+    kept.push(line);
+    length += line.length + 1;
+  }
+  const omitted = lines.length - kept.length;
+  return omitted > 0 ? [...kept, `… (${omitted} more line(s))`].join('\n') : text;
+}
+
+/**
+ * Keep the start and end, dropping the middle
+ */
+function truncateMiddle(text: string, maxChars: number): string {
+  const keep = Math.max(0, maxChars - 50);
+  const head = Math.ceil(keep * 0.6);
+  const tail = keep - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n[… ${omitted} characters omitted …]\n${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+/**
+ * Keep whole lines around a focus offset (the cursor), noting what was left out
+ */
+function truncateAround(text: string, focus: number, maxChars: number): string {
+  const keep = Math.max(0, maxChars - 80);
+  let start = Math.max(0, Math.min(focus - Math.floor(keep / 3), text.length - keep));
+  let end = Math.min(text.length, start + keep);
+  // Snap to line boundaries inside the window
+  if (start > 0) {
+    const lineStart = text.indexOf('\n', start);
+    start = lineStart >= 0 && lineStart < end ? lineStart + 1 : start;
+  }
+  if (end < text.length) {
+    const lineEnd = text.lastIndexOf('\n', end);
+    end = lineEnd > start ? lineEnd : end;
+  }
+
+  const countLines = (part: string) => part ? part.split('\n').length : 0;
+  const above = countLines(text.slice(0, start).replace(/\n$/, ''));
+  const below = countLines(text.slice(end).replace(/^\n/, ''));
+  return [
+    above > 0 ? `[… ${above} line(s) above omitted …]` : '',
+    text.slice(start, end),
+    below > 0 ? `[… ${below} line(s) below omitted …]` : '',
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * The editor showing the active file: the focused one, or the last one used
+ * (the chat view has focus while you type a message)
+ */
+export function findActiveMarkdownView(app: App): MarkdownView | null {
+  const active = app.workspace.getActiveViewOfType(MarkdownView);
+  if (active) return active;
+  const recent = app.workspace.getMostRecentLeaf()?.view;
+  return recent instanceof MarkdownView ? recent : null;
+}
+
+async function collectSections(app: App, file: TFile | null, view: MarkdownView | null, options: ActiveContextOptions): Promise<SectionSource[]> {
+  const sections: SectionSource[] = [];
+  const editor = view && file && view.file?.path === file.path ? view.editor : null;
+
+  if (editor && options.includeSelection) {
+    const selection = editor.getSelection();
+    if (selection.trim()) {
+      sections.push({ title: 'Selected text', text: selection, truncate: truncateMiddle });
+    }
+  }
+
+  if (file && file.extension === 'md') {
+    const content = editor ? editor.getValue() : await app.vault.cachedRead(file);
+    const frontmatter = getFrontMatterInfo(content);
+    const cache = app.metadataCache.getFileCache(file);
+
+    if (options.includeProperties && frontmatter.exists && frontmatter.frontmatter.trim()) {
+      sections.push({ title: 'Properties', text: frontmatter.frontmatter.trim(), truncate: truncateLines });
+    }
+
+    if (options.includeOutline && cache?.headings?.length) {
+      const outline = cache.headings
+        .map(h => `${'  '.repeat(h.level - 1)}- ${h.heading} (line ${h.position.start.line + 1})`)
+        .join('\n');
+      sections.push({ title: 'Outline', text: outline, truncate: truncateLines });
+    }
+
+    if (options.includeLinks) {
+      const targets = new Map<string, number>();
+      for (const ref of await getOutgoingLinks(app, file)) {
+        const target = ref.resolved ? ref.targetPath ?? ref.link : `${ref.link} (unresolved)`;
+        targets.set(target, (targets.get(target) ?? 0) + 1);
+      }
+      if (targets.size > 0) {
+        const text = Array.from(targets).map(([target, count]) => count > 1 ? `- ${target} (×${count})` : `- ${target}`).join('\n');
+        sections.push({ title: 'Links from this note', text, truncate: truncateLines });
+      }
+    }
+
+    if (options.includeBacklinks) {
+      // One line per linking note, with the first line that links here
+      const bySource = new Map<string, { count: number; context?: string }>();
+      for (const ref of await getBacklinks(app, file)) {
+        const entry = bySource.get(ref.sourcePath) ?? { count: 0, context: ref.context };
+        entry.count++;
+        bySource.set(ref.sourcePath, entry);
+      }
+      if (bySource.size > 0) {
+        const lines = Array.from(bySource).slice(0, MAX_LISTED).map(([source, { count, context }]) =>
+          `- ${source}${count > 1 ? ` (${count} links)` : ''}${context ? `: ${context}` : ''}`);
+        if (bySource.size > MAX_LISTED) lines.push(`… and ${bySource.size - MAX_LISTED} more note(s)`);
+        sections.push({ title: `Backlinks (${bySource.size} note(s))`, text: lines.join('\n'), truncate: truncateLines });
+      }
+    }
+
+    if (options.includeBody) {
+      const body = content.slice(frontmatter.contentStart);
+      const focus = editor ? Math.max(0, editor.posToOffset(editor.getCursor()) - frontmatter.contentStart) : 0;
+      if (body.trim()) {
+        sections.push({
+          title: 'Note content',
+          text: body,
+          truncate: (text, maxChars) => truncateAround(text, focus, maxChars),
+        });
+      }
+    }
+  }
+
+  if (options.includeOpenTabs) {
+    const tabs: string[] = [];
+    app.workspace.iterateRootLeaves(leaf => {
+      const tabFile = leaf.view instanceof FileView ? leaf.view.file : null;
+      if (tabFile && !tabs.includes(tabFile.path)) tabs.push(tabFile.path);
+    });
+    if (tabs.length > 0) {
+      const text = tabs.slice(0, MAX_LISTED).map(p => p === file?.path ? `- ${p} (active)` : `- ${p}`).join('\n');
+      sections.push({ title: 'Open tabs', text, truncate: truncateLines });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Fit sections into a character budget. Smaller sections go first and keep all their
+ * text when they fit in an even share of what's left; larger ones split the rest.
+ */
+function fitSections(sources: SectionSource[], budgetChars: number): ActiveContextSection[] {
+  const fitted = new Map<SectionSource, ActiveContextSection>();
+  const bySize = [...sources].sort((a, b) => a.text.length - b.text.length);
+  let remaining = budgetChars;
+
+  bySize.forEach((source, index) => {
+    const share = Math.floor(remaining / (bySize.length - index));
+    const fullTokens = estimateTokens(source.text);
+    if (source.text.length <= share) {
+      fitted.set(source, { title: source.title, text: source.text, truncated: false, fullTokens });
+      remaining -= source.text.length;
+    } else if (share >= MIN_SECTION_CHARS) {
+      const text = source.truncate(source.text, share);
+      fitted.set(source, { title: source.title, text, truncated: true, fullTokens });
+      remaining -= text.length;
+    } else {
+      fitted.set(source, { title: source.title, text: '', truncated: true, fullTokens });
+    }
+  });
+
+  // Back in the order they were collected
+  return sources.map(source => fitted.get(source)!);
+}
+
+/**
+ * Build the context for the active note, exactly as it will be sent
+ */
+export async function buildActiveContext(app: App, options: ActiveContextOptions): Promise<ActiveContext> {
+  const file = app.workspace.getActiveFile();
+  const view = findActiveMarkdownView(app);
+
+  let header = '--- Active Obsidian Context ---';
+  if (file) {
+    header += `\nCurrently active file: ${file.path}`;
+    if (view && view.file?.path === file.path) {
+      const cursor = view.editor.getCursor();
+      header += `\nCursor position: Line ${cursor.line + 1}, Column ${cursor.ch}`;
+    }
+  } else {
+    header += '\nNo file currently open';
+  }
+
+  const sources = await collectSections(app, file, view, options);
+  // Section titles and the blank lines between sections count too
+  const overhead = header.length + sources.reduce((sum, source) => sum + source.title.length + 4, 0);
+  const sections = fitSections(sources, Math.max(0, options.budgetTokens * CHARS_PER_TOKEN - overhead));
+
+  const parts = [header];
+  for (const section of sections) {
+    if (section.text) {
+      parts.push(`${section.title}:\n${section.text}`);
+    } else {
+      parts.push(`${section.title}: (left out to stay within the context budget)`);
+    }
+  }
+  const text = parts.join('\n\n');
+  return { text, sections, tokens: estimateTokens(text), budgetTokens: options.budgetTokens };
+}
@@ -0,0 +1,156 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { FileChange } from './diff-utils';
+
+// Rewrite the log once it holds this many more lines than live changes (updates, removals)
+const COMPACT_SLACK_LINES = 200;
+
+// One line of the journal log: a recorded change, its state after an undo or redo, or a removal
+type JournalRecord =
+  | FileChange
+  | { id: string; reverted: boolean; trashPath?: string }
+  | { id: string; removed: true };
+
+/**
+ * Durable record of every file change the agent made, stored in the plugin folder.
+ * Survives restarts so turns and sessions can be undone later. Changes are appended
+ * to a log file as they happen; a session's changes stay until the session is deleted.
+ */
+export class ChangeJournal {
+  private adapter: DataAdapter;
+  private filePath: string;
+  private changes: Map<string, FileChange> = new Map();
+  private pending: JournalRecord[] = [];
+  private lineCount = 0;
+  private saveChain: Promise<void> = Promise.resolve();
+
+  constructor(adapter: DataAdapter, pluginDir: string) {
+    this.adapter = adapter;
+    this.filePath = normalizePath(`${pluginDir}/change-journal.jsonl`);
+  }
+
+  async load(): Promise<void> {
+    this.changes.clear();
+    try {
+      if (await this.adapter.exists(this.filePath)) {
+        const lines = (await this.adapter.read(this.filePath)).split('\n').filter(line => line.trim());
+        for (const line of lines) {
+          try {
+            this.apply(JSON.parse(line) as JournalRecord);
+          } catch {
+            // A line cut short by a crash; everything before it is intact
+            console.warn('[ObsidianAgent] Skipping unreadable change journal line');
+          }
+        }
+        this.lineCount = lines.length;
+      }
+      console.log('[ObsidianAgent] Loaded change journal:', this.changes.size, 'entries');
+    } catch (error) {
+      console.error('[ObsidianAgent] Failed to load change journal:', error);
+    }
+  }
+
+  add(change: FileChange) {
+    this.changes.set(change.id, change);
+    this.append(change);
+  }
+
+  update(change: FileChange) {
+    if (!this.changes.has(change.id)) return;
+    this.changes.set(change.id, change);
+    this.append({ id: change.id, reverted: change.reverted, trashPath: change.trashPath });
+  }
+
+  get(id: string): FileChange | undefined {
+    return this.changes.get(id);
+  }
+
+  getBySession(sessionId: string): FileChange[] {
+    return [...this.changes.values()].filter(change => change.sessionId === sessionId);
+  }
+
+  getByTurn(turnId: string): FileChange[] {
+    return [...this.changes.values()].filter(change => change.turnId === turnId);
+  }
+
+  /**
+   * Forget a deleted session's changes; they can't be undone from anywhere once it's gone
+   */
+  removeSession(sessionId: string) {
+    for (const change of this.getBySession(sessionId)) {
+      this.changes.delete(change.id);
+      this.append({ id: change.id, removed: true });
+    }
+  }
+
+  /**
+   * Drop changes whose session no longer exists (deleted while the plugin was off)
+   */
+  retainSessions(sessionIds: Set<string>) {
+    for (const change of [...this.changes.values()]) {
+      if (!change.sessionId || !sessionIds.has(change.sessionId)) {
+        this.changes.delete(change.id);
+        this.append({ id: change.id, removed: true });
+      }
+    }
+  }
+
+  private apply(record: JournalRecord) {
+    if ('operation' in record) {
+      this.changes.set(record.id, { ...record, diff: record.diff ?? '' });
+    } else if ('removed' in record) {
+      this.changes.delete(record.id);
+    } else {
+      const change = this.changes.get(record.id);
+      if (change) {
+        change.reverted = record.reverted;
+        change.trashPath = record.trashPath;
+      }
+    }
+  }
+
+  /**
+   * Queue a record; records queued while a write is in progress go out together in the next one
+   */
+  private append(record: JournalRecord) {
+    this.pending.push(record);
+    if (this.pending.length === 1) {
+      this.save();
+    }
+  }
+
+  /**
+   * Write queued records; writes are chained so they never interleave
+   */
+  save(): Promise<void> {
+    this.saveChain = this.saveChain.then(async () => {
+      const records = this.pending;
+      this.pending = [];
+      if (records.length === 0) return;
+      try {
+        if (this.lineCount + records.length > this.changes.size + COMPACT_SLACK_LINES) {
+          await this.compact();
+        } else {
+          await this.adapter.append(this.filePath, records.map(serializeRecord).join(''));
+          this.lineCount += records.length;
+        }
+      } catch (error) {
+        console.error('[ObsidianAgent] Failed to save change journal:', error);
+      }
+    });
+    return this.saveChain;
+  }
+
+  /**
+   * Rewrite the log with one line per live change
+   */
+  private async compact() {
+    const changes = [...this.changes.values()];
+    await this.adapter.write(this.filePath, changes.map(serializeRecord).join(''));
+    this.lineCount = changes.length;
+  }
+}
+
+function serializeRecord(record: JournalRecord): string {
+  // The diff can be rebuilt from the contents, so only they are stored
+  return JSON.stringify('operation' in record ? { ...record, diff: undefined } : record) + '\n';
+}
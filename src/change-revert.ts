@@ -0,0 +1,329 @@
+import { App, Modal, Notice, TFile, TFolder } from 'obsidian';
+import { FileChange, threeWayMerge } from './diff-utils';
+import { ensureParentFolder, trashFile } from './file-operations';
+
+export type ConflictChoice = 'merge' | 'overwrite' | 'skip';
+
+interface ConflictDetails {
+  filePath: string;
+  action: 'revert' | 'restore';
+  current: string | null;
+  target: string | null;
+  merged: string | null;
+  conflicts: number;
+}
+
+/**
+ * Asks what to do when a file changed after the agent touched it
+ */
+class ChangeConflictModal extends Modal {
+  private details: ConflictDetails;
+  private resolve: (choice: ConflictChoice) => void;
+  private chosen = false;
+
+  constructor(app: App, details: ConflictDetails, resolve: (choice: ConflictChoice) => void) {
+    super(app);
+    this.details = details;
+    this.resolve = resolve;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { filePath, action, current, target, merged, conflicts } = this.details;
+
+    contentEl.createEl('h3', { text: `Conflict: ${filePath}` });
+
+    let description: string;
+    if (current === null) {
+      description = `This file was deleted after the agent changed it. ${action === 'revert' ? 'Recreate it with its original content?' : 'Recreate it with the agent\'s content?'}`;
+    } else if (target === null) {
+      description = 'The agent created this file, but it has been edited since. Delete it anyway?';
+    } else if (conflicts === 0) {
+      description = `This file was edited after the agent changed it. Your edits can be kept and the ${action} merged around them.`;
+    } else {
+      description = `This file was edited after the agent changed it, and ${conflicts} region(s) overlap. Merging will insert conflict markers for you to resolve.`;
+    }
+    contentEl.createEl('p', { text: description });
+
+    if (merged !== null) {
+      contentEl.createDiv({ cls: 'setting-item-description', text: 'Merged result preview:' });
+      contentEl.createEl('pre', { cls: 'agent-conflict-preview', text: merged });
+    }
+
+    const buttons = contentEl.createDiv('modal-button-container');
+
+    if (merged !== null) {
+      const mergeBtn = buttons.createEl('button', {
+        text: conflicts === 0 ? 'Merge (keep my edits)' : 'Merge with conflict markers',
+        cls: 'mod-cta',
+      });
+      mergeBtn.addEventListener('click', () => this.choose('merge'));
+    }
+
+    const overwriteLabel = target === null ? 'Delete anyway' : current === null ? 'Recreate' : 'Overwrite my edits';
+    const overwriteBtn = buttons.createEl('button', { text: overwriteLabel, cls: 'mod-warning' });
+    overwriteBtn.addEventListener('click', () => this.choose('overwrite'));
+
+    const skipBtn = buttons.createEl('button', { text: 'Skip this file' });
+    skipBtn.addEventListener('click', () => this.choose('skip'));
+  }
+
+  private choose(choice: ConflictChoice) {
+    this.chosen = true;
+    this.resolve(choice);
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    if (!this.chosen) {
+      this.resolve('skip');
+    }
+  }
+}
+
+function askConflict(app: App, details: ConflictDetails): Promise<ConflictChoice> {
+  return new Promise(resolve => new ChangeConflictModal(app, details, resolve).open());
+}
+
+async function writeContent(app: App, filePath: string, content: string | null) {
+  const file = app.vault.getAbstractFileByPath(filePath);
+  if (content === null) {
+    if (file instanceof TFile) {
+      await app.vault.delete(file);
+    }
+    return;
+  }
+
+  if (file instanceof TFile) {
+    await app.vault.modify(file, content);
+    return;
+  }
+
+  await ensureParentFolder(app, filePath);
+  await app.vault.create(filePath, content);
+}
+
+/**
+ * Move a file from the content the agent left (expected) to target content.
+ * If the file no longer matches what we expect, the user picks merge/overwrite/skip.
+ * Null content means "file does not exist". Returns false if the file was skipped.
+ */
+export async function applyFileTransition(
+  app: App,
+  filePath: string,
+  expected: string | null,
+  target: string | null,
+  action: 'revert' | 'restore'
+): Promise<boolean> {
+  const file = app.vault.getAbstractFileByPath(filePath);
+  const current = file instanceof TFile ? await app.vault.read(file) : null;
+
+  if (current === expected) {
+    await writeContent(app, filePath, target);
+    return true;
+  }
+
+  let merged: string | null = null;
+  let conflicts = 0;
+  if (current !== null && target !== null) {
+    const result = threeWayMerge(expected || '', current, target, {
+      ours: 'your edits',
+      theirs: action === 'revert' ? 'before agent change' : 'agent change',
+    });
+    merged = result.content;
+    conflicts = result.conflicts;
+  }
+
+  const choice = await askConflict(app, { filePath, action, current, target, merged, conflicts });
+  if (choice === 'skip') {
+    return false;
+  }
+
+  await writeContent(app, filePath, choice === 'merge' ? merged : target);
+  return true;
+}
+
+/**
+ * Move a file or folder through fileManager so links to it are updated to the new location
+ */
+async function moveEntry(app: App, fromPath: string, toPath: string): Promise<boolean> {
+  const entry = app.vault.getAbstractFileByPath(fromPath);
+  if (!entry) {
+    new Notice(`Cannot move ${fromPath}: it no longer exists`);
+    return false;
+  }
+  if (app.vault.getAbstractFileByPath(toPath)) {
+    new Notice(`Cannot move ${fromPath} back to ${toPath}: that path is already taken`);
+    return false;
+  }
+  await ensureParentFolder(app, toPath);
+  await app.fileManager.renameFile(entry, toPath);
+  return true;
+}
+
+async function createFolderEntry(app: App, folderPath: string): Promise<boolean> {
+  if (!(app.vault.getAbstractFileByPath(folderPath) instanceof TFolder)) {
+    await app.vault.createFolder(folderPath);
+  }
+  return true;
+}
+
+async function removeFolderEntry(app: App, folderPath: string): Promise<boolean> {
+  const folder = app.vault.getAbstractFileByPath(folderPath);
+  if (!(folder instanceof TFolder)) {
+    return true;
+  }
+  if (folder.children.length > 0) {
+    new Notice(`Kept folder ${folderPath} because it is not empty`);
+    return false;
+  }
+  await app.vault.delete(folder);
+  return true;
+}
+
+/**
+ * Remove a file the agent created; content we never captured (binary files) is removed without a conflict check
+ */
+async function removeCreatedFile(app: App, filePath: string, expected: string | null, action: 'revert' | 'restore'): Promise<boolean> {
+  if (expected !== null) {
+    return applyFileTransition(app, filePath, expected, null, action);
+  }
+  const file = app.vault.getAbstractFileByPath(filePath);
+  if (file instanceof TFile) {
+    await app.vault.delete(file);
+  }
+  return true;
+}
+
+/**
+ * Undo a delete by moving the file back out of the vault trash. The trash is a hidden
+ * folder the vault doesn't index, so this goes through the adapter; links to the file
+ * were never changed by the delete, so they resolve again once it's back.
+ * Returns null to fall back to the captured content: the trash copy is gone (emptied,
+ * or restored by hand), or a text file has been recreated at its path since.
+ */
+async function restoreFromTrash(app: App, change: FileChange): Promise<boolean | null> {
+  const adapter = app.vault.adapter;
+  if (!change.trashPath || !(await adapter.exists(change.trashPath))) {
+    return null;
+  }
+  if (await adapter.exists(change.filePath)) {
+    if (change.oldContent === null) {
+      new Notice(`Cannot restore ${change.filePath} from the vault trash: that path is already taken`);
+      return false;
+    }
+    // Something new took its place; recreating from the captured content asks what to do
+    return null;
+  }
+  await ensureParentFolder(app, change.filePath);
+  await adapter.rename(change.trashPath, change.filePath);
+  return true;
+}
+
+/**
+ * Redo a delete: back into the vault trash, asking first if the file was edited since
+ */
+async function trashAgain(app: App, change: FileChange): Promise<boolean> {
+  const file = app.vault.getAbstractFileByPath(change.filePath);
+  if (!(file instanceof TFile)) {
+    return true;
+  }
+  if (change.oldContent !== null) {
+    const current = await app.vault.read(file);
+    if (current !== change.oldContent) {
+      const choice = await askConflict(app, { filePath: change.filePath, action: 'restore', current, target: null, merged: null, conflicts: 0 });
+      if (choice === 'skip') return false;
+    }
+  }
+  change.trashPath = await trashFile(app, file);
+  return true;
+}
+
+export async function revertFileChange(app: App, change: FileChange): Promise<boolean> {
+  switch (change.operation) {
+    case 'move':
+      return moveEntry(app, change.filePath, change.oldPath!);
+    case 'create':
+      return change.isFolder
+        ? removeFolderEntry(app, change.filePath)
+        : removeCreatedFile(app, change.filePath, change.newContent, 'revert');
+    case 'delete': {
+      if (change.isFolder) {
+        return createFolderEntry(app, change.filePath);
+      }
+      const restored = await restoreFromTrash(app, change);
+      if (restored !== null) {
+        return restored;
+      }
+      if (change.oldContent === null) {
+        throw new Error('the deleted file is no longer in the vault trash and its content was not captured');
+      }
+      return applyFileTransition(app, change.filePath, null, change.oldContent, 'revert');
+    }
+    default:
+      return applyFileTransition(app, change.filePath, change.newContent, change.oldContent, 'revert');
+  }
+}
+
+export async function restoreFileChange(app: App, change: FileChange): Promise<boolean> {
+  switch (change.operation) {
+    case 'move':
+      return moveEntry(app, change.oldPath!, change.filePath);
+    case 'create':
+      if (change.isFolder) {
+        return createFolderEntry(app, change.filePath);
+      }
+      if (change.newContent === null) {
+        throw new Error('the created file\'s content was not captured');
+      }
+      return applyFileTransition(app, change.filePath, null, change.newContent, 'restore');
+    case 'delete':
+      return change.isFolder
+        ? removeFolderEntry(app, change.filePath)
+        : trashAgain(app, change);
+    default:
+      return applyFileTransition(app, change.filePath, change.oldContent, change.newContent, 'restore');
+  }
+}
+
+/**
+ * Whether undoing this change is possible: a deleted binary file's content is never captured,
+ * so it can only come back from the vault trash
+ */
+export function canRevertChange(change: FileChange): boolean {
+  return !(change.operation === 'delete' && !change.isFolder && change.oldContent === null && !change.trashPath);
+}
+
+/**
+ * Revert a group of changes newest-first so each file steps back through its history in order.
+ * Calls onReverted for every change that was actually reverted.
+ */
+export async function revertChangesInOrder(
+  app: App,
+  changes: FileChange[],
+  onReverted: (change: FileChange) => void
+): Promise<{ reverted: number; skipped: number }> {
+  const pending = changes
+    .filter(change => !change.reverted && canRevertChange(change))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  let reverted = 0;
+  let skipped = 0;
+  for (const change of pending) {
+    try {
+      if (await revertFileChange(app, change)) {
+        onReverted(change);
+        reverted++;
+      } else {
+        skipped++;
+      }
+    } catch (error: any) {
+      console.error('[ObsidianAgent] Error reverting change:', change.filePath, error);
+      new Notice(`Error reverting ${change.filePath}: ${error.message}`);
+      skipped++;
+    }
+  }
+
+  return { reverted, skipped };
+}
@@ -0,0 +1,198 @@
+/**
+ * Files attached to a chat message: uploads from the OS or the clipboard, and
+ * vault files, which are referenced by path instead of being copied. Uploaded
+ * images and PDFs go to the model as content blocks; other uploads are written to
+ * a temp folder outside the vault for the agent to read.
+ */
+
+import { App, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { isConvertibleDocument } from './document-conversion';
+
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  // MIME type; folders use "inode/directory"
+  type: string;
+  // Data URL for images and PDFs, text for everything else; empty for vault files
+  data: string;
+  // Vault-relative path of a file or folder that is already in the vault
+  vaultPath?: string;
+}
+
+export const FOLDER_MIME_TYPE = 'inode/directory';
+
+// Image types the API accepts in image blocks; others (e.g. SVG) are uploaded as files
+const IMAGE_BLOCK_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export type AttachmentContentBlock =
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'document'; source: { type: 'base64'; media_type: 'application/pdf'; data: string }; title: string };
+
+const MIME_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  html: 'text/html',
+  htm: 'text/html',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+};
+
+// Documents that are ZIP archives under the hood, converted to markdown before sending
+const BINARY_DOCUMENT_TYPES = [MIME_TYPES.docx, MIME_TYPES.pptx, MIME_TYPES.epub];
+
+function createAttachmentId(): string {
+  return `att_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function mimeTypeForPath(filePath: string): string {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Images, PDFs and Office/EPUB documents are read as binary; everything else as text
+ */
+export function isBinaryAttachment(type: string): boolean {
+  return type.startsWith('image/') || type === 'application/pdf' || BINARY_DOCUMENT_TYPES.includes(type);
+}
+
+/**
+ * The base64 payload of an attachment read as a data URL
+ */
+export function attachmentBase64(attachment: ChatAttachment): string {
+  return attachment.data.slice(attachment.data.indexOf(',') + 1);
+}
+
+/**
+ * An uploaded attachment's bytes
+ */
+export function attachmentBuffer(attachment: ChatAttachment): Buffer {
+  return attachment.data.startsWith('data:')
+    ? Buffer.from(attachmentBase64(attachment), 'base64')
+    : Buffer.from(attachment.data, 'utf-8');
+}
+
+/**
+ * The content block for an uploaded image or PDF, or null when it has to be uploaded as a file
+ */
+export function toContentBlock(attachment: ChatAttachment): AttachmentContentBlock | null {
+  if (attachment.vaultPath || !attachment.data.startsWith('data:')) return null;
+  if (IMAGE_BLOCK_TYPES.includes(attachment.type)) {
+    return { type: 'image', source: { type: 'base64', media_type: attachment.type, data: attachmentBase64(attachment) } };
+  }
+  if (attachment.type === 'application/pdf') {
+    return {
+      type: 'document',
+      source: { type: 'base64', media_type: 'application/pdf', data: attachmentBase64(attachment) },
+      title: attachment.name,
+    };
+  }
+  return null;
+}
+
+export function createVaultAttachment(file: TAbstractFile): ChatAttachment {
+  return {
+    id: createAttachmentId(),
+    name: file.name,
+    type: file instanceof TFolder ? FOLDER_MIME_TYPE : mimeTypeForPath(file.path),
+    data: '',
+    vaultPath: file.path,
+  };
+}
+
+/**
+ * Read a file from a file picker, drop or paste
+ */
+export function readAttachmentFile(file: File, name = file.name): Promise<ChatAttachment> {
+  return new Promise((resolve, reject) => {
+    const type = file.type || mimeTypeForPath(name);
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: createAttachmentId(),
+      name,
+      type: isBinaryAttachment(type) ? type : (file.type || 'text/plain'),
+      data: reader.result as string,
+    });
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${name}`));
+    if (isBinaryAttachment(type)) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+/**
+ * The vault file an OS path points to, when the file lives inside the vault
+ */
+export function findVaultFileByPath(app: App, vaultPath: string, filePath: string | undefined): TAbstractFile | null {
+  if (!filePath) return null;
+  const relative = path.relative(vaultPath, filePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  return app.vault.getAbstractFileByPath(normalizePath(relative.split(path.sep).join('/')));
+}
+
+/**
+ * Vault files dragged from Obsidian (the file explorer, search results, tabs or links)
+ */
+export function getDraggedVaultFiles(app: App, dataTransfer: DataTransfer | null): TAbstractFile[] {
+  // Obsidian keeps what is being dragged on its (internal) drag manager
+  const draggable = (app as any).dragManager?.draggable;
+  if (draggable?.type === 'file' && draggable.file) return [draggable.file];
+  if (draggable?.type === 'folder' && draggable.file) return [draggable.file];
+  if (draggable?.type === 'files' && Array.isArray(draggable.files)) return draggable.files;
+
+  // Otherwise, obsidian://open links in the dropped text
+  const files: TAbstractFile[] = [];
+  const text = dataTransfer?.getData('text/plain') ?? '';
+  text.replace(/obsidian:\/\/open\?[^\s)]+/g, (uri) => {
+    const filePath = new URLSearchParams(uri.slice(uri.indexOf('?') + 1)).get('file');
+    if (filePath) {
+      const file = app.vault.getAbstractFileByPath(normalizePath(filePath))
+        ?? app.metadataCache.getFirstLinkpathDest(filePath, '')
+        ?? app.vault.getAbstractFileByPath(normalizePath(`${filePath}.md`));
+      if (file) files.push(file);
+    }
+    return uri;
+  });
+  return files;
+}
+
+/**
+ * A name for a pasted screenshot, like Obsidian's own "Pasted image" files
+ */
+export function pastedFileName(file: File): string {
+  if (file.name && file.name !== 'image.png') return file.name;
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '').slice(0, 14);
+  const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return `Pasted image ${stamp}.${extension}`;
+}
+
+export function attachmentIcon(attachment: ChatAttachment): string {
+  if (attachment.type === FOLDER_MIME_TYPE) return '📁';
+  if (attachment.type.startsWith('image/')) return '🖼️';
+  if (isConvertibleDocument(attachment.name)) return '📝';
+  if (attachment.vaultPath) return '📄';
+  return '📎';
+}
+
+/**
+ * Prompt text telling the agent where to find vault files the user referenced
+ */
+export function describeVaultAttachments(attachments: ChatAttachment[]): string {
+  const references = attachments.filter(a => a.vaultPath);
+  if (references.length === 0) return '';
+  const lines = references.map(a => a.type === FOLDER_MIME_TYPE ? `- ${a.vaultPath}/ (folder)` : `- ${a.vaultPath}`);
+  return `I'm referring to these files in the vault (paths relative to the vault):\n${lines.join('\n')}`;
+}
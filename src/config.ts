@@ -42,17 +42,22 @@ Available Tools:
 
 Obsidian-Specific MCP Tools:
 - mcp__obsidian__list_pages() - List all markdown files, organized by folder
-- mcp__obsidian__search_vault(query) - Full-text search across all notes
-- mcp__obsidian__get_backlinks(page) - Find pages that link TO a specific page
-- mcp__obsidian__get_outgoing_links(page) - Find links that a page links TO
-- mcp__obsidian__get_daily_note(date?) - Get path to daily note (today or specific date)
-- mcp__obsidian__lint_prose(file_path?, text?) - Check text for style issues and AI-isms
+- mcp__obsidian__search_vault(query, limit?, offset?) - Ranked full-text search; supports "phrases", /regex/, path:, tag:, and frontmatter field:value filters
+- mcp__obsidian__get_backlinks(page) - Find every reference TO a page (links, embeds, frontmatter links, aliases) with line numbers
+- mcp__obsidian__get_outgoing_links(page) - Find links FROM a page, with line numbers and whether each target exists
+- mcp__obsidian__get_daily_note(date?, period?, create?) - Get path to the daily/weekly/monthly note Obsidian would open (accepts "today", "last Friday", YYYY-MM-DD); create: true makes it from the user's template
+- mcp__obsidian__move_note(path, new_path) - Move a note, attachment or folder; updates links across the vault
+- mcp__obsidian__rename_note(path, new_name) - Rename in place; updates links across the vault
+- mcp__obsidian__copy_note(path, new_path) - Copy a note or attachment
+- mcp__obsidian__delete_note(path) - Move a file to the vault trash
+- mcp__obsidian__create_folder(path) - Create a folder (and missing parents)
+- mcp__obsidian__lint_prose(file_path?, text?, format?, offset?) - Check text for style issues and AI-isms; format "json" gives line/column, rule and suggested replacement per issue
 
 Claude Code Built-in Tools:
 - Read(file_path) - Read any file
 - Edit(file_path, old_string, new_string) - Make precise edits (BEST for JSON!)
 - Write(file_path, content) - Write files
-- Bash(command) - Run shell commands (mkdir, git, mv, cp, etc.)
+- Bash(command) - Run shell commands (git, pandoc, etc.)
 - Glob(pattern) - Find files by pattern
 - Grep(pattern) - Search file contents
 
@@ -68,27 +73,23 @@ File Operations:
 - **For READING files**: Use Read("path/to/file.md") - NEVER use Bash cat/head/tail
 - **For WRITING files**: Use Write("path/to/file.md", content) - NEVER use Bash echo/printf
 - **For EDITING files**: Use Edit("path/to/file.md", old, new) - NEVER use Bash sed/awk
-- **For READING .docx files**: Word documents must be converted first with pandoc
-  - When user uploads a .docx file (shows up in .temp-uploads/), convert it:
-  - Bash("pandoc '.temp-uploads/filename.docx' -t markdown") to read as markdown
-  - OR Bash("pandoc '.temp-uploads/filename.docx' -t plain") for plain text
-  - Then work with the converted output
+- **For MOVING, RENAMING, COPYING or DELETING files and creating folders**: Use the mcp__obsidian__ file tools - NEVER use Bash mv/cp/rm/mkdir, which leave wiki links pointing at the old path
+- **For attached documents**: Word (.docx), PowerPoint (.pptx), HTML and EPUB attachments arrive already converted to markdown
+  - The message includes the markdown (or, for long documents, the path to Read it from) and the images extracted from it
+  - Don't try to open the original .docx/.pptx/.epub file yourself; if a conversion failed, tell the user
 - Examples:
   - Read("Daily/2025-10-13.md") ✅ | Bash("cat Daily/2025-10-13.md") ❌
   - Edit(".obsidian/app.json", old, new) ✅ | Bash("sed -i ...") ❌
-  - pandoc '.temp-uploads/doc.docx' -t plain ✅ for Word docs
+  - mcp__obsidian__move_note("Inbox/Idea.md", "Projects/") ✅ | Bash("mv Inbox/Idea.md Projects/") ❌
 
 System Operations (Bash is OK):
-- **Creating directories**: Bash("mkdir -p Daily/2025-10") ✅
-- **Moving files**: Bash("mv old.md new.md") ✅
-- **Copying files**: Bash("cp src.md dest.md") ✅
 - **Git operations**: Bash("git status") ✅
 - **Listing files**: Bash("ls -la") ✅
 
 Other Guidelines:
-- For finding content: Use mcp__obsidian__search_vault for text, Grep for regex patterns
+- For finding content: Use mcp__obsidian__search_vault (narrow with path:/tag: filters, page with offset), Grep for raw file scans
 - For understanding connections: Use mcp__obsidian__get_backlinks and mcp__obsidian__get_outgoing_links
-- For daily notes: Use mcp__obsidian__get_daily_note to get the path, then Read/Write/Edit with that relative path`;
+- For daily notes: Use mcp__obsidian__get_daily_note to get the path (never guess the folder or date format), then Read/Write/Edit with that relative path`;
 
 export async function detectClaudeCodePath(): Promise<string | null> {
   const possiblePaths = [
@@ -0,0 +1,287 @@
+/**
+ * @-mentions in the chat input: notes, folders, headings (`@Note#Heading`), blocks
+ * (`@Note#^id`) and tags (`@#tag`), suggested from the metadata cache and expanded
+ * into a context section of the prompt under a token budget
+ */
+
+import { App, TFile, TFolder, getAllTags, prepareFuzzySearch, resolveSubpath } from 'obsidian';
+import { isTextFile } from './vault-snapshot';
+
+export type MentionKind = 'file' | 'folder' | 'heading' | 'block' | 'tag';
+
+export interface ContextMention {
+  kind: MentionKind;
+  // Vault path of the file or folder; for headings and blocks, of their note
+  path: string;
+  // Heading text or block id
+  subpath?: string;
+  // Tag, with its '#'
+  tag?: string;
+}
+
+export interface MentionSuggestion {
+  mention: ContextMention;
+  title: string;
+  detail?: string;
+  // Picking it continues the query (e.g. a note, to then pick one of its headings with '#')
+  continueWith?: string;
+}
+
+// Rough size of a token, for budgets
+export const CHARS_PER_TOKEN = 4;
+// Most notes listed for a folder or tag
+const MAX_LISTED_FILES = 100;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * How a mention reads in the chat input, without the '@'
+ */
+export function mentionLabel(mention: ContextMention): string {
+  const name = mention.path.replace(/\.md$/, '');
+  switch (mention.kind) {
+    case 'tag': return mention.tag ?? '';
+    case 'folder': return `${mention.path}/`;
+    case 'heading': return `${name}#${mention.subpath}`;
+    case 'block': return `${name}#^${mention.subpath}`;
+    default: return name;
+  }
+}
+
+export function mentionIcon(mention: ContextMention): string {
+  switch (mention.kind) {
+    case 'folder': return '📁';
+    case 'heading': return '§';
+    case 'block': return '¶';
+    case 'tag': return '#';
+    default: return '📄';
+  }
+}
+
+export function sameMention(a: ContextMention, b: ContextMention): boolean {
+  return a.kind === b.kind && a.path === b.path && a.subpath === b.subpath && a.tag === b.tag;
+}
+
+/**
+ * The `@query` being typed at the cursor, if any; '@' has to start a word
+ */
+export function findMentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const before = text.slice(0, cursor);
+  const at = before.lastIndexOf('@');
+  if (at < 0 || (at > 0 && !/\s/.test(before[at - 1]))) return null;
+  const query = before.slice(at + 1);
+  // Note names can have spaces, but a mention doesn't run across lines or go on forever
+  if (query.includes('\n') || query.length > 80) return null;
+  return { start: at, query };
+}
+
+/**
+ * Suggestions for a query: `#tag`, `Note#heading`, `Note#^block`, or a note/folder path
+ */
+export async function getMentionSuggestions(app: App, query: string, limit = 20): Promise<MentionSuggestion[]> {
+  if (query.startsWith('#')) {
+    return suggestTags(app, query.slice(1), limit);
+  }
+
+  const hash = query.indexOf('#');
+  if (hash > 0) {
+    const file = app.metadataCache.getFirstLinkpathDest(query.slice(0, hash), '');
+    if (!(file instanceof TFile)) return [];
+    const rest = query.slice(hash + 1);
+    return rest.startsWith('^')
+      ? suggestBlocks(app, file, rest.slice(1), limit)
+      : suggestHeadings(app, file, rest, limit);
+  }
+
+  return suggestFiles(app, query, limit);
+}
+
+function suggestFiles(app: App, query: string, limit: number): MentionSuggestion[] {
+  const toSuggestion = (file: TFile | TFolder): MentionSuggestion => file instanceof TFolder
+    ? { mention: { kind: 'folder', path: file.path }, title: `${file.path}/`, detail: `${file.children.length} item(s)` }
+    : {
+      mention: { kind: 'file', path: file.path },
+      title: file.extension === 'md' ? file.basename : file.name,
+      detail: file.parent && !file.parent.isRoot() ? file.parent.path : undefined,
+      continueWith: file.extension === 'md' ? `${file.path.replace(/\.md$/, '')}#` : undefined,
+    };
+
+  // Before anything is typed, offer the recently opened notes
+  if (!query.trim()) {
+    return app.workspace.getLastOpenFiles()
+      .map(filePath => app.vault.getAbstractFileByPath(filePath))
+      .filter((file): file is TFile => file instanceof TFile)
+      .slice(0, limit)
+      .map(toSuggestion);
+  }
+
+  const search = prepareFuzzySearch(query.trim());
+  const scored: { file: TFile | TFolder; score: number }[] = [];
+  for (const file of app.vault.getAllLoadedFiles()) {
+    if (!(file instanceof TFile || file instanceof TFolder) || (file instanceof TFolder && file.isRoot())) continue;
+    const match = search(file instanceof TFile && file.extension === 'md' ? file.path.replace(/\.md$/, '') : file.path);
+    if (match) scored.push({ file, score: match.score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ file }) => toSuggestion(file));
+}
+
+function suggestHeadings(app: App, file: TFile, query: string, limit: number): MentionSuggestion[] {
+  const headings = app.metadataCache.getFileCache(file)?.headings ?? [];
+  const search = query.trim() ? prepareFuzzySearch(query.trim()) : null;
+  return headings
+    .filter(heading => !search || search(heading.heading))
+    .slice(0, limit)
+    .map(heading => ({
+      mention: { kind: 'heading', path: file.path, subpath: heading.heading },
+      title: `${'#'.repeat(heading.level)} ${heading.heading}`,
+      detail: file.basename,
+    }));
+}
+
+async function suggestBlocks(app: App, file: TFile, query: string, limit: number): Promise<MentionSuggestion[]> {
+  const blocks = Object.values(app.metadataCache.getFileCache(file)?.blocks ?? {});
+  const content = blocks.length > 0 ? await app.vault.cachedRead(file) : '';
+  const needle = query.trim().toLowerCase();
+  return blocks
+    .map(block => ({
+      block,
+      preview: content.slice(block.position.start.offset, block.position.end.offset).replace(/\s*\^[\w-]+\s*$/, '').trim(),
+    }))
+    .filter(({ block, preview }) => !needle || block.id.toLowerCase().includes(needle) || preview.toLowerCase().includes(needle))
+    .slice(0, limit)
+    .map(({ block, preview }) => ({
+      mention: { kind: 'block', path: file.path, subpath: block.id },
+      title: `^${block.id}`,
+      detail: preview.length > 60 ? preview.slice(0, 59) + '…' : preview,
+    }));
+}
+
+/**
+ * Tags in the vault with how many notes use each
+ */
+function collectTags(app: App): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const file of app.vault.getMarkdownFiles()) {
+    const cache = app.metadataCache.getFileCache(file);
+    const tags = cache ? new Set(getAllTags(cache) ?? []) : new Set<string>();
+    tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  return counts;
+}
+
+function suggestTags(app: App, query: string, limit: number): MentionSuggestion[] {
+  const search = query.trim() ? prepareFuzzySearch(query.trim()) : null;
+  return Array.from(collectTags(app))
+    .map(([tag, count]) => ({ tag, count, match: search ? search(tag) : null }))
+    .filter(item => !search || item.match)
+    .sort((a, b) => search ? b.match!.score - a.match!.score : b.count - a.count)
+    .slice(0, limit)
+    .map(({ tag, count }) => ({
+      mention: { kind: 'tag', path: '', tag },
+      title: tag,
+      detail: `${count} note(s)`,
+    }));
+}
+
+function notesWithTag(app: App, tag: string): TFile[] {
+  const lower = tag.toLowerCase();
+  return app.vault.getMarkdownFiles().filter(file => {
+    const cache = app.metadataCache.getFileCache(file);
+    // Nested tags count too: #project matches #project/alpha
+    return (cache ? getAllTags(cache) ?? [] : []).some(t => t.toLowerCase() === lower || t.toLowerCase().startsWith(`${lower}/`));
+  });
+}
+
+function listFolder(folder: TFolder): string[] {
+  const paths: string[] = [];
+  const walk = (current: TFolder) => {
+    for (const child of current.children) {
+      paths.push(child instanceof TFolder ? `${child.path}/` : child.path);
+      if (child instanceof TFolder) walk(child);
+    }
+  };
+  walk(folder);
+  return paths;
+}
+
+function listPaths(paths: string[]): string {
+  const listed = paths.slice(0, MAX_LISTED_FILES).map(p => `- ${p}`);
+  if (paths.length > MAX_LISTED_FILES) {
+    listed.push(`- … and ${paths.length - MAX_LISTED_FILES} more`);
+  }
+  return listed.join('\n');
+}
+
+/**
+ * The heading and text of one mention, untruncated
+ */
+async function readMention(app: App, mention: ContextMention): Promise<{ heading: string; body: string }> {
+  const label = `@${mentionLabel(mention)}`;
+
+  if (mention.kind === 'tag') {
+    const notes = notesWithTag(app, mention.tag ?? '');
+    return {
+      heading: `${label} (tag, ${notes.length} note(s))`,
+      body: notes.length > 0 ? listPaths(notes.map(note => note.path)) : '(no notes have this tag)',
+    };
+  }
+
+  const file = app.vault.getAbstractFileByPath(mention.path);
+  if (mention.kind === 'folder') {
+    if (!(file instanceof TFolder)) return { heading: `${label} (folder)`, body: '(folder not found)' };
+    const paths = listFolder(file);
+    return { heading: `${label} (folder, ${paths.length} item(s))`, body: paths.length > 0 ? listPaths(paths) : '(empty folder)' };
+  }
+
+  if (!(file instanceof TFile)) {
+    return { heading: label, body: `(${mention.path} not found)` };
+  }
+  if (!isTextFile(file.path)) {
+    return { heading: `${label} (${file.path})`, body: '(not a text file; not included)' };
+  }
+
+  const content = await app.vault.cachedRead(file);
+  if (mention.kind === 'file') {
+    return { heading: `${label} (${file.path})`, body: content };
+  }
+
+  // Headings and blocks: just their part of the note
+  const cache = app.metadataCache.getFileCache(file);
+  const subpath = mention.kind === 'block' ? `#^${mention.subpath}` : `#${mention.subpath}`;
+  const resolved = cache ? resolveSubpath(cache, subpath) : null;
+  if (!resolved) {
+    return { heading: `${label} (${file.path})`, body: `(${mention.kind} not found in the note)` };
+  }
+  return {
+    heading: `${label} (${mention.kind} in ${file.path})`,
+    body: content.slice(resolved.start.offset, resolved.end?.offset ?? content.length).trim(),
+  };
+}
+
+/**
+ * A context section with the mentioned items' content. Each mention gets an even share
+ * of what's left of the budget, so small ones leave more room for the rest.
+ */
+export async function expandMentions(app: App, mentions: ContextMention[], budgetTokens: number): Promise<string> {
+  if (mentions.length === 0) return '';
+
+  const sections: string[] = [];
+  let remaining = Math.max(0, budgetTokens) * CHARS_PER_TOKEN;
+  for (let i = 0; i < mentions.length; i++) {
+    const { heading, body } = await readMention(app, mentions[i]);
+    const share = Math.floor(remaining / (mentions.length - i));
+    let text = body;
+    if (text.length > share) {
+      text = `${body.slice(0, share)}\n… [truncated: ${body.length - share} more characters; read ${mentions[i].path || 'the notes above'} for the rest]`;
+    }
+    remaining -= Math.min(body.length, share);
+    sections.push(`### ${heading}\n${text}`);
+  }
+
+  return `--- Mentioned Context ---\nI mentioned these with @; their content is below (cut short where marked).\n\n${sections.join('\n\n')}`;
+}
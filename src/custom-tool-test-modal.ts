@@ -0,0 +1,99 @@
+import { App, Modal, Setting } from 'obsidian';
+import type ObsidianAgentPlugin from './main';
+import { CustomToolDefinition, sampleArguments } from './custom-tools';
+
+/**
+ * Runs a custom tool with editable sample arguments and shows what it returns
+ */
+export class CustomToolTestModal extends Modal {
+  private plugin: ObsidianAgentPlugin;
+  private toolDef: CustomToolDefinition;
+  private abortController: AbortController | null = null;
+
+  constructor(app: App, plugin: ObsidianAgentPlugin, toolDef: CustomToolDefinition) {
+    super(app);
+    this.plugin = plugin;
+    this.toolDef = toolDef;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: `Test run: ${this.toolDef.name}` });
+    contentEl.createEl('p', {
+      text: 'Arguments (JSON). Required parameters and defaults are filled in with sample values.',
+      cls: 'setting-item-description'
+    });
+    if (this.toolDef.output.mode === 'vault') {
+      contentEl.createEl('p', {
+        text: `This tool saves its output in the vault (${this.toolDef.output.path}), so a test run creates a file.`,
+        cls: 'setting-item-description'
+      });
+    }
+
+    const argsInput = contentEl.createEl('textarea', { cls: 'custom-tool-test-args' });
+    argsInput.value = JSON.stringify(sampleArguments(this.toolDef), null, 2);
+    argsInput.rows = 8;
+
+    const outputEl = contentEl.createDiv({ cls: 'custom-tool-test-output' });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Run')
+        .setCta()
+        .onClick(async () => {
+          button.setDisabled(true);
+          await this.run(argsInput.value, outputEl);
+          button.setDisabled(false);
+        }))
+      .addButton(button => button
+        .setButtonText('Close')
+        .onClick(() => this.close()));
+  }
+
+  private async run(argsText: string, outputEl: HTMLElement) {
+    outputEl.empty();
+
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(argsText || '{}');
+    } catch (error: any) {
+      outputEl.createEl('p', { text: `Arguments are not valid JSON: ${error.message}`, cls: 'custom-tool-test-error' });
+      return;
+    }
+
+    const status = outputEl.createEl('p', { text: 'Running…', cls: 'setting-item-description' });
+    this.abortController = new AbortController();
+    const started = Date.now();
+
+    try {
+      const result = await this.plugin.testCustomTool(this.toolDef, args, this.abortController.signal);
+      status.setText(`Finished in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+      for (const item of result.content) {
+        if (item.type === 'image') {
+          outputEl.createEl('img', {
+            cls: 'custom-tool-test-image',
+            attr: { src: `data:${item.mimeType};base64,${item.data}` }
+          });
+        } else if (item.type === 'text') {
+          outputEl.createEl('pre', { text: item.text, cls: 'custom-tool-test-text' });
+        }
+      }
+    } catch (error: any) {
+      // zod reports which arguments don't match the parameters
+      const message = error.issues
+        ? error.issues.map((issue: any) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`).join('\n')
+        : error.message;
+      status.remove();
+      outputEl.createEl('pre', { text: message, cls: 'custom-tool-test-error' });
+    } finally {
+      this.abortController = null;
+    }
+  }
+
+  onClose() {
+    // Closing the modal stops a test that is still running
+    this.abortController?.abort();
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,740 @@
+/**
+ * Custom tool definitions loaded from the user's JSON config: validation and
+ * conversion of JSON Schema-style parameters into zod schemas for the MCP server
+ */
+
+import { z } from 'zod';
+import * as path from 'path';
+import * as fs from 'fs';
+import { spawn, ChildProcess } from 'child_process';
+import { findSecretReferences } from './secret-store';
+
+export type ParameterType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export interface ParameterSchema {
+  type?: ParameterType;
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  items?: ParameterSchema;
+  properties?: Record<string, ParameterSchema>;
+  required?: string[];
+  default?: unknown;
+  // Flat (original) format only: parameters are required unless marked optional
+  optional?: boolean;
+}
+
+// How parameters reach the command: --key value, --key=value, a positional
+// template, or a JSON document on stdin
+export type ArgStyle = 'flags' | 'equals' | 'positional' | 'stdin-json';
+
+// auto: JSON is pretty-printed, anything else returned as is; text: stdout as is;
+// image: stdout is image bytes or the path of an image file; vault: stdout is saved to a vault file
+export type OutputMode = 'auto' | 'text' | 'image' | 'vault';
+
+export interface OutputConfig {
+  mode: OutputMode;
+  // vault mode: destination, with {param} placeholders
+  path?: string;
+  // vault mode: replace an existing file instead of picking a free name
+  overwrite?: boolean;
+  // image mode: used when the type can't be detected from the data
+  mimeType?: string;
+}
+
+export interface CustomToolDefinition {
+  name: string;
+  description: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  // Top-level parameters, normalized from either the flat or the JSON Schema form
+  parameters: Record<string, ParameterSchema>;
+  required: string[];
+  argStyle: ArgStyle;
+  // positional style: arguments with {param} placeholders; defaults to the parameters in order
+  argTemplate?: string[];
+  // Working directory (~, absolute, or relative to the vault)
+  cwd?: string;
+  output: OutputConfig;
+  // The process is killed after this long; no limit when unset
+  timeoutMs?: number;
+  // stdout beyond this is dropped and the process killed
+  maxOutputBytes: number;
+}
+
+export interface CustomToolError {
+  // Tool name, or its position in the config when it has no usable name
+  tool: string;
+  message: string;
+}
+
+export interface CustomToolsLoadResult {
+  configPath: string;
+  tools: CustomToolDefinition[];
+  errors: CustomToolError[];
+  checkedAt: number;
+}
+
+const PARAMETER_TYPES: ParameterType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+const ARG_STYLES: ArgStyle[] = ['flags', 'equals', 'positional', 'stdin-json'];
+const OUTPUT_MODES: OutputMode[] = ['auto', 'text', 'image', 'vault'];
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+export const DEFAULT_MAX_OUTPUT_BYTES = 5 * 1024 * 1024;
+// stderr kept for error messages; earlier output is dropped
+const MAX_STDERR_CHARS = 64 * 1024;
+// Time a killed process gets to exit before SIGKILL
+const KILL_GRACE_MS = 2000;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: ParameterType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+/**
+ * Check one parameter schema (recursively), appending a message per problem.
+ * A missing type means string, as in the original flat format.
+ */
+function checkParameterSchema(schema: unknown, location: string, errors: string[]) {
+  if (!isPlainObject(schema)) {
+    errors.push(`${location} must be an object like {"type": "string"}`);
+    return;
+  }
+
+  const errorCount = errors.length;
+  const type: ParameterType = schema.type ?? 'string';
+  if (!PARAMETER_TYPES.includes(type)) {
+    errors.push(`${location}.type "${schema.type}" is not supported (use ${PARAMETER_TYPES.join(', ')})`);
+    return;
+  }
+
+  if (schema.description !== undefined && typeof schema.description !== 'string') {
+    errors.push(`${location}.description must be a string`);
+  }
+
+  if (schema.enum !== undefined) {
+    if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+      errors.push(`${location}.enum must be a non-empty array`);
+    } else if (!['string', 'number', 'integer'].includes(type)) {
+      errors.push(`${location}.enum is only supported for string, number and integer parameters`);
+    } else {
+      const wrong = schema.enum.filter((value: unknown) => !matchesType(value, type));
+      if (wrong.length > 0) {
+        errors.push(`${location}.enum values ${wrong.map((v: unknown) => JSON.stringify(v)).join(', ')} are not of type ${type}`);
+      }
+    }
+  }
+
+  if (type === 'array') {
+    if (schema.items === undefined) {
+      errors.push(`${location}.items is required for array parameters, e.g. {"type": "string"}`);
+    } else {
+      checkParameterSchema(schema.items, `${location}.items`, errors);
+    }
+  }
+
+  if (type === 'object' && schema.properties !== undefined) {
+    checkProperties(schema.properties, schema.required, location, errors);
+  }
+
+  // Only check the default once the schema itself is valid
+  if (schema.default !== undefined && errors.length === errorCount) {
+    const result = parameterToZod(schema as ParameterSchema).safeParse(schema.default);
+    if (!result.success) {
+      errors.push(`${location}.default ${JSON.stringify(schema.default)} does not match the parameter's type`);
+    }
+  }
+}
+
+function checkProperties(properties: unknown, required: unknown, location: string, errors: string[]) {
+  if (!isPlainObject(properties)) {
+    errors.push(`${location}.properties must be an object`);
+    return;
+  }
+  for (const [name, schema] of Object.entries(properties)) {
+    checkParameterSchema(schema, `${location}.properties.${name}`, errors);
+  }
+  if (required !== undefined) {
+    if (!Array.isArray(required) || required.some(name => typeof name !== 'string')) {
+      errors.push(`${location}.required must be an array of property names`);
+    } else {
+      for (const name of required) {
+        if (!(name in properties)) {
+          errors.push(`${location}.required lists "${name}", which is not in properties`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Accept either the flat format ({"title": {"type": "string", "optional": true}})
+ * or a JSON Schema object ({"type": "object", "properties": {...}, "required": [...]})
+ */
+function normalizeParameters(parameters: unknown, errors: string[]): { parameters: Record<string, ParameterSchema>; required: string[] } {
+  if (parameters === undefined) {
+    return { parameters: {}, required: [] };
+  }
+  if (!isPlainObject(parameters)) {
+    errors.push('parameters must be an object');
+    return { parameters: {}, required: [] };
+  }
+
+  if (parameters.type === 'object' && isPlainObject(parameters.properties)) {
+    checkProperties(parameters.properties, parameters.required, 'parameters', errors);
+    return { parameters: parameters.properties, required: parameters.required ?? [] };
+  }
+
+  for (const [name, schema] of Object.entries(parameters)) {
+    checkParameterSchema(schema, `parameters.${name}`, errors);
+  }
+  const required = Object.entries(parameters)
+    .filter(([, schema]) => isPlainObject(schema) && !schema.optional && schema.default === undefined)
+    .map(([name]) => name);
+  return { parameters, required };
+}
+
+function checkPlaceholders(templates: string[], parameters: Record<string, ParameterSchema>, location: string, errors: string[]) {
+  for (const template of templates) {
+    template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+      if (!(name in parameters)) {
+        errors.push(`${location} uses ${placeholder}, which is not a parameter`);
+      }
+      return placeholder;
+    });
+  }
+}
+
+/**
+ * Accept "output": "image" as shorthand for {"mode": "image"}
+ */
+function normalizeOutput(output: unknown, parameters: Record<string, ParameterSchema>, errors: string[]): OutputConfig {
+  if (output === undefined) {
+    return { mode: 'auto' };
+  }
+  const config = typeof output === 'string' ? { mode: output } : output;
+  if (!isPlainObject(config)) {
+    errors.push('output must be a mode name or an object like {"mode": "vault", "path": "Results/{query}.md"}');
+    return { mode: 'auto' };
+  }
+
+  const mode = config.mode ?? 'auto';
+  if (!OUTPUT_MODES.includes(mode)) {
+    errors.push(`output.mode "${config.mode}" is not supported (use ${OUTPUT_MODES.join(', ')})`);
+  }
+  if (mode === 'vault') {
+    if (typeof config.path !== 'string' || !config.path.trim()) {
+      errors.push('output.path is required for the vault output mode');
+    } else {
+      checkPlaceholders([config.path], parameters, 'output.path', errors);
+    }
+  }
+  if (config.overwrite !== undefined && typeof config.overwrite !== 'boolean') {
+    errors.push('output.overwrite must be true or false');
+  }
+  if (config.mimeType !== undefined && (typeof config.mimeType !== 'string' || !config.mimeType.startsWith('image/'))) {
+    errors.push('output.mimeType must be an image type such as "image/png"');
+  }
+
+  return { mode, path: config.path, overwrite: config.overwrite, mimeType: config.mimeType };
+}
+
+/**
+ * Validate a parsed config file. Tools with problems are left out and reported
+ * individually, so one bad definition doesn't take the rest down with it.
+ * When secretNames is given, ${secret:NAME} references in args and env must name one of them.
+ */
+export function validateCustomToolsConfig(
+  config: unknown,
+  reservedNames: string[] = [],
+  secretNames?: string[]
+): { tools: CustomToolDefinition[]; errors: CustomToolError[] } {
+  if (!isPlainObject(config) || !Array.isArray(config.tools)) {
+    return { tools: [], errors: [{ tool: 'config', message: 'The file must contain an object with a "tools" array' }] };
+  }
+
+  const tools: CustomToolDefinition[] = [];
+  const errors: CustomToolError[] = [];
+  const seen = new Set<string>();
+
+  config.tools.forEach((raw: unknown, index: number) => {
+    const problems: string[] = [];
+    const label = isPlainObject(raw) && typeof raw.name === 'string' && raw.name ? raw.name : `tools[${index}]`;
+
+    if (!isPlainObject(raw)) {
+      errors.push({ tool: label, message: 'Each tool must be an object' });
+      return;
+    }
+
+    if (typeof raw.name !== 'string' || !TOOL_NAME_PATTERN.test(raw.name)) {
+      problems.push('name is required and may only contain letters, numbers, "_" and "-" (max 64)');
+    } else if (seen.has(raw.name)) {
+      problems.push('another tool already uses this name');
+    } else if (reservedNames.includes(raw.name)) {
+      problems.push('this name is taken by a built-in tool');
+    }
+    if (typeof raw.description !== 'string' || !raw.description.trim()) {
+      problems.push('description is required');
+    }
+    if (typeof raw.command !== 'string' || !raw.command.trim()) {
+      problems.push('command is required');
+    }
+    if (raw.args !== undefined && (!Array.isArray(raw.args) || raw.args.some((arg: unknown) => typeof arg !== 'string'))) {
+      problems.push('args must be an array of strings');
+    }
+    if (raw.env !== undefined && (!isPlainObject(raw.env) || Object.values(raw.env).some(value => typeof value !== 'string'))) {
+      problems.push('env must be an object of string values');
+    }
+    if (secretNames && problems.length === 0) {
+      const references = [...(raw.args ?? []), ...Object.values(raw.env ?? {}) as string[]]
+        .flatMap(value => findSecretReferences(value));
+      for (const name of new Set(references)) {
+        if (!secretNames.includes(name)) {
+          problems.push(`refers to \${secret:${name}}, which is not in Settings → Secrets`);
+        }
+      }
+    }
+
+    const { parameters, required } = normalizeParameters(raw.parameters, problems);
+
+    const argStyle = raw.argStyle ?? 'flags';
+    if (!ARG_STYLES.includes(argStyle)) {
+      problems.push(`argStyle "${raw.argStyle}" is not supported (use ${ARG_STYLES.join(', ')})`);
+    }
+    if (raw.argTemplate !== undefined) {
+      if (argStyle !== 'positional') {
+        problems.push('argTemplate is only used with "argStyle": "positional"');
+      } else if (!Array.isArray(raw.argTemplate) || raw.argTemplate.some((arg: unknown) => typeof arg !== 'string')) {
+        problems.push('argTemplate must be an array of strings');
+      } else {
+        checkPlaceholders(raw.argTemplate, parameters, 'argTemplate', problems);
+      }
+    }
+    if (raw.cwd !== undefined && (typeof raw.cwd !== 'string' || !raw.cwd.trim())) {
+      problems.push('cwd must be a non-empty path');
+    }
+    const output = normalizeOutput(raw.output, parameters, problems);
+    for (const key of ['timeoutMs', 'maxOutputBytes']) {
+      if (raw[key] !== undefined && !(Number.isInteger(raw[key]) && raw[key] > 0)) {
+        problems.push(`${key} must be a positive whole number`);
+      }
+    }
+
+    if (problems.length > 0) {
+      errors.push(...problems.map(message => ({ tool: label, message })));
+      return;
+    }
+
+    seen.add(raw.name);
+    tools.push({
+      name: raw.name,
+      description: raw.description,
+      command: raw.command,
+      args: raw.args ?? [],
+      env: raw.env ?? {},
+      parameters,
+      required,
+      argStyle,
+      argTemplate: raw.argTemplate,
+      cwd: raw.cwd?.trim(),
+      output,
+      timeoutMs: raw.timeoutMs,
+      maxOutputBytes: raw.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES,
+    });
+  });
+
+  return { tools, errors };
+}
+
+function parameterToZod(schema: ParameterSchema): z.ZodTypeAny {
+  const type = schema.type ?? 'string';
+  let zodType: z.ZodTypeAny;
+
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      if (schema.enum) {
+        zodType = z.literal(schema.enum as number[]);
+      } else {
+        zodType = type === 'integer' ? z.number().int() : z.number();
+      }
+      break;
+    }
+    case 'boolean':
+      zodType = z.boolean();
+      break;
+    case 'array':
+      zodType = z.array(schema.items ? parameterToZod(schema.items) : z.unknown());
+      break;
+    case 'object':
+      zodType = schema.properties
+        ? z.object(propertiesToShape(schema.properties, schema.required ?? []))
+        : z.record(z.string(), z.unknown());
+      break;
+    default:
+      zodType = schema.enum ? z.enum(schema.enum as [string, ...string[]]) : z.string();
+  }
+
+  return zodType;
+}
+
+function propertiesToShape(properties: Record<string, ParameterSchema>, required: string[]): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [name, schema] of Object.entries(properties)) {
+    let zodType = parameterToZod(schema);
+    if (schema.default !== undefined) {
+      zodType = zodType.default(schema.default);
+    } else if (!required.includes(name)) {
+      zodType = zodType.optional();
+    }
+    if (schema.description) {
+      zodType = zodType.describe(schema.description);
+    }
+    shape[name] = zodType;
+  }
+  return shape;
+}
+
+/**
+ * Zod shape for a validated tool's parameters, for tool()
+ */
+export function buildParameterShape(toolDef: CustomToolDefinition): Record<string, z.ZodTypeAny> {
+  return propertiesToShape(toolDef.parameters, toolDef.required);
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Replace {param} placeholders; missing values become empty strings
+ */
+function fillTemplate(template: string, params: Record<string, unknown>, format: (value: unknown) => string = formatValue): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = params[name];
+    return value === undefined || value === null ? '' : format(value);
+  });
+}
+
+/**
+ * Command-line arguments (after the configured args) and stdin for a call
+ */
+export function buildCommandInput(toolDef: CustomToolDefinition, params: Record<string, unknown>): { args: string[]; stdin?: string } {
+  const provided = Object.entries(params).filter(([, value]) => value !== undefined && value !== null);
+
+  switch (toolDef.argStyle) {
+    case 'stdin-json':
+      return { args: [], stdin: JSON.stringify(Object.fromEntries(provided)) };
+    case 'equals':
+      return { args: provided.map(([key, value]) => `--${key}=${formatValue(value)}`) };
+    case 'positional': {
+      const template = toolDef.argTemplate ?? Object.keys(toolDef.parameters).map(name => `{${name}}`);
+      const args: string[] = [];
+      for (const arg of template) {
+        // An argument that is just a placeholder is dropped when its parameter wasn't given
+        const only = arg.match(/^\{([^{}]+)\}$/);
+        if (only && (params[only[1]] === undefined || params[only[1]] === null)) continue;
+        args.push(fillTemplate(arg, params));
+      }
+      return { args };
+    }
+    default: {
+      // Separate arguments instead of --key=value to handle spaces
+      const args: string[] = [];
+      for (const [key, value] of provided) {
+        args.push(`--${key}`, formatValue(value));
+      }
+      return { args };
+    }
+  }
+}
+
+/**
+ * Expand ~ and resolve relative paths against baseDir
+ */
+export function resolveUserPath(userPath: string, baseDir: string): string {
+  let resolved = userPath.trim();
+  if (resolved.startsWith('~')) {
+    resolved = resolved.replace(/^~/, process.env.HOME || process.env.USERPROFILE || '');
+  }
+  return path.isAbsolute(resolved) ? resolved : path.resolve(baseDir, resolved);
+}
+
+/**
+ * Vault path for the vault output mode; parameter values are made safe for file names
+ */
+export function resolveOutputPath(toolDef: CustomToolDefinition, params: Record<string, unknown>): string {
+  return fillTemplate(toolDef.output.path ?? '', params, value =>
+    formatValue(value).replace(/[\\/:*?"<>|#^[\]]/g, '-').trim()
+  );
+}
+
+/**
+ * Identify common image formats from their first bytes
+ */
+export function detectImageMimeType(data: Buffer): string | null {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  const header = data.subarray(0, 12).toString('latin1');
+  if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) {
+    return 'image/gif';
+  }
+  if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/.test(data.subarray(0, 256).toString('utf8'))) {
+    return 'image/svg+xml';
+  }
+  return null;
+}
+
+export interface ToolProcessOptions {
+  env: NodeJS.ProcessEnv;
+  cwd?: string;
+  stdin?: string;
+  timeoutMs?: number;
+  maxOutputBytes: number;
+  signal?: AbortSignal;
+  // Called with each chunk of stderr as it arrives
+  onStderr?: (text: string) => void;
+}
+
+export interface ToolProcessResult {
+  code: number | null;
+  stdout: Buffer;
+  stderr: string;
+  // Set when the process was killed before it finished on its own
+  stopped?: 'timeout' | 'output-limit' | 'aborted';
+}
+
+// Detached processes still running; a detached process outlives Obsidian unless it's killed
+const runningProcesses = new Set<ChildProcess>();
+
+/**
+ * Keep track of a detached process until it exits, so unloading the plugin can stop it
+ */
+export function trackProcessTree(proc: ChildProcess) {
+  runningProcesses.add(proc);
+  proc.on('exit', () => runningProcesses.delete(proc));
+  proc.on('error', () => runningProcesses.delete(proc));
+}
+
+/**
+ * Kill every tracked process tree (on plugin unload)
+ */
+export function killRunningProcesses() {
+  for (const proc of runningProcesses) {
+    killProcessTree(proc);
+  }
+  runningProcesses.clear();
+}
+
+/**
+ * Kill a process and everything it started. On Unix the process leads its own
+ * group (spawned detached), so the whole group is signalled.
+ */
+export function killProcessTree(proc: ChildProcess) {
+  const pid = proc.pid;
+  if (pid === undefined) return;
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true })
+      .on('error', error => console.error('[ObsidianAgent] taskkill failed:', error));
+    return;
+  }
+
+  try {
+    process.kill(-pid, 'SIGTERM');
+  } catch {
+    proc.kill('SIGTERM');
+  }
+  setTimeout(() => {
+    try {
+      process.kill(-pid, 'SIGKILL');
+    } catch {
+      // Already gone
+    }
+  }, KILL_GRACE_MS);
+}
+
+/**
+ * Run a custom tool's command with a time limit, an stdout cap and cancellation
+ */
+export function runToolProcess(command: string, args: string[], options: ToolProcessOptions): Promise<ToolProcessResult> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      resolve({ code: null, stdout: Buffer.alloc(0), stderr: '', stopped: 'aborted' });
+      return;
+    }
+
+    const proc = spawn(command, args, {
+      env: options.env,
+      cwd: options.cwd,
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+    });
+    trackProcessTree(proc);
+    const chunks: Buffer[] = [];
+    let outputBytes = 0;
+    let stderr = '';
+    let stopped: ToolProcessResult['stopped'];
+
+    const stop = (reason: NonNullable<ToolProcessResult['stopped']>) => {
+      if (stopped) return;
+      stopped = reason;
+      killProcessTree(proc);
+    };
+    const timer = options.timeoutMs !== undefined ? setTimeout(() => stop('timeout'), options.timeoutMs) : null;
+    const onAbort = () => stop('aborted');
+    options.signal?.addEventListener('abort', onAbort);
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    proc.stdout!.on('data', (data: Buffer) => {
+      const remaining = options.maxOutputBytes - outputBytes;
+      if (remaining <= 0) return;
+      if (data.length > remaining) {
+        chunks.push(data.subarray(0, remaining));
+        outputBytes += remaining;
+        stop('output-limit');
+        return;
+      }
+      chunks.push(data);
+      outputBytes += data.length;
+    });
+
+    proc.stderr!.on('data', (data: Buffer) => {
+      const text = data.toString();
+      stderr = (stderr + text).slice(-MAX_STDERR_CHARS);
+      options.onStderr?.(text);
+    });
+
+    proc.on('error', (error: Error) => {
+      cleanup();
+      reject(error);
+    });
+
+    proc.on('close', (code: number | null) => {
+      cleanup();
+      resolve({ code, stdout: Buffer.concat(chunks), stderr, stopped });
+    });
+
+    // stdin-json tools read their parameters from stdin; everyone else gets EOF
+    proc.stdin!.on('error', () => { /* the command may exit without reading stdin */ });
+    proc.stdin!.end(options.stdin);
+  });
+}
+
+/**
+ * Find the executable a command would run: a path (relative to cwd) or a name
+ * looked up on PATH, using PATHEXT on Windows. Returns null when nothing is found.
+ */
+export async function resolveCommand(command: string, env: NodeJS.ProcessEnv, cwd: string): Promise<string | null> {
+  const isWindows = process.platform === 'win32';
+  const extensions = isWindows
+    ? ['', ...(env.PATHEXT || env.Pathext || '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean)]
+    : [''];
+
+  const isExecutable = async (candidate: string) => {
+    try {
+      await fs.promises.access(candidate, isWindows ? fs.constants.F_OK : fs.constants.X_OK);
+      return (await fs.promises.stat(candidate)).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  if (command.includes('/') || command.includes('\\')) {
+    const resolved = resolveUserPath(command, cwd);
+    for (const extension of extensions) {
+      if (await isExecutable(resolved + extension)) return resolved + extension;
+    }
+    return null;
+  }
+
+  const searchPath = env.PATH || env.Path || '';
+  for (const dir of searchPath.split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, command + extension);
+      if (await isExecutable(candidate)) return candidate;
+    }
+  }
+  return null;
+}
+
+function sampleValue(schema: ParameterSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type ?? 'string') {
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return false;
+    case 'array':
+      return schema.items ? [sampleValue(schema.items)] : [];
+    case 'object': {
+      const sample: Record<string, unknown> = {};
+      for (const name of schema.required ?? []) {
+        const property = schema.properties?.[name];
+        if (property) sample[name] = sampleValue(property);
+      }
+      return sample;
+    }
+    default:
+      return 'test';
+  }
+}
+
+/**
+ * Example arguments for a test run: required parameters, plus any with defaults
+ */
+export function sampleArguments(toolDef: CustomToolDefinition): Record<string, unknown> {
+  const sample: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(toolDef.parameters)) {
+    if (toolDef.required.includes(name) || schema.default !== undefined) {
+      sample[name] = sampleValue(schema);
+    }
+  }
+  return sample;
+}
+
+/**
+ * One-line summary of a parameter, e.g. "format (string, optional, one of book, article; default book)"
+ */
+export function describeParameter(name: string, schema: ParameterSchema, required: boolean): string {
+  let type: string = schema.type ?? 'string';
+  if (type === 'array' && schema.items) {
+    type = `array of ${schema.items.type ?? 'string'}`;
+  }
+  const details = [type, required ? 'required' : 'optional'];
+  if (schema.enum) details.push(`one of ${schema.enum.join(', ')}`);
+  let text = `${name} (${details.join(', ')}`;
+  if (schema.default !== undefined) text += `; default ${JSON.stringify(schema.default)}`;
+  text += ')';
+  return schema.description ? `${text}: ${schema.description}` : text;
+}
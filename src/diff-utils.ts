@@ -1,28 +1,77 @@
 import * as Diff from 'diff';
+import type { ChangeJournal } from './change-journal';
+
+export type FileOperation = 'write' | 'edit' | 'move' | 'delete' | 'create';
 
 export interface FileChange {
 	id: string;
 	timestamp: number;
 	filePath: string;
-	operation: 'write' | 'edit';
+	operation: FileOperation;
+	// Null content means the file did not exist (or, for binary files, was not captured)
 	oldContent: string | null;
-	newContent: string;
+	newContent: string | null;
 	diff: string;
+	// Previous location, for moves
+	oldPath?: string;
+	// Where a deleted file sits in the vault's .trash folder, so undo can move it back
+	trashPath?: string;
+	isFolder?: boolean;
 	reverted: boolean;
+	sessionId?: string;
+	turnId?: string;
+}
+
+// The parts of a change a caller supplies; the tracker fills in id, timestamp, diff and session
+export type FileChangeInput = Pick<FileChange, 'operation' | 'filePath' | 'oldPath' | 'oldContent' | 'newContent' | 'isFolder' | 'trashPath'>;
+
+export interface MergeResult {
+	content: string;
+	conflicts: number;
 }
 
 export class ChangeTracker {
 	private changes: Map<string, FileChange> = new Map();
+	private journal: ChangeJournal | null;
+	private sessionId: string | null = null;
+	private turnId: string | null = null;
+	private lastTimestamp = 0;
+
+	constructor(journal?: ChangeJournal) {
+		this.journal = journal || null;
+	}
+
+	/**
+	 * Point the tracker at a chat session, loading that session's changes from the journal
+	 */
+	setSession(sessionId: string): void {
+		this.sessionId = sessionId;
+		this.turnId = null;
+		this.loadChanges(this.journal ? this.journal.getBySession(sessionId) : []);
+	}
+
+	/**
+	 * Start a new query turn; changes recorded until the next call share its id
+	 */
+	startTurn(): string {
+		this.turnId = `turn_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+		return this.turnId;
+	}
 
 	recordChange(
 		filePath: string,
-		operation: 'write' | 'edit',
+		operation: FileOperation,
 		oldContent: string | null,
-		newContent: string
+		newContent: string | null,
+		details: { oldPath?: string; isFolder?: boolean; trashPath?: string } = {}
 	): FileChange {
-		const timestamp = Date.now();
+		// Keep timestamps strictly increasing so changes recorded together still undo in order
+		const timestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+		this.lastTimestamp = timestamp;
 		const id = `${timestamp}_${filePath}`;
-		const diff = this.generateFormattedDiff(oldContent || '', newContent);
+		const diff = operation === 'move' || details.isFolder
+			? ''
+			: this.generateFormattedDiff(oldContent || '', newContent || '');
 
 		const change: FileChange = {
 			id,
@@ -32,21 +81,44 @@ export class ChangeTracker {
 			oldContent,
 			newContent,
 			diff,
-			reverted: false
+			reverted: false,
+			...details,
+			sessionId: this.sessionId || undefined,
+			turnId: this.turnId || undefined
 		};
 
 		this.changes.set(id, change);
+		this.journal?.add(change);
 		return change;
 	}
 
+	getTurnChanges(turnId: string): FileChange[] {
+		return this.getAllChanges().filter(change => change.turnId === turnId);
+	}
+
 	getChange(id: string): FileChange | undefined {
 		return this.changes.get(id);
 	}
 
+	getAllChanges(): FileChange[] {
+		return [...this.changes.values()];
+	}
+
+	/**
+	 * Replace tracked changes with a previously saved set (e.g. when reopening a session)
+	 */
+	loadChanges(changes: FileChange[]): void {
+		this.changes.clear();
+		for (const change of changes) {
+			this.changes.set(change.id, change);
+		}
+	}
+
 	markAsReverted(id: string): void {
 		const change = this.changes.get(id);
 		if (change) {
 			change.reverted = true;
+			this.journal?.update(change);
 		}
 	}
 
@@ -54,6 +126,7 @@ export class ChangeTracker {
 		const change = this.changes.get(id);
 		if (change) {
 			change.reverted = false;
+			this.journal?.update(change);
 		}
 	}
 
@@ -97,3 +170,219 @@ export class ChangeTracker {
 		return formattedDiff;
 	}
 }
+
+interface LineEdit {
+	start: number;
+	end: number;
+	lines: string[];
+}
+
+/**
+ * Line edits (replace base[start, end) with lines) that turn base into other
+ */
+function computeLineEdits(base: string[], other: string[]): LineEdit[] {
+	const edits: LineEdit[] = [];
+	let baseIndex = 0;
+	let current: LineEdit | null = null;
+
+	for (const part of Diff.diffArrays(base, other)) {
+		const count = part.value.length;
+		if (part.removed) {
+			if (!current) current = { start: baseIndex, end: baseIndex, lines: [] };
+			current.end += count;
+			baseIndex += count;
+		} else if (part.added) {
+			if (!current) current = { start: baseIndex, end: baseIndex, lines: [] };
+			current.lines.push(...(part.value as string[]));
+		} else {
+			if (current) {
+				edits.push(current);
+				current = null;
+			}
+			baseIndex += count;
+		}
+	}
+	if (current) edits.push(current);
+
+	return edits;
+}
+
+function applyLineEdits(base: string[], start: number, end: number, edits: LineEdit[]): string[] {
+	const result: string[] = [];
+	let index = start;
+	for (const edit of edits) {
+		result.push(...base.slice(index, edit.start), ...edit.lines);
+		index = edit.end;
+	}
+	result.push(...base.slice(index, end));
+	return result;
+}
+
+/**
+ * Line-based three-way merge (diff3 style). Regions changed differently on both
+ * sides are emitted with git-style conflict markers.
+ */
+export function threeWayMerge(
+	base: string,
+	ours: string,
+	theirs: string,
+	labels: { ours: string; theirs: string } = { ours: 'current', theirs: 'incoming' }
+): MergeResult {
+	const baseLines = base.split('\n');
+	const oursEdits = computeLineEdits(baseLines, ours.split('\n'));
+	const theirsEdits = computeLineEdits(baseLines, theirs.split('\n'));
+
+	const output: string[] = [];
+	let conflicts = 0;
+	let baseIndex = 0;
+	let a = 0;
+	let b = 0;
+
+	while (a < oursEdits.length || b < theirsEdits.length) {
+		const nextA = a < oursEdits.length ? oursEdits[a].start : Infinity;
+		const nextB = b < theirsEdits.length ? theirsEdits[b].start : Infinity;
+		const regionStart = Math.min(nextA, nextB);
+
+		output.push(...baseLines.slice(baseIndex, regionStart));
+
+		// Grow the region until no edit from either side overlaps it
+		const groupA: LineEdit[] = [];
+		const groupB: LineEdit[] = [];
+		let regionEnd = regionStart;
+		let grew = true;
+		while (grew) {
+			grew = false;
+			while (a < oursEdits.length && (oursEdits[a].start < regionEnd || oursEdits[a].start === regionStart)) {
+				regionEnd = Math.max(regionEnd, oursEdits[a].end);
+				groupA.push(oursEdits[a++]);
+				grew = true;
+			}
+			while (b < theirsEdits.length && (theirsEdits[b].start < regionEnd || theirsEdits[b].start === regionStart)) {
+				regionEnd = Math.max(regionEnd, theirsEdits[b].end);
+				groupB.push(theirsEdits[b++]);
+				grew = true;
+			}
+		}
+
+		const oursRegion = applyLineEdits(baseLines, regionStart, regionEnd, groupA);
+		const theirsRegion = applyLineEdits(baseLines, regionStart, regionEnd, groupB);
+
+		if (groupB.length === 0) {
+			output.push(...oursRegion);
+		} else if (groupA.length === 0) {
+			output.push(...theirsRegion);
+		} else if (oursRegion.join('\n') === theirsRegion.join('\n')) {
+			output.push(...oursRegion);
+		} else {
+			conflicts++;
+			output.push(`<<<<<<< ${labels.ours}`, ...oursRegion, '=======', ...theirsRegion, `>>>>>>> ${labels.theirs}`);
+		}
+
+		baseIndex = regionEnd;
+	}
+
+	output.push(...baseLines.slice(baseIndex));
+	return { content: output.join('\n'), conflicts };
+}
+
+export interface DiffHunk {
+	index: number;
+	oldText: string;
+	newText: string;
+	// 1-based line in the old text where the hunk starts
+	oldStart: number;
+}
+
+export interface HunkedDiff {
+	hunks: DiffHunk[];
+	// Unchanged text, or the index of a hunk, in document order
+	segments: Array<string | number>;
+}
+
+/**
+ * Split a change into hunks (runs of removed/added lines between unchanged lines)
+ * so each can be accepted or rejected on its own
+ */
+export function splitIntoHunks(oldContent: string, newContent: string): HunkedDiff {
+	const hunks: DiffHunk[] = [];
+	const segments: Array<string | number> = [];
+	let line = 1;
+	let current: DiffHunk | null = null;
+
+	for (const part of Diff.diffLines(oldContent, newContent)) {
+		if (part.added || part.removed) {
+			if (!current) {
+				current = { index: hunks.length, oldText: '', newText: '', oldStart: line };
+				hunks.push(current);
+				segments.push(current.index);
+			}
+			if (part.added) {
+				current.newText += part.value;
+			} else {
+				current.oldText += part.value;
+				line += part.count ?? 0;
+			}
+		} else {
+			current = null;
+			segments.push(part.value);
+			line += part.count ?? 0;
+		}
+	}
+
+	return { hunks, segments };
+}
+
+/**
+ * Rebuild the new text keeping only the selected hunks; rejected hunks keep the old text
+ */
+export function applyHunks(diff: HunkedDiff, selected: ReadonlySet<number>): string {
+	return diff.segments
+		.map(segment => {
+			if (typeof segment === 'string') return segment;
+			const hunk = diff.hunks[segment];
+			return selected.has(hunk.index) ? hunk.newText : hunk.oldText;
+		})
+		.join('');
+}
+
+/**
+ * Smallest whole-line replacement that turns current into target, widened until the
+ * replaced text occurs only once in current (so it can drive an exact-match edit)
+ */
+export function minimalReplacement(current: string, target: string): { oldText: string; newText: string } | null {
+	if (current === target) return null;
+
+	let prefix = 0;
+	while (prefix < current.length && prefix < target.length && current[prefix] === target[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < current.length - prefix &&
+		suffix < target.length - prefix &&
+		current[current.length - 1 - suffix] === target[target.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	// The shared prefix and suffix are identical in both texts, so widening within them stays aligned
+	let start = prefix > 0 ? current.lastIndexOf('\n', prefix - 1) + 1 : 0;
+	let end = current.indexOf('\n', current.length - suffix);
+	if (end === -1) end = current.length;
+
+	const occursOnce = (text: string) => text !== '' && current.indexOf(text) === current.lastIndexOf(text);
+	while (!occursOnce(current.slice(start, end)) && (start > 0 || end < current.length)) {
+		if (start > 0) {
+			start = start > 1 ? current.lastIndexOf('\n', start - 2) + 1 : 0;
+		}
+		if (end < current.length) {
+			const next = current.indexOf('\n', end + 1);
+			end = next === -1 ? current.length : next;
+		}
+	}
+
+	return {
+		oldText: current.slice(start, end),
+		newText: target.slice(start, target.length - (current.length - end)),
+	};
+}
@@ -0,0 +1,701 @@
+/**
+ * In-process conversion of Word (.docx), PowerPoint (.pptx), HTML and EPUB files to
+ * markdown. Each converter builds an HTML tree that Obsidian's own htmlToMarkdown
+ * turns into markdown; embedded images are extracted as assets and referenced with
+ * `![[name]]` embeds, so they resolve once the assets sit next to the note.
+ */
+
+import { htmlToMarkdown } from 'obsidian';
+import * as path from 'path';
+import { ZipArchive } from './zip-reader';
+
+export interface ConvertedAsset {
+  // File name, unique within the document
+  name: string;
+  data: Buffer;
+}
+
+export interface ConvertedDocument {
+  // Name for the note, from the document's file name
+  title: string;
+  markdown: string;
+  assets: ConvertedAsset[];
+}
+
+const CONVERTERS: Record<string, (data: Buffer, assets: AssetCollector) => string> = {
+  docx: (data, assets) => convertDocx(new ZipArchive(data), assets),
+  pptx: (data, assets) => convertPptx(new ZipArchive(data), assets),
+  epub: (data, assets) => convertEpub(new ZipArchive(data), assets),
+  html: (data, assets) => convertHtml(data.toString('utf-8'), assets),
+  htm: (data, assets) => convertHtml(data.toString('utf-8'), assets),
+  xhtml: (data, assets) => convertHtml(data.toString('utf-8'), assets),
+};
+
+const RELATIONSHIP_NAMESPACES = [
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  'http://purl.oclc.org/ooxml/officeDocument/relationships',
+];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Longer conversions are only saved to a file, for the agent to read in parts
+const MAX_INLINE_MARKDOWN_CHARS = 50000;
+
+export function isConvertibleDocument(fileName: string): boolean {
+  return documentExtension(fileName) in CONVERTERS;
+}
+
+function documentExtension(fileName: string): string {
+  return path.extname(fileName).slice(1).toLowerCase();
+}
+
+/**
+ * Convert a document to markdown; throws when the file is damaged or not what its extension says
+ */
+export function convertDocument(fileName: string, data: Buffer): ConvertedDocument {
+  const converter = CONVERTERS[documentExtension(fileName)];
+  if (!converter) {
+    throw new Error(`Can't convert ${fileName}: unsupported file type`);
+  }
+
+  const title = path.basename(fileName, path.extname(fileName));
+  const assets = new AssetCollector(title);
+  const markdown = converter(data, assets)
+    // Extracted images become embeds; other images keep their original links
+    .replace(/!\[[^\]]*\]\(<?([^)>\s]+)>?(?:\s+"[^"]*")?\)/g, (match, src: string) =>
+      assets.has(src) ? `![[${src}]]` : match)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title, markdown, assets: assets.assets };
+}
+
+/**
+ * Prompt text giving the agent a converted document: where it was saved, its extracted
+ * images, and the markdown itself when it's short enough
+ */
+export function describeConvertedDocument(fileName: string, converted: ConvertedDocument, markdownPath: string): string {
+  const lines = [`I've attached ${fileName}, converted to markdown and saved at: ${markdownPath}`];
+  if (converted.assets.length > 0) {
+    lines.push('Images extracted from it (saved next to the markdown file, embedded as ![[name]]):');
+    lines.push(...converted.assets.map(asset => `- ${asset.name}`));
+  }
+  if (converted.markdown.length > MAX_INLINE_MARKDOWN_CHARS) {
+    lines.push(`It's too long to include here (${converted.markdown.length} characters); read it from that file.`);
+  } else {
+    lines.push('', `<document name="${fileName}">`, converted.markdown, '</document>');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Extracted images, named after the document so imports don't clash in a shared attachment folder
+ */
+class AssetCollector {
+  assets: ConvertedAsset[] = [];
+  private bySource = new Map<string, string>();
+  private prefix: string;
+
+  constructor(documentName: string) {
+    this.prefix = safeFileName(documentName) || 'document';
+  }
+
+  /**
+   * Add an image, returning its asset name (the same image added twice is stored once)
+   */
+  add(source: string, data: Buffer): string {
+    const existing = this.bySource.get(source);
+    if (existing) return existing;
+
+    const ext = path.extname(source);
+    const base = `${this.prefix}-${safeFileName(path.basename(source, ext)) || 'image'}`;
+    let name = `${base}${ext.toLowerCase()}`;
+    for (let i = 2; this.assets.some(asset => asset.name === name); i++) {
+      name = `${base}-${i}${ext.toLowerCase()}`;
+    }
+    this.assets.push({ name, data });
+    this.bySource.set(source, name);
+    return name;
+  }
+
+  has(name: string): boolean {
+    return this.assets.some(asset => asset.name === name);
+  }
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// --- XML helpers ---
+
+function parseXml(text: string | null, part: string): Document {
+  if (text === null) {
+    throw new Error(`Missing ${part}`);
+  }
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid XML in ${part}`);
+  }
+  return doc;
+}
+
+function children(el: Element, localName?: string): Element[] {
+  return Array.from(el.children).filter(child => !localName || child.localName === localName);
+}
+
+function child(el: Element | null | undefined, localName: string): Element | null {
+  return el ? children(el, localName)[0] ?? null : null;
+}
+
+function descendants(el: Element | Document, localName: string): Element[] {
+  return Array.from(el.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * An attribute by local name, whatever its namespace prefix (w:val, a:lvl, ...)
+ */
+function attr(el: Element | null | undefined, localName: string): string | null {
+  if (!el) return null;
+  const attribute = Array.from(el.attributes).find(a => a.localName === localName);
+  return attribute ? attribute.value : null;
+}
+
+/**
+ * A relationship id attribute (r:id, r:embed); these share local names with plain attributes
+ */
+function relationAttr(el: Element, localName: string): string | null {
+  for (const namespace of RELATIONSHIP_NAMESPACES) {
+    const value = el.getAttributeNS(namespace, localName);
+    if (value) return value;
+  }
+  return null;
+}
+
+interface Relationship {
+  type: string;
+  // Archive path, or the URL for external targets
+  target: string;
+  external: boolean;
+}
+
+/**
+ * The relationships of an Office package part (word/document.xml -> word/_rels/document.xml.rels)
+ */
+function readRelationships(zip: ZipArchive, partPath: string): Map<string, Relationship> {
+  const relationships = new Map<string, Relationship>();
+  const dir = path.posix.dirname(partPath);
+  const relsPath = path.posix.join(dir === '.' ? '' : dir, '_rels', `${path.posix.basename(partPath)}.rels`);
+  const text = zip.readText(relsPath);
+  if (text === null) return relationships;
+
+  for (const rel of descendants(parseXml(text, relsPath), 'Relationship')) {
+    const id = attr(rel, 'Id');
+    const target = attr(rel, 'Target');
+    if (!id || !target) continue;
+    const external = attr(rel, 'TargetMode') === 'External';
+    relationships.set(id, {
+      type: attr(rel, 'Type') ?? '',
+      target: external ? target : resolveArchivePath(dir, target),
+      external,
+    });
+  }
+  return relationships;
+}
+
+function resolveArchivePath(baseDir: string, target: string): string {
+  let decoded = target.split('#')[0];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep the raw target
+  }
+  if (decoded.startsWith('/')) return decoded.slice(1);
+  return path.posix.normalize(path.posix.join(baseDir === '.' ? '' : baseDir, decoded));
+}
+
+/**
+ * The package's main part (word/document.xml, ppt/presentation.xml)
+ */
+function findMainPart(zip: ZipArchive, fallback: string): string {
+  for (const rel of readRelationships(zip, '').values()) {
+    if (rel.type.endsWith('/officeDocument') && zip.has(rel.target)) return rel.target;
+  }
+  return fallback;
+}
+
+// --- HTML building ---
+
+/**
+ * Append inline content wrapped in formatting tags, merging with the previous run
+ * when it has the same formatting (Word splits text into many runs)
+ */
+function appendFormatted(parent: HTMLElement, content: Node[], tags: string[]) {
+  if (content.length === 0) return;
+  if (tags.length === 0) {
+    content.forEach(node => parent.appendChild(node));
+    return;
+  }
+
+  const key = tags.join('+');
+  const last = parent.lastChild;
+  let target: HTMLElement;
+  if (last instanceof HTMLElement && last.dataset.format === key) {
+    target = last;
+    while (target.firstElementChild instanceof HTMLElement && target.firstElementChild.dataset.formatInner) {
+      target = target.firstElementChild;
+    }
+  } else {
+    const outer = parent.createEl(tags[0] as keyof HTMLElementTagNameMap);
+    outer.dataset.format = key;
+    target = outer;
+    for (const tag of tags.slice(1)) {
+      target = target.createEl(tag as keyof HTMLElementTagNameMap);
+      target.dataset.formatInner = 'true';
+    }
+  }
+  content.forEach(node => target.appendChild(node));
+}
+
+/**
+ * Nested lists for paragraphs with indent levels
+ */
+class ListBuilder {
+  private lists: HTMLElement[] = [];
+
+  constructor(private container: HTMLElement) {}
+
+  addItem(level: number, ordered: boolean): HTMLElement {
+    const depth = Math.max(0, Math.min(level, 8)) + 1;
+    while (this.lists.length > depth) this.lists.pop();
+    const tag = ordered ? 'ol' : 'ul';
+    // A list of the other kind at the same depth starts a new list
+    if (this.lists.length === depth && this.lists[depth - 1].tagName.toLowerCase() !== tag) {
+      this.lists.pop();
+    }
+    while (this.lists.length < depth) {
+      const parentList = this.lists[this.lists.length - 1];
+      const parent = parentList ? (parentList.lastElementChild as HTMLElement | null) ?? parentList : this.container;
+      this.lists.push(parent.createEl(this.lists.length === depth - 1 ? tag : 'ul'));
+    }
+    return this.lists[depth - 1].createEl('li');
+  }
+
+  close() {
+    this.lists = [];
+  }
+}
+
+function appendImage(parent: HTMLElement, assets: AssetCollector, zip: ZipArchive, archivePath: string, alt = '') {
+  const data = zip.read(archivePath);
+  if (!data) return;
+  parent.createEl('img', { attr: { src: assets.add(archivePath, data), alt } });
+}
+
+/**
+ * Table rows (w:tr or a:tr) and their cells (w:tc or a:tc)
+ */
+function fillTable(table: HTMLElement, rows: Element[], renderCell: (cell: Element, el: HTMLElement) => void) {
+  rows.forEach((row, index) => {
+    const tr = table.createEl('tr');
+    for (const cell of children(row, 'tc')) {
+      // Markdown tables need a header row
+      renderCell(cell, tr.createEl(index === 0 ? 'th' : 'td'));
+    }
+  });
+}
+
+// --- Word ---
+
+interface DocxContext {
+  zip: ZipArchive;
+  assets: AssetCollector;
+  relationships: Map<string, Relationship>;
+  headingLevels: Map<string, number>;
+  orderedLists: Map<string, boolean>;
+}
+
+function isOn(prop: Element | null): boolean {
+  if (!prop) return false;
+  const value = attr(prop, 'val');
+  return value === null || !['0', 'false', 'off', 'none'].includes(value);
+}
+
+/**
+ * Heading levels of paragraph styles, by style id ("Heading1", or a localised id)
+ */
+function readHeadingLevels(zip: ZipArchive): Map<string, number> {
+  const levels = new Map<string, number>();
+  const text = zip.readText('word/styles.xml');
+  if (text === null) return levels;
+
+  for (const style of descendants(parseXml(text, 'word/styles.xml'), 'style')) {
+    const id = attr(style, 'styleId');
+    if (!id || attr(style, 'type') !== 'paragraph') continue;
+    const name = attr(child(style, 'name'), 'val') ?? '';
+    const heading = /^heading\s*(\d)$/i.exec(name);
+    const outline = attr(child(child(style, 'pPr'), 'outlineLvl'), 'val');
+    if (heading) {
+      levels.set(id, Number(heading[1]));
+    } else if (/^title$/i.test(name)) {
+      levels.set(id, 1);
+    } else if (outline !== null && Number(outline) < 6) {
+      levels.set(id, Number(outline) + 1);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Whether each numbering/level ("numId:ilvl") is numbered rather than bulleted
+ */
+function readOrderedLists(zip: ZipArchive): Map<string, boolean> {
+  const ordered = new Map<string, boolean>();
+  const text = zip.readText('word/numbering.xml');
+  if (text === null) return ordered;
+
+  const doc = parseXml(text, 'word/numbering.xml');
+  const abstractFormats = new Map<string, Map<string, string>>();
+  for (const abstractNum of descendants(doc, 'abstractNum')) {
+    const formats = new Map<string, string>();
+    for (const lvl of children(abstractNum, 'lvl')) {
+      formats.set(attr(lvl, 'ilvl') ?? '0', attr(child(lvl, 'numFmt'), 'val') ?? 'bullet');
+    }
+    abstractFormats.set(attr(abstractNum, 'abstractNumId') ?? '', formats);
+  }
+  for (const num of descendants(doc, 'num')) {
+    const formats = abstractFormats.get(attr(child(num, 'abstractNumId'), 'val') ?? '');
+    if (!formats) continue;
+    for (const [level, format] of formats) {
+      ordered.set(`${attr(num, 'numId')}:${level}`, format !== 'bullet' && format !== 'none');
+    }
+  }
+  return ordered;
+}
+
+function convertDocx(zip: ZipArchive, assets: AssetCollector): string {
+  const documentPath = findMainPart(zip, 'word/document.xml');
+  const doc = parseXml(zip.readText(documentPath), documentPath);
+  const body = descendants(doc, 'body')[0];
+  if (!body) {
+    throw new Error('The document has no body');
+  }
+
+  const ctx: DocxContext = {
+    zip,
+    assets,
+    relationships: readRelationships(zip, documentPath),
+    headingLevels: readHeadingLevels(zip),
+    orderedLists: readOrderedLists(zip),
+  };
+  const root = createDiv();
+  renderDocxBlocks(body, root, new ListBuilder(root), ctx);
+  return htmlToMarkdown(root);
+}
+
+function renderDocxBlocks(container: Element, root: HTMLElement, lists: ListBuilder, ctx: DocxContext) {
+  for (const el of children(container)) {
+    if (el.localName === 'p') {
+      renderDocxParagraph(el, root, lists, ctx);
+    } else if (el.localName === 'tbl') {
+      lists.close();
+      const table = root.createEl('table');
+      fillTable(table, children(el, 'tr'), (cell, cellEl) => {
+        children(cell, 'p').forEach((p, index) => {
+          if (index > 0) cellEl.createEl('br');
+          renderDocxInline(p, cellEl, ctx);
+        });
+      });
+    } else if (el.localName === 'sdt') {
+      // Content controls (e.g. a table of contents) wrap ordinary paragraphs
+      const content = child(el, 'sdtContent');
+      if (content) renderDocxBlocks(content, root, lists, ctx);
+    }
+  }
+}
+
+function renderDocxParagraph(p: Element, root: HTMLElement, lists: ListBuilder, ctx: DocxContext) {
+  const props = child(p, 'pPr');
+  const numbering = child(props, 'numPr');
+  const numId = attr(child(numbering, 'numId'), 'val');
+
+  if (numbering && numId && numId !== '0') {
+    const level = attr(child(numbering, 'ilvl'), 'val') ?? '0';
+    const item = lists.addItem(Number(level), ctx.orderedLists.get(`${numId}:${level}`) ?? false);
+    renderDocxInline(p, item, ctx);
+    return;
+  }
+
+  lists.close();
+  const styleId = attr(child(props, 'pStyle'), 'val');
+  const outline = attr(child(props, 'outlineLvl'), 'val');
+  const level = (styleId ? ctx.headingLevels.get(styleId) : undefined)
+    ?? (outline !== null && Number(outline) < 6 ? Number(outline) + 1 : undefined);
+  const el = root.createEl(level ? (`h${Math.min(level, 6)}` as keyof HTMLElementTagNameMap) : 'p');
+  renderDocxInline(p, el, ctx);
+  if (!el.textContent?.trim() && !el.querySelector('img')) {
+    el.remove();
+  }
+}
+
+function renderDocxInline(el: Element, parent: HTMLElement, ctx: DocxContext) {
+  for (const node of children(el)) {
+    switch (node.localName) {
+      case 'r':
+        renderDocxRun(node, parent, ctx);
+        break;
+      case 'hyperlink': {
+        const id = relationAttr(node, 'id');
+        const rel = id ? ctx.relationships.get(id) : undefined;
+        if (rel?.external) {
+          renderDocxInline(node, parent.createEl('a', { href: rel.target }), ctx);
+        } else {
+          renderDocxInline(node, parent, ctx);
+        }
+        break;
+      }
+      case 'ins':
+      case 'smartTag':
+      case 'fldSimple':
+      case 'customXml':
+      case 'sdt':
+      case 'sdtContent':
+        renderDocxInline(node, parent, ctx);
+        break;
+      // Deleted text, bookmarks, proofing marks and paragraph properties add nothing
+    }
+  }
+}
+
+function renderDocxRun(run: Element, parent: HTMLElement, ctx: DocxContext) {
+  const props = child(run, 'rPr');
+  const tags: string[] = [];
+  if (isOn(child(props, 'b'))) tags.push('strong');
+  if (isOn(child(props, 'i'))) tags.push('em');
+  if (isOn(child(props, 'strike')) || isOn(child(props, 'dstrike'))) tags.push('del');
+  const vertAlign = attr(child(props, 'vertAlign'), 'val');
+  if (vertAlign === 'superscript') tags.push('sup');
+  if (vertAlign === 'subscript') tags.push('sub');
+
+  const content: Node[] = [];
+  for (const node of children(run)) {
+    switch (node.localName) {
+      case 't':
+        content.push(document.createTextNode(node.textContent ?? ''));
+        break;
+      case 'tab':
+        content.push(document.createTextNode('\t'));
+        break;
+      case 'noBreakHyphen':
+        content.push(document.createTextNode('-'));
+        break;
+      case 'br':
+      case 'cr':
+        if (attr(node, 'type') !== 'page') content.push(createEl('br'));
+        break;
+      case 'drawing':
+      case 'pict':
+      case 'object':
+        // Images go outside the formatting so they don't end up inside ** **
+        appendFormatted(parent, content.splice(0), tags);
+        renderDocxImages(node, parent, ctx);
+        break;
+    }
+  }
+  appendFormatted(parent, content, tags);
+}
+
+function renderDocxImages(el: Element, parent: HTMLElement, ctx: DocxContext) {
+  const alt = attr(descendants(el, 'docPr')[0] ?? null, 'descr') ?? '';
+  const ids = [
+    ...descendants(el, 'blip').map(blip => relationAttr(blip, 'embed')),
+    ...descendants(el, 'imagedata').map(data => relationAttr(data, 'id')),
+  ];
+  for (const id of ids) {
+    const rel = id ? ctx.relationships.get(id) : undefined;
+    if (rel && !rel.external) {
+      appendImage(parent, ctx.assets, ctx.zip, rel.target, alt);
+    }
+  }
+}
+
+// --- PowerPoint ---
+
+function convertPptx(zip: ZipArchive, assets: AssetCollector): string {
+  const presentationPath = findMainPart(zip, 'ppt/presentation.xml');
+  const presentation = parseXml(zip.readText(presentationPath), presentationPath);
+  const relationships = readRelationships(zip, presentationPath);
+  const slidePaths = descendants(presentation, 'sldId')
+    .map(slide => relationships.get(relationAttr(slide, 'id') ?? ''))
+    .filter((rel): rel is Relationship => !!rel && !rel.external && zip.has(rel.target))
+    .map(rel => rel.target);
+  if (slidePaths.length === 0) {
+    throw new Error('The presentation has no slides');
+  }
+
+  const root = createDiv();
+  slidePaths.forEach((slidePath, index) => {
+    const slide = parseXml(zip.readText(slidePath), slidePath);
+    const slideRelationships = readRelationships(zip, slidePath);
+    const shapes = descendants(slide, 'sp');
+    const titleShape = shapes.find(shape => ['title', 'ctrTitle'].includes(placeholderType(shape) ?? ''));
+    const title = titleShape ? shapeText(titleShape) : '';
+    root.createEl('h2', { text: title ? `Slide ${index + 1}: ${title}` : `Slide ${index + 1}` });
+
+    const lists = new ListBuilder(root);
+    for (const shape of shapes) {
+      // Slide numbers, dates and footers repeat on every slide
+      if (shape === titleShape || ['sldNum', 'dt', 'ftr'].includes(placeholderType(shape) ?? '')) continue;
+      for (const paragraph of descendants(shape, 'p')) {
+        if (!paragraph.namespaceURI?.includes('drawingml')) continue;
+        const item = createDiv();
+        renderPptxInline(paragraph, item);
+        if (!item.textContent?.trim()) continue;
+        const level = Number(attr(child(paragraph, 'pPr'), 'lvl') ?? '0');
+        const li = lists.addItem(level, false);
+        Array.from(item.childNodes).forEach(node => li.appendChild(node));
+      }
+    }
+    lists.close();
+
+    for (const table of descendants(slide, 'tbl')) {
+      fillTable(root.createEl('table'), children(table, 'tr'), (cell, cellEl) => {
+        cellEl.setText(shapeText(cell));
+      });
+    }
+
+    for (const picture of descendants(slide, 'pic')) {
+      const alt = attr(descendants(picture, 'cNvPr')[0] ?? null, 'descr') ?? '';
+      for (const blip of descendants(picture, 'blip')) {
+        const rel = slideRelationships.get(relationAttr(blip, 'embed') ?? '');
+        if (rel && !rel.external) {
+          appendImage(root.createEl('p'), assets, zip, rel.target, alt);
+        }
+      }
+    }
+
+    const notesRel = Array.from(slideRelationships.values()).find(rel => rel.type.endsWith('/notesSlide'));
+    const notesText = notesRel ? zip.readText(notesRel.target) : null;
+    if (notesRel && notesText !== null) {
+      const notes = parseXml(notesText, notesRel.target);
+      const body = descendants(notes, 'sp').find(shape => placeholderType(shape) === 'body');
+      const text = body ? shapeText(body) : '';
+      if (text) {
+        root.createEl('blockquote').createEl('p', { text: `Notes: ${text}` });
+      }
+    }
+  });
+  return htmlToMarkdown(root);
+}
+
+function placeholderType(shape: Element): string | null {
+  const placeholder = descendants(shape, 'ph')[0];
+  if (!placeholder) return null;
+  return attr(placeholder, 'type') ?? 'body';
+}
+
+function shapeText(el: Element): string {
+  return descendants(el, 'p')
+    .map(p => descendants(p, 't').map(t => t.textContent ?? '').join(''))
+    .filter(text => text.trim())
+    .join(' / ')
+    .trim();
+}
+
+function renderPptxInline(paragraph: Element, parent: HTMLElement) {
+  for (const node of children(paragraph)) {
+    if (node.localName === 'br') {
+      parent.createEl('br');
+    } else if (node.localName === 'r' || node.localName === 'fld') {
+      const props = child(node, 'rPr');
+      const tags: string[] = [];
+      if (['1', 'true'].includes(attr(props, 'b') ?? '')) tags.push('strong');
+      if (['1', 'true'].includes(attr(props, 'i') ?? '')) tags.push('em');
+      const text = child(node, 't')?.textContent ?? '';
+      if (text) appendFormatted(parent, [document.createTextNode(text)], tags);
+    }
+  }
+}
+
+// --- HTML and EPUB ---
+
+function convertHtml(html: string, assets: AssetCollector): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, noscript, template, iframe').forEach(el => el.remove());
+
+  // Images embedded as data: URLs become assets; linked images keep their URLs
+  doc.querySelectorAll('img').forEach((img, index) => {
+    const match = /^data:([^;,]+)(;base64)?,(.*)$/.exec(img.getAttribute('src') ?? '');
+    if (!match) return;
+    const ext = IMAGE_EXTENSIONS[match[1].toLowerCase()];
+    if (!ext) return;
+    const data = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]), 'utf-8');
+    img.setAttribute('src', assets.add(`image${index + 1}.${ext}`, data));
+  });
+
+  return htmlToMarkdown(doc.body ?? doc.documentElement);
+}
+
+function convertEpub(zip: ZipArchive, assets: AssetCollector): string {
+  const container = parseXml(zip.readText('META-INF/container.xml'), 'META-INF/container.xml');
+  const packagePath = attr(descendants(container, 'rootfile')[0] ?? null, 'full-path');
+  if (!packagePath) {
+    throw new Error('The EPUB has no package document');
+  }
+  const pkg = parseXml(zip.readText(packagePath), packagePath);
+  const packageDir = path.posix.dirname(packagePath);
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of descendants(pkg, 'item')) {
+    const id = attr(item, 'id');
+    const href = attr(item, 'href');
+    if (id && href) {
+      manifest.set(id, { href: resolveArchivePath(packageDir, href), mediaType: attr(item, 'media-type') ?? '' });
+    }
+  }
+
+  const chapters = descendants(pkg, 'itemref')
+    .map(ref => manifest.get(attr(ref, 'idref') ?? ''))
+    .filter((item): item is { href: string; mediaType: string } => !!item && /html/.test(item.mediaType));
+  if (chapters.length === 0) {
+    throw new Error('The EPUB has no chapters');
+  }
+
+  const parts: string[] = [];
+  for (const chapter of chapters) {
+    const text = zip.readText(chapter.href);
+    if (text === null) continue;
+    const doc = new DOMParser().parseFromString(text, 'text/html');
+    const chapterDir = path.posix.dirname(chapter.href);
+    doc.querySelectorAll('script, style').forEach(el => el.remove());
+
+    // Pull images out of the book; SVG covers use <image xlink:href>
+    doc.querySelectorAll('img, image').forEach(el => {
+      const src = el.getAttribute('src') ?? el.getAttribute('xlink:href') ?? el.getAttribute('href');
+      if (!src || /^[a-z]+:/i.test(src)) return;
+      const archivePath = resolveArchivePath(chapterDir, src);
+      const data = zip.read(archivePath);
+      if (!data) return;
+      const img = doc.createElement('img');
+      img.setAttribute('src', assets.add(archivePath, data));
+      img.setAttribute('alt', el.getAttribute('alt') ?? '');
+      (el.closest('svg') ?? el).replaceWith(img);
+    });
+
+    // Links between chapters don't survive conversion; keep their text
+    doc.querySelectorAll('a[href]').forEach(a => {
+      if (!/^(https?|mailto):/i.test(a.getAttribute('href') ?? '')) {
+        a.replaceWith(...Array.from(a.childNodes));
+      }
+    });
+
+    parts.push(htmlToMarkdown(doc.body ?? doc.documentElement));
+  }
+  return parts.join('\n\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * Vault file operations for the agent's MCP tools. Everything goes through the
+ * Obsidian API so links are updated and the change journal can undo it.
+ */
+
+import { App, TAbstractFile, TFile, TFolder, normalizePath } from 'obsidian';
+import type { FileChangeInput } from './diff-utils';
+import { isTextFile } from './vault-snapshot';
+
+// Where vault.trash(file, false) puts files
+const VAULT_TRASH_FOLDER = '.trash';
+
+export const FILE_OPERATION_TOOLS = ['move_note', 'rename_note', 'copy_note', 'delete_note', 'create_folder'] as const;
+export type FileOperationTool = typeof FILE_OPERATION_TOOLS[number];
+
+export interface FileOperationResult {
+  summary: string;
+  // In the order they happened, including any folders created along the way
+  changes: FileChangeInput[];
+}
+
+/**
+ * Map an SDK tool name (mcp__obsidian__move_note) to its file operation, if it is one
+ */
+export function getFileOperationTool(toolName: string): FileOperationTool | null {
+  const name = toolName.replace(/^mcp__obsidian__/, '');
+  return (FILE_OPERATION_TOOLS as readonly string[]).includes(name) ? name as FileOperationTool : null;
+}
+
+/**
+ * One-line description of a pending file operation, for approval prompts
+ */
+export function describeFileOperation(tool: FileOperationTool, input: any): string {
+  switch (tool) {
+    case 'move_note':
+      return `Move ${input?.path} → ${input?.new_path}`;
+    case 'rename_note':
+      return `Rename ${input?.path} → ${input?.new_name}`;
+    case 'copy_note':
+      return `Copy ${input?.path} → ${input?.new_path}`;
+    case 'delete_note':
+      return `Move ${input?.path} to the vault trash`;
+    case 'create_folder':
+      return `Create folder ${input?.path}`;
+  }
+}
+
+function parentOf(filePath: string): string {
+  return filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+}
+
+/**
+ * Create any missing folders above filePath, returning the ones created (outermost first)
+ */
+export async function ensureParentFolder(app: App, filePath: string): Promise<string[]> {
+  const missing: string[] = [];
+  let folder = parentOf(filePath);
+  while (folder && !app.vault.getAbstractFileByPath(folder)) {
+    missing.unshift(folder);
+    folder = parentOf(folder);
+  }
+
+  for (const folderPath of missing) {
+    await app.vault.createFolder(folderPath);
+  }
+  return missing;
+}
+
+export function folderCreations(folders: string[]): FileChangeInput[] {
+  return folders.map(folderPath => ({
+    operation: 'create',
+    filePath: folderPath,
+    oldContent: null,
+    newContent: null,
+    isFolder: true,
+  }));
+}
+
+function requireEntry(app: App, entryPath: string): TAbstractFile {
+  const entry = app.vault.getAbstractFileByPath(normalizePath(entryPath));
+  if (!entry || entry.path === '/') {
+    throw new Error(`Not found: ${entryPath}`);
+  }
+  return entry;
+}
+
+/**
+ * Resolve a destination; an existing folder or a trailing slash means "inside this folder"
+ */
+function resolveDestination(app: App, entry: TAbstractFile, destination: string): string {
+  const normalized = normalizePath(destination);
+  const existing = app.vault.getAbstractFileByPath(normalized);
+  const target = existing instanceof TFolder || destination.endsWith('/')
+    ? normalizePath(`${normalized}/${entry.name}`)
+    : normalized;
+
+  if (target === entry.path) {
+    throw new Error(`${entry.path} is already at that location`);
+  }
+  if (app.vault.getAbstractFileByPath(target)) {
+    throw new Error(`${target} already exists`);
+  }
+  if (entry instanceof TFolder && target.startsWith(`${entry.path}/`)) {
+    throw new Error('Cannot move a folder inside itself');
+  }
+  return target;
+}
+
+async function moveTo(app: App, entry: TAbstractFile, target: string): Promise<FileOperationResult> {
+  const oldPath = entry.path;
+  const createdFolders = await ensureParentFolder(app, target);
+  await app.fileManager.renameFile(entry, target);
+
+  return {
+    summary: `Moved ${oldPath} → ${target}. Links to it were updated.`,
+    changes: [
+      ...folderCreations(createdFolders),
+      {
+        operation: 'move',
+        filePath: target,
+        oldPath,
+        oldContent: null,
+        newContent: null,
+        isFolder: entry instanceof TFolder,
+      },
+    ],
+  };
+}
+
+export async function moveNote(app: App, fromPath: string, toPath: string): Promise<FileOperationResult> {
+  const entry = requireEntry(app, fromPath);
+  return moveTo(app, entry, resolveDestination(app, entry, toPath));
+}
+
+/**
+ * Rename in place; a name without an extension keeps the file's current one
+ */
+export async function renameNote(app: App, filePath: string, newName: string): Promise<FileOperationResult> {
+  const entry = requireEntry(app, filePath);
+  const name = newName.trim();
+  if (!name || name.includes('/')) {
+    throw new Error('The new name must be a plain file name, not a path (use move_note to change folders)');
+  }
+
+  const fullName = entry instanceof TFile && !name.includes('.') ? `${name}.${entry.extension}` : name;
+  const parent = parentOf(entry.path);
+  return moveTo(app, entry, resolveDestination(app, entry, parent ? `${parent}/${fullName}` : fullName));
+}
+
+export async function copyNote(app: App, fromPath: string, toPath: string): Promise<FileOperationResult> {
+  const entry = requireEntry(app, fromPath);
+  if (!(entry instanceof TFile)) {
+    throw new Error(`${fromPath} is a folder; only files can be copied`);
+  }
+
+  const target = resolveDestination(app, entry, toPath);
+  const createdFolders = await ensureParentFolder(app, target);
+  const copy = await app.vault.copy(entry, target);
+  const newContent = isTextFile(target) ? await app.vault.read(copy) : null;
+
+  return {
+    summary: `Copied ${entry.path} → ${target}`,
+    changes: [
+      ...folderCreations(createdFolders),
+      { operation: 'create', filePath: target, oldContent: null, newContent },
+    ],
+  };
+}
+
+async function listVaultTrash(app: App): Promise<Set<string>> {
+  const adapter = app.vault.adapter;
+  return await adapter.exists(VAULT_TRASH_FOLDER)
+    ? new Set((await adapter.list(VAULT_TRASH_FOLDER)).files)
+    : new Set();
+}
+
+/**
+ * Move a file to the vault's .trash folder, returning where it landed there (Obsidian renames
+ * it when the name is taken), or undefined if that can't be told. This ignores the user's
+ * "Deleted files" setting on purpose: undo can only bring a file back from the vault trash,
+ * and binary files have no other copy to restore from.
+ */
+export async function trashFile(app: App, file: TFile): Promise<string | undefined> {
+  const before = await listVaultTrash(app);
+  await app.vault.trash(file, false);
+  const added = [...await listVaultTrash(app)].filter(trashPath => !before.has(trashPath));
+  return added.length === 1 ? added[0] : undefined;
+}
+
+/**
+ * Move a file to the vault trash, keeping its content (text files) and trash location for undo
+ */
+export async function deleteNote(app: App, filePath: string): Promise<FileOperationResult> {
+  const entry = requireEntry(app, filePath);
+  if (!(entry instanceof TFile)) {
+    throw new Error(`${filePath} is a folder; only files can be deleted`);
+  }
+
+  const oldContent = isTextFile(entry.path) ? await app.vault.read(entry) : null;
+  const trashPath = await trashFile(app, entry);
+
+  return {
+    summary: `Moved ${entry.path} to the vault trash (.trash)`,
+    changes: [{ operation: 'delete', filePath: entry.path, oldContent, newContent: null, trashPath }],
+  };
+}
+
+export async function createFolder(app: App, folderPath: string): Promise<FileOperationResult> {
+  const target = normalizePath(folderPath);
+  if (app.vault.getAbstractFileByPath(target)) {
+    throw new Error(`${target} already exists`);
+  }
+
+  const createdFolders = await ensureParentFolder(app, target);
+  await app.vault.createFolder(target);
+
+  return {
+    summary: `Created folder ${target}`,
+    changes: folderCreations([...createdFolders, target]),
+  };
+}
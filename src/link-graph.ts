@@ -0,0 +1,160 @@
+/**
+ * Link lookups built on Obsidian's metadataCache (wiki links, markdown links, embeds and frontmatter links)
+ */
+
+import { App, TFile, Reference, CachedMetadata, parseLinktext, parseFrontMatterAliases } from 'obsidian';
+
+export interface LinkReference {
+  sourcePath: string;
+  link: string;
+  original: string;
+  kind: 'link' | 'embed' | 'frontmatter';
+  targetPath: string | null;
+  subpath: string;
+  resolved: boolean;
+  line?: number;
+  context?: string;
+  frontmatterKey?: string;
+  viaAlias?: string;
+}
+
+const CONTEXT_MAX_LENGTH = 200;
+
+function collectReferences(cache: CachedMetadata): Array<{ ref: Reference; kind: LinkReference['kind']; line?: number; key?: string }> {
+  const refs: Array<{ ref: Reference; kind: LinkReference['kind']; line?: number; key?: string }> = [];
+
+  for (const link of cache.links || []) {
+    refs.push({ ref: link, kind: 'link', line: link.position.start.line });
+  }
+  for (const embed of cache.embeds || []) {
+    refs.push({ ref: embed, kind: 'embed', line: embed.position.start.line });
+  }
+  for (const fmLink of cache.frontmatterLinks || []) {
+    refs.push({ ref: fmLink, kind: 'frontmatter', key: fmLink.key });
+  }
+
+  return refs.sort((a, b) => (a.line ?? -1) - (b.line ?? -1));
+}
+
+function lineContext(lines: string[] | null, line: number | undefined): string | undefined {
+  if (!lines || line === undefined || line >= lines.length) return undefined;
+  const text = lines[line].trim();
+  return text.length > CONTEXT_MAX_LENGTH ? text.slice(0, CONTEXT_MAX_LENGTH - 1) + '…' : text;
+}
+
+async function readLines(app: App, file: TFile): Promise<string[] | null> {
+  try {
+    return (await app.vault.cachedRead(file)).split('\n');
+  } catch {
+    return null;
+  }
+}
+
+function toLinkReference(
+  app: App,
+  sourcePath: string,
+  entry: { ref: Reference; kind: LinkReference['kind']; line?: number; key?: string },
+  lines: string[] | null
+): LinkReference {
+  const { path: linkpath, subpath } = parseLinktext(entry.ref.link);
+  const target = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+
+  return {
+    sourcePath,
+    link: entry.ref.link,
+    original: entry.ref.original,
+    kind: entry.kind,
+    // A bare [[#Heading]] link points at its own file
+    targetPath: target ? target.path : (linkpath === '' ? sourcePath : null),
+    subpath,
+    resolved: !!target || linkpath === '',
+    line: entry.line !== undefined ? entry.line + 1 : undefined,
+    context: lineContext(lines, entry.line),
+    frontmatterKey: entry.key,
+  };
+}
+
+/**
+ * Every link, embed and frontmatter link in a note, with resolution status
+ */
+export async function getOutgoingLinks(app: App, file: TFile): Promise<LinkReference[]> {
+  const cache = app.metadataCache.getFileCache(file);
+  if (!cache) return [];
+
+  const lines = await readLines(app, file);
+  return collectReferences(cache).map(entry => toLinkReference(app, file.path, entry, lines));
+}
+
+/**
+ * Every reference to a note from other notes, including unresolved links that use one of its aliases
+ */
+export async function getBacklinks(app: App, target: TFile): Promise<LinkReference[]> {
+  const results: LinkReference[] = [];
+  const { resolvedLinks, unresolvedLinks } = app.metadataCache;
+
+  const targetCache = app.metadataCache.getFileCache(target);
+  const aliases = (parseFrontMatterAliases(targetCache?.frontmatter) || []).map(a => a.toLowerCase());
+
+  const sources = new Set<string>();
+  for (const [sourcePath, dests] of Object.entries(resolvedLinks)) {
+    if (sourcePath !== target.path && dests[target.path]) {
+      sources.add(sourcePath);
+    }
+  }
+  if (aliases.length > 0) {
+    for (const [sourcePath, dests] of Object.entries(unresolvedLinks)) {
+      if (Object.keys(dests).some(dest => aliases.includes(dest.toLowerCase()))) {
+        sources.add(sourcePath);
+      }
+    }
+  }
+
+  for (const sourcePath of [...sources].sort()) {
+    const sourceFile = app.vault.getAbstractFileByPath(sourcePath);
+    if (!(sourceFile instanceof TFile)) continue;
+    const cache = app.metadataCache.getFileCache(sourceFile);
+    if (!cache) continue;
+
+    const lines = await readLines(app, sourceFile);
+    for (const entry of collectReferences(cache)) {
+      const ref = toLinkReference(app, sourcePath, entry, lines);
+      if (ref.targetPath === target.path) {
+        results.push(ref);
+        continue;
+      }
+
+      // Obsidian leaves [[Alias]] unresolved; report it so the agent can fix it to [[Note|Alias]]
+      const linkpath = parseLinktext(entry.ref.link).path.toLowerCase();
+      if (!ref.resolved && aliases.includes(linkpath)) {
+        ref.viaAlias = parseLinktext(entry.ref.link).path;
+        results.push(ref);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Render a single reference as a bullet line for tool output
+ */
+export function formatLinkReference(ref: LinkReference, showTarget: boolean): string {
+  const location = ref.kind === 'frontmatter'
+    ? `frontmatter "${ref.frontmatterKey}"`
+    : `Line ${ref.line}`;
+  const kindLabel = ref.kind === 'embed' ? ' (embed)' : '';
+
+  let text = `- ${location}: ${ref.original}${kindLabel}`;
+  if (showTarget) {
+    text += ref.resolved ? ` → ${ref.targetPath}` : ' → unresolved';
+  } else if (ref.viaAlias) {
+    text += ` (unresolved; matches alias "${ref.viaAlias}")`;
+  }
+  if (ref.subpath) {
+    text += ` [${ref.subpath.startsWith('#^') ? 'block' : 'heading'} ${ref.subpath}]`;
+  }
+  if (ref.context && ref.context !== ref.original) {
+    text += `\n    ${ref.context}`;
+  }
+  return text;
+}
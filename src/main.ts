@@ -1,17 +1,104 @@
-import { Plugin, WorkspaceLeaf, ItemView, TFile, Notice, MarkdownRenderer, MarkdownView } from 'obsidian';
-import { query, tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
+import { Plugin, WorkspaceLeaf, ItemView, TFile, Notice, MarkdownRenderer, MarkdownView, Menu, ViewStateResult, normalizePath, Events } from 'obsidian';
+import { query, tool, createSdkMcpServer, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import * as fs from 'fs/promises';
+import { watch, rmSync, FSWatcher } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { ObsidianAgentSettings, DEFAULT_SETTINGS, ObsidianAgentSettingTab, BASE_PROMPT, detectClaudeCodePath } from './settings';
-import { ChangeTracker, FileChange } from './diff-utils';
-import { lintProse, formatLintSummary } from './prose-lint';
+import { ChangeTracker, FileChange, FileChangeInput, HunkedDiff, splitIntoHunks, applyHunks, minimalReplacement } from './diff-utils';
+import { lintProse, formatLintSummary, formatLintJson } from './prose-lint';
+import { resolveLintOptions, ResolvedLintOptions } from './prose-lint-config';
+import { SessionStore, ChatSession, TranscriptBlock, TranscriptMessage, createEmptySession } from './session-store';
+import { SessionHistoryView, VIEW_TYPE_SESSION_HISTORY } from './session-history-view';
+import { ProseLintView, VIEW_TYPE_PROSE_LINT } from './prose-lint-view';
+import { createProseLintExtension, addLintMenuItems, getEditorView, requestEditorLint } from './prose-lint-editor';
+import { TextPromptModal } from './text-prompt-modal';
+import { ChangeJournal } from './change-journal';
+import { revertFileChange, restoreFileChange, revertChangesInOrder, canRevertChange } from './change-revert';
+import { VaultSearchIndex } from './search-index';
+import { getBacklinks, getOutgoingLinks, formatLinkReference, LinkReference } from './link-graph';
+import { parseNaturalDate, getPeriodicNoteConfig, getPeriodicNotePath, createPeriodicNote } from './periodic-notes';
+import { VaultSnapshot, isTextFile } from './vault-snapshot';
+import { buildMcpServerConfigs, splitMcpToolName } from './mcp-servers';
+import { SecretStore } from './secret-store';
+import {
+  AttachmentContentBlock,
+  ChatAttachment,
+  FOLDER_MIME_TYPE,
+  attachmentBase64,
+  attachmentBuffer,
+  attachmentIcon,
+  createVaultAttachment,
+  describeVaultAttachments,
+  findVaultFileByPath,
+  getDraggedVaultFiles,
+  isBinaryAttachment,
+  pastedFileName,
+  readAttachmentFile,
+  toContentBlock,
+} from './chat-attachments';
+import { convertDocument, describeConvertedDocument, isConvertibleDocument } from './document-conversion';
+import { ContextMention, expandMentions, mentionIcon, mentionLabel, sameMention } from './context-mentions';
+import { MentionSuggest } from './mention-suggest';
+import { ActiveContext, buildActiveContext } from './active-context';
+import { evaluatePermission, describePermissionRequest, describeRule, splitCommandChain, hasSubstitutionOrRedirect, PermissionResult } from './permission-policy';
+import {
+  CustomToolDefinition,
+  CustomToolsLoadResult,
+  validateCustomToolsConfig,
+  buildParameterShape,
+  buildCommandInput,
+  resolveUserPath,
+  resolveOutputPath,
+  detectImageMimeType,
+  runToolProcess,
+  killRunningProcesses,
+} from './custom-tools';
+import {
+  FileOperationResult,
+  FILE_OPERATION_TOOLS,
+  getFileOperationTool,
+  describeFileOperation,
+  moveNote,
+  renameNote,
+  copyNote,
+  deleteNote,
+  createFolder,
+  ensureParentFolder,
+  folderCreations,
+} from './file-operations';
 
 const VIEW_TYPE_AGENT_CHAT = 'agent-chat-view';
 
+// The vault tools createTools builds; custom tools can't take these names
+const BUILT_IN_TOOL_NAMES = [
+  'search_vault',
+  'get_daily_note',
+  'get_backlinks',
+  'get_outgoing_links',
+  'list_pages',
+  ...FILE_OPERATION_TOOLS,
+  'lint_prose',
+];
+
 export default class ObsidianAgentPlugin extends Plugin {
-  private vaultPath: string = '';
+  vaultPath: string = '';
   settings: ObsidianAgentSettings;
+  sessionStore!: SessionStore;
+  searchIndex!: VaultSearchIndex;
+  changeJournal!: ChangeJournal;
+  secretStore!: SecretStore;
+  customToolsStatus: CustomToolsLoadResult | null = null;
+  // Triggers 'changed' whenever customToolsStatus is refreshed
+  customToolsEvents = new Events();
+  // 'results' (editorView, file) after the editor lints a note
+  proseLintEvents = new Events();
+  private customToolsWatcher: FSWatcher | null = null;
+  private customToolsReloadTimer: number | null = null;
+  // Temp folders holding the uploads of turns that are still running
+  private uploadDirs = new Set<string>();
+  lastActiveChatView: AgentChatView | null = null;
 
   async onload() {
     console.log('[ObsidianAgent] Loading plugin...');
@@ -21,16 +108,82 @@ export default class ObsidianAgentPlugin extends Plugin {
 
     // Load settings
     await this.loadSettings();
+    this.addSettingsStyles();
 
     this.vaultPath = (this.app.vault.adapter as any).basePath;
     console.log('[ObsidianAgent] Vault path:', this.vaultPath);
 
+    // Secrets referenced from tool configs; kept in settings, encrypted when the OS allows
+    this.secretStore = new SecretStore(this.settings.secrets, () => this.saveSettings());
+
+    // Chat sessions are stored alongside the plugin so they survive restarts (with secrets redacted)
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.sessionStore = new SessionStore(this.app.vault.adapter, pluginDir, text => this.secretStore.redact(text));
+
+    // Agent file changes are journaled so turns and sessions can be undone after a restart
+    this.changeJournal = new ChangeJournal(this.app.vault.adapter, pluginDir);
+    await this.changeJournal.load();
+    // A session's changes are kept for as long as the session, so its undo stays complete
+    this.changeJournal.retainSessions(new Set((await this.sessionStore.list()).map(session => session.id)));
+    this.registerEvent(this.sessionStore.on('deleted', (sessionId: string) => this.changeJournal.removeSession(sessionId)));
+
+    // Keep the search index current as notes change; it is built on first search
+    this.searchIndex = new VaultSearchIndex(this.app);
+    this.registerEvent(this.app.vault.on('create', (file) => {
+      if (file instanceof TFile) this.searchIndex.updateFile(file);
+    }));
+    this.registerEvent(this.app.vault.on('modify', (file) => {
+      if (file instanceof TFile) this.searchIndex.updateFile(file);
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (file instanceof TFile) this.searchIndex.renameFile(file, oldPath);
+    }));
+    this.registerEvent(this.app.vault.on('delete', (file) => {
+      this.searchIndex.deleteFile(file.path);
+    }));
+
     // Register the chat view
     this.registerView(
       VIEW_TYPE_AGENT_CHAT,
       (leaf) => new AgentChatView(leaf, this)
     );
 
+    // Register the session history sidebar
+    this.registerView(
+      VIEW_TYPE_SESSION_HISTORY,
+      (leaf) => new SessionHistoryView(leaf, this)
+    );
+
+    // Register the prose lint sidebar
+    this.registerView(
+      VIEW_TYPE_PROSE_LINT,
+      (leaf) => new ProseLintView(leaf, this)
+    );
+
+    // Underline prose issues in notes, with quick fixes on hover and in the context menu
+    this.registerEditorExtension(createProseLintExtension(this));
+    this.registerEvent(this.app.workspace.on('editor-menu', (menu, _editor, info) => {
+      const view = info instanceof MarkdownView ? getEditorView(info) : null;
+      if (view) addLintMenuItems(menu, view, this);
+    }));
+
+    // Word, PowerPoint, HTML and EPUB files in the vault can be converted to notes
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (!(file instanceof TFile) || !isConvertibleDocument(file.name)) return;
+      menu.addItem(item => item
+        .setTitle('Import as note')
+        .setIcon('file-input')
+        .onClick(async () => {
+          try {
+            const note = await this.importDocumentAsNote(createVaultAttachment(file), file.path);
+            await this.app.workspace.getLeaf(false).openFile(note);
+          } catch (error: any) {
+            console.error('[ObsidianAgent] Import error:', error);
+            new Notice(`Couldn't import ${file.name}: ${error.message}`);
+          }
+        }));
+    }));
+
     // Add ribbon icon to open chat
     this.addRibbonIcon('bot', 'Open Agent Chat', () => {
       this.activateView();
@@ -51,8 +204,72 @@ export default class ObsidianAgentPlugin extends Plugin {
       }
     });
 
+    // Add command to open an additional, independent chat
+    this.addCommand({
+      id: 'new-agent-chat',
+      name: 'New Agent Chat',
+      callback: () => {
+        this.openNewChatView();
+      }
+    });
+
+    // Add command to label the focused chat tab
+    this.addCommand({
+      id: 'rename-agent-chat-tab',
+      name: 'Rename Agent Chat Tab',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(AgentChatView);
+        if (!view) return false;
+        if (!checking) {
+          view.promptRename();
+        }
+        return true;
+      }
+    });
+
+    // Add command to undo everything the agent changed in the focused chat
+    this.addCommand({
+      id: 'undo-agent-session-changes',
+      name: 'Undo All Agent Changes in This Chat',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(AgentChatView);
+        if (!view) return false;
+        if (!checking) {
+          view.undoSession();
+        }
+        return true;
+      }
+    });
+
+    // Add command to browse saved sessions
+    this.addCommand({
+      id: 'open-agent-session-history',
+      name: 'Open Agent Session History',
+      callback: () => {
+        this.activateHistoryView();
+      }
+    });
+
+    // Add command to list the prose issues in the open note
+    this.addCommand({
+      id: 'lint-current-note',
+      name: 'Lint Current Note',
+      checkCallback: (checking: boolean) => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view) return false;
+        if (!checking) {
+          this.activateProseLintView(view);
+        }
+        return true;
+      }
+    });
+
     // Add settings tab
     this.addSettingTab(new ObsidianAgentSettingTab(this.app, this));
+
+    // Validate the custom tools config now and whenever it changes
+    this.watchCustomToolsConfig();
+    await this.reloadCustomTools();
   }
 
   async loadSettings() {
@@ -68,6 +285,17 @@ export default class ObsidianAgentPlugin extends Plugin {
     }
 
     this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    // Copy list settings so edits never touch the shared defaults
+    this.settings.permissionRules = [...(this.settings.permissionRules || [])];
+    this.settings.mcpServers = [...(this.settings.mcpServers || [])];
+    this.settings.secrets = [...(this.settings.secrets || [])];
+    this.settings.proseLintOptions = {
+      ...DEFAULT_SETTINGS.proseLintOptions,
+      ...this.settings.proseLintOptions,
+      customPhrases: [...(this.settings.proseLintOptions?.customPhrases || [])],
+      allowlist: [...(this.settings.proseLintOptions?.allowlist || [])],
+    };
+    this.settings.activeContext = { ...DEFAULT_SETTINGS.activeContext, ...this.settings.activeContext };
 
     // Auto-detect Claude Code path if not set
     if (!this.settings.claudeCodePath) {
@@ -87,175 +315,215 @@ export default class ObsidianAgentPlugin extends Plugin {
     await this.saveData(this.settings);
   }
 
-  async loadCustomTools(): Promise<any[]> {
-    if (!this.settings.customMcpConfigPath) {
-      return [];
-    }
-
-    try {
-      let configPath = this.settings.customMcpConfigPath.trim();
+  evaluateToolPermission(toolName: string, input: Record<string, any>): PermissionResult {
+    return evaluatePermission(
+      this.settings.permissionRules,
+      describePermissionRequest(toolName, input, this.vaultPath),
+      this.settings.requireEditApproval
+    );
+  }
 
-      // Handle ~ expansion
-      if (configPath.startsWith('~')) {
-        configPath = configPath.replace(/^~/, process.env.HOME || process.env.USERPROFILE || '');
-      }
+  /**
+   * Lint options for a vault note, with folder config notes and its frontmatter applied
+   */
+  getLintOptions(filePath?: string, content?: string): Promise<ResolvedLintOptions> {
+    return resolveLintOptions(this.app, this.settings.proseLintOptions, this.settings.proseLintConfigNote, filePath, content);
+  }
 
-      // Check if path is absolute (Windows or Unix)
-      const isAbsolute = path.isAbsolute(configPath);
-      if (!isAbsolute) {
-        // If relative, resolve from vault path
-        configPath = path.resolve(this.vaultPath, configPath);
-      }
+  resolveCustomToolsConfigPath(): string {
+    // Supports ~, absolute paths (Windows or Unix) and paths relative to the vault
+    return resolveUserPath(this.settings.customMcpConfigPath, this.vaultPath);
+  }
 
-      console.log('[ObsidianAgent] Loading custom tools from:', configPath);
+  /**
+   * Watch the custom tools config and re-validate it when it changes. The folder is
+   * watched rather than the file, since many editors save by replacing the file.
+   */
+  watchCustomToolsConfig() {
+    this.customToolsWatcher?.close();
+    this.customToolsWatcher = null;
+    if (!this.settings.customMcpConfigPath.trim()) return;
 
-      const configContent = await fs.readFile(configPath, 'utf-8');
-      const config = JSON.parse(configContent);
+    const configPath = this.resolveCustomToolsConfigPath();
+    try {
+      this.customToolsWatcher = watch(path.dirname(configPath), (_event, filename) => {
+        if (filename && filename.toString() !== path.basename(configPath)) return;
+        if (this.customToolsReloadTimer !== null) {
+          window.clearTimeout(this.customToolsReloadTimer);
+        }
+        this.customToolsReloadTimer = window.setTimeout(() => {
+          this.customToolsReloadTimer = null;
+          this.reloadCustomTools(true);
+        }, 300);
+      });
+      this.customToolsWatcher.on('error', (error) => {
+        console.warn('[ObsidianAgent] Custom tools config watcher stopped:', error);
+        this.customToolsWatcher?.close();
+        this.customToolsWatcher = null;
+      });
+    } catch (error: any) {
+      console.warn('[ObsidianAgent] Could not watch custom tools config:', error.message);
+    }
+  }
 
-      if (!config.tools || !Array.isArray(config.tools)) {
-        console.warn('[ObsidianAgent] Config must have a "tools" array');
-        return [];
-      }
+  /**
+   * Re-read the custom tools config and tell listeners (the settings tab) about the result
+   */
+  async reloadCustomTools(notifyOnErrors = false) {
+    await this.loadCustomTools(BUILT_IN_TOOL_NAMES);
+    this.customToolsEvents.trigger('changed');
 
-      console.log('[ObsidianAgent] Loaded custom tools:', config.tools.map((t: any) => t.name));
-      return config.tools;
-    } catch (error: any) {
-      console.error('[ObsidianAgent] Failed to load custom tools:', error.message);
-      new Notice(`Failed to load custom tools: ${error.message}`);
-      return [];
+    const errorCount = this.customToolsStatus?.errors.length ?? 0;
+    if (notifyOnErrors && errorCount > 0) {
+      new Notice(`Custom tools config has ${errorCount} problem(s). See Settings → Custom Tools.`);
     }
   }
 
-  createToolWrapper(toolDef: any) {
-    // Build Zod schema from parameters
-    const schemaFields: Record<string, any> = {};
-    if (toolDef.parameters) {
-      for (const [paramName, paramDef] of Object.entries(toolDef.parameters as any)) {
-        let zodType = z.string(); // Default to string
+  /**
+   * Run a custom tool outside a chat, for the settings tab's test run
+   */
+  async testCustomTool(toolDef: CustomToolDefinition, args: Record<string, unknown>, abortSignal?: AbortSignal) {
+    const params = z.object(buildParameterShape(toolDef)).parse(args);
+    return this.createToolWrapper(toolDef, undefined, abortSignal).handler(params, {});
+  }
 
-        if (paramDef.type === 'number' || paramDef.type === 'integer') {
-          zodType = z.number();
-        } else if (paramDef.type === 'boolean') {
-          zodType = z.boolean();
-        }
+  /**
+   * Read and validate the custom tools config. Valid tools are returned; problems are
+   * kept per tool in customToolsStatus for the settings tab.
+   */
+  async loadCustomTools(reservedNames: string[] = []): Promise<CustomToolDefinition[]> {
+    if (!this.settings.customMcpConfigPath) {
+      this.customToolsStatus = null;
+      return [];
+    }
 
-        if (paramDef.optional) {
-          zodType = zodType.optional();
-        }
+    const configPath = this.resolveCustomToolsConfigPath();
+    console.log('[ObsidianAgent] Loading custom tools from:', configPath);
 
-        if (paramDef.description) {
-          zodType = zodType.describe(paramDef.description);
-        }
+    let config: unknown;
+    try {
+      const configContent = await fs.readFile(configPath, 'utf-8');
+      config = JSON.parse(configContent);
+    } catch (error: any) {
+      console.error('[ObsidianAgent] Failed to load custom tools:', error.message);
+      this.customToolsStatus = {
+        configPath,
+        tools: [],
+        errors: [{ tool: 'config', message: error.code === 'ENOENT' ? 'File not found' : error.message }],
+        checkedAt: Date.now(),
+      };
+      return [];
+    }
 
-        schemaFields[paramName] = zodType;
-      }
+    const { tools, errors } = validateCustomToolsConfig(config, reservedNames, this.secretStore.list().map(secret => secret.name));
+    if (errors.length > 0) {
+      console.warn('[ObsidianAgent] Custom tool config problems:', errors);
     }
+    console.log('[ObsidianAgent] Loaded custom tools:', tools.map(t => t.name));
 
+    this.customToolsStatus = { configPath, tools, errors, checkedAt: Date.now() };
+    return tools;
+  }
+
+  createToolWrapper(
+    toolDef: CustomToolDefinition,
+    changeTracking?: ChangeTrackingCallbacks,
+    abortSignal?: AbortSignal,
+    onToolProgress?: ToolProgressCallback
+  ) {
     return tool(
       toolDef.name,
       toolDef.description,
-      z.object(schemaFields).shape,
-      async (params: any) => {
+      buildParameterShape(toolDef),
+      async (params: any, extra: any) => {
         try {
-          console.log(`[ObsidianAgent] Executing custom tool: ${toolDef.name}`, params);
+          console.log(`[ObsidianAgent] Executing custom tool: ${toolDef.name}`, this.secretStore.redactDeep(params));
 
-          // Build command args with parameters
-          const args = [...(toolDef.args || [])];
-
-          // Add parameters as command-line flags
-          // Use separate arguments instead of --key=value to handle spaces
-          for (const [key, value] of Object.entries(params)) {
-            if (value !== undefined && value !== null) {
-              args.push(`--${key}`);
-              args.push(String(value));
-            }
-          }
+          // Build command args with parameters, according to the tool's argStyle; ${secret:NAME} references are filled in here
+          const input = buildCommandInput(toolDef, params);
+          const args = [...(toolDef.args || []).map(arg => this.secretStore.resolve(arg)), ...input.args];
+          const cwd = toolDef.cwd ? resolveUserPath(toolDef.cwd, this.vaultPath) : undefined;
 
           // Build environment variables
-          const env = { ...process.env, ...(toolDef.env || {}) };
+          const toolEnv = this.secretStore.resolveRecord(toolDef.env || {});
+          const env: NodeJS.ProcessEnv = { ...process.env, ...toolEnv };
 
-          console.log(`[ObsidianAgent] Executing with env:`, Object.keys(toolDef.env || {}).join(', '));
+          console.log(`[ObsidianAgent] Executing with env:`, Object.keys(toolEnv).join(', '));
 
-          // Special handling for WSL: env vars don't pass through automatically
-          let finalCommand = toolDef.command;
-          let finalArgs = [...args];
+          // Special handling for WSL: Windows env vars only reach Linux when listed in WSLENV,
+          // which keeps their values off the command line (and out of process listings)
+          const finalCommand = toolDef.command;
+          const finalArgs = [...args];
 
-          if (toolDef.command.toLowerCase() === 'wsl' && toolDef.env && Object.keys(toolDef.env).length > 0) {
-            // For WSL, inject env var assignments as separate arguments
-            // Format: wsl PRIMO_API_KEY=value PRIMO_VID=value python3 script.py args...
-            const envArgs = Object.entries(toolDef.env)
-              .map(([key, value]) => `${key}=${value}`);
-            finalArgs = [...envArgs, ...args];
-            console.log(`[ObsidianAgent] WSL command with env:`, finalCommand, finalArgs.join(' '));
-          } else {
-            console.log(`[ObsidianAgent] Full command:`, finalCommand, finalArgs.join(' '));
+          if (toolDef.command.toLowerCase() === 'wsl' && Object.keys(toolEnv).length > 0) {
+            env.WSLENV = [process.env.WSLENV, ...Object.keys(toolEnv)].filter(Boolean).join(':');
           }
+          console.log(`[ObsidianAgent] Full command:`, finalCommand, this.secretStore.redact(finalArgs.join(' ')));
+
+          const toolUseId: string | undefined = extra?._meta?.['claudecode/toolUseId'];
+          const { code, stdout, stderr: rawStderr, stopped } = await runToolProcess(finalCommand, finalArgs, {
+            env,
+            cwd,
+            stdin: input.stdin,
+            timeoutMs: toolDef.timeoutMs,
+            maxOutputBytes: toolDef.maxOutputBytes,
+            signal: abortSignal,
+            onStderr: text => onToolProgress?.(toolUseId, text),
+          });
+          // Tools can echo the secrets they were given; keep them out of the chat and the log
+          const stderr = this.secretStore.redact(rawStderr);
 
-          // Execute command using Node.js child_process
-          const { spawn } = require('child_process');
-
-          return new Promise((resolve) => {
-            const proc = spawn(finalCommand, finalArgs, { env });
-            let stdout = '';
-            let stderr = '';
-
-            proc.stdout.on('data', (data: Buffer) => {
-              stdout += data.toString();
-            });
-
-            proc.stderr.on('data', (data: Buffer) => {
-              stderr += data.toString();
-            });
+          if (stopped === 'aborted') {
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `${toolDef.name} was stopped by the user`,
+              }],
+            };
+          }
+          if (stopped === 'timeout') {
+            console.error(`[ObsidianAgent] Tool ${toolDef.name} timed out after ${toolDef.timeoutMs}ms`);
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `Error executing ${toolDef.name}: timed out after ${(toolDef.timeoutMs ?? 0) / 1000}s${stderr ? `\n${stderr}` : ''}`,
+              }],
+            };
+          }
+          if (stopped === 'output-limit') {
+            console.warn(`[ObsidianAgent] Tool ${toolDef.name} output exceeded ${toolDef.maxOutputBytes} bytes`);
+            if (toolDef.output.mode === 'image' || toolDef.output.mode === 'vault') {
+              throw new Error(`output exceeded maxOutputBytes (${toolDef.maxOutputBytes} bytes)`);
+            }
+          } else if (code !== 0) {
+            console.error(`[ObsidianAgent] Tool ${toolDef.name} failed:`, stderr);
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `Error executing ${toolDef.name}: ${stderr || 'Command failed'}`,
+              }],
+            };
+          }
 
-            proc.on('error', (error: Error) => {
-              console.error(`[ObsidianAgent] Tool ${toolDef.name} spawn error:`, error);
-              resolve({
-                content: [{
+          const result = await this.formatCustomToolOutput(toolDef, params, stdout, cwd, extra, changeTracking);
+          if (stopped === 'output-limit') {
+            return {
+              content: [
+                ...result.content,
+                {
                   type: 'text' as const,
-                  text: `Error executing ${toolDef.name}: ${error.message}`,
-                }],
-              });
-            });
-
-            proc.on('close', (code: number) => {
-              if (code !== 0) {
-                console.error(`[ObsidianAgent] Tool ${toolDef.name} failed:`, stderr);
-                resolve({
-                  content: [{
-                    type: 'text' as const,
-                    text: `Error executing ${toolDef.name}: ${stderr || 'Command failed'}`,
-                  }],
-                });
-                return;
-              }
-
-              // Try to parse JSON output
-              try {
-                const result = JSON.parse(stdout);
-                const resultText = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
-                resolve({
-                  content: [{
-                    type: 'text' as const,
-                    text: resultText,
-                  }],
-                });
-              } catch (parseError) {
-                // If not JSON, return raw output
-                resolve({
-                  content: [{
-                    type: 'text' as const,
-                    text: stdout,
-                  }],
-                });
-              }
-            });
-          });
+                  text: `[Output truncated at ${toolDef.maxOutputBytes} bytes; the command was stopped]`,
+                },
+              ],
+            };
+          }
+          return result;
         } catch (error: any) {
-          console.error(`[ObsidianAgent] Error in custom tool ${toolDef.name}:`, error);
+          console.error(`[ObsidianAgent] Error in custom tool ${toolDef.name}:`, this.secretStore.redact(String(error?.message ?? error)));
           return {
             content: [{
               type: 'text' as const,
-              text: `Error: ${error.message}`,
+              text: `Error executing ${toolDef.name}: ${this.secretStore.redact(error.message)}`,
             }],
           };
         }
@@ -263,60 +531,206 @@ export default class ObsidianAgentPlugin extends Plugin {
     );
   }
 
-  async createTools() {
-    const vaultPath = this.vaultPath;
+  /**
+   * Turn a custom tool's stdout into a tool result according to its output mode
+   */
+  private async formatCustomToolOutput(
+    toolDef: CustomToolDefinition,
+    params: Record<string, unknown>,
+    stdout: Buffer,
+    cwd: string | undefined,
+    extra: any,
+    changeTracking: ChangeTrackingCallbacks | undefined
+  ) {
+    switch (toolDef.output.mode) {
+      case 'image': {
+        // The command prints either the image itself or the path of an image file
+        let data = stdout;
+        let mimeType = detectImageMimeType(data);
+        const printedPath = stdout.toString('utf8').trim();
+        if (!mimeType && printedPath && !printedPath.includes('\n')) {
+          const imagePath = resolveUserPath(printedPath, cwd || this.vaultPath);
+          data = await fs.readFile(imagePath);
+          mimeType = detectImageMimeType(data);
+        }
+        mimeType = mimeType || toolDef.output.mimeType || null;
+        if (!mimeType) {
+          throw new Error('output is not a recognised image (set output.mimeType if the format is right)');
+        }
+        return {
+          content: [{
+            type: 'image' as const,
+            data: data.toString('base64'),
+            mimeType,
+          }],
+        };
+      }
+
+      case 'vault': {
+        const result = await this.saveToolOutput(resolveOutputPath(toolDef, params), stdout, toolDef.output.overwrite ?? false);
+        changeTracking?.recordOperation(extra?._meta?.['claudecode/toolUseId'], result.changes);
+        return {
+          content: [{
+            type: 'text' as const,
+            text: result.summary,
+          }],
+        };
+      }
+
+      case 'text':
+        return {
+          content: [{
+            type: 'text' as const,
+            text: this.secretStore.redact(stdout.toString('utf8')),
+          }],
+        };
+
+      default: {
+        // Try to parse JSON output, otherwise return raw output. Secrets are redacted before
+        // parsing and again after, in case one was written with JSON escapes
+        const text = this.secretStore.redact(stdout.toString('utf8'));
+        let resultText = text;
+        try {
+          const result = JSON.parse(text);
+          resultText = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+        } catch (parseError) {
+          // Not JSON
+        }
+        return {
+          content: [{
+            type: 'text' as const,
+            text: this.secretStore.redact(resultText),
+          }],
+        };
+      }
+    }
+  }
+
+  /**
+   * Write a custom tool's output into the vault, picking a free name unless overwriting
+   */
+  private async saveToolOutput(outputPath: string, data: Buffer, overwrite: boolean): Promise<FileOperationResult> {
+    let target = normalizePath(outputPath);
+    const textOutput = isTextFile(target);
+    const existing = this.app.vault.getAbstractFileByPath(target);
+
+    if (existing instanceof TFile && overwrite && textOutput) {
+      const oldContent = await this.app.vault.read(existing);
+      const newContent = data.toString('utf8');
+      await this.app.vault.modify(existing, newContent);
+      return {
+        summary: `Saved output to ${target}: ${this.app.fileManager.generateMarkdownLink(existing, '')}`,
+        changes: [{ operation: 'edit', filePath: target, oldContent, newContent }],
+      };
+    }
+
+    if (existing) {
+      const extension = path.posix.extname(target);
+      const base = target.slice(0, target.length - extension.length);
+      let counter = 1;
+      while (this.app.vault.getAbstractFileByPath(`${base} ${counter}${extension}`)) {
+        counter++;
+      }
+      target = `${base} ${counter}${extension}`;
+    }
+
+    const createdFolders = await ensureParentFolder(this.app, target);
+    const newContent = textOutput ? data.toString('utf8') : null;
+    const file = newContent !== null
+      ? await this.app.vault.create(target, newContent)
+      : await this.app.vault.createBinary(target, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+
+    return {
+      summary: `Saved output to ${target}: ${this.app.fileManager.generateMarkdownLink(file, '')}`,
+      changes: [
+        ...folderCreations(createdFolders),
+        { operation: 'create', filePath: target, oldContent: null, newContent },
+      ],
+    };
+  }
+
+  /**
+   * Run a file operation tool, record its changes against the calling tool use, and report back
+   */
+  private async runFileOperation(
+    name: string,
+    extra: any,
+    changeTracking: ChangeTrackingCallbacks | undefined,
+    operation: () => Promise<FileOperationResult>
+  ) {
+    try {
+      const result = await operation();
+      changeTracking?.recordOperation(extra?._meta?.['claudecode/toolUseId'], result.changes);
+      console.log(`[ObsidianAgent] Tool: ${name}:`, result.summary);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: result.summary,
+        }],
+      };
+    } catch (error: any) {
+      console.error(`[ObsidianAgent] Error in ${name}:`, error);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Error in ${name}: ${error.message}`,
+        }],
+      };
+    }
+  }
 
+  async createTools(changeTracking?: ChangeTrackingCallbacks, abortSignal?: AbortSignal, onToolProgress?: ToolProgressCallback) {
     const builtInTools = [
       tool(
         'search_vault',
-        'Search for text across all markdown files in the vault',
+        'Ranked full-text search across all markdown notes (BM25). Supports "exact phrases", /regex/flags, and filters: path:Folder, tag:#tag, and frontmatter fields like status:draft. Use offset to page through more results.',
         z.object({
-          query: z.string().describe('Search query to find in notes'),
+          query: z.string().describe('Search query, e.g. \'"reading list" tag:#books path:Library status:active\''),
+          limit: z.number().int().min(1).max(100).optional().describe('Maximum number of files to return (default 20)'),
+          offset: z.number().int().min(0).optional().describe('Number of ranked results to skip, for paging (default 0)'),
         }).shape,
-        async ({ query }) => {
-          console.log('[ObsidianAgent] Tool: search_vault called with query:', query);
+        async ({ query, limit, offset }) => {
+          console.log('[ObsidianAgent] Tool: search_vault called with query:', query, { limit, offset });
           try {
-            const files = this.app.vault.getMarkdownFiles();
-            const results: Array<{ file: string; matches: string[] }> = [];
-
-            for (const file of files) {
-              const content = await this.app.vault.read(file);
-              const lines = content.split('\n');
-              const matches: string[] = [];
-
-              lines.forEach((line, idx) => {
-                if (line.toLowerCase().includes(query.toLowerCase())) {
-                  matches.push(`Line ${idx + 1}: ${line.trim()}`);
-                }
-              });
+            const results = await this.searchIndex.search(query, { limit, offset });
 
-              if (matches.length > 0) {
-                results.push({ file: file.path, matches });
-              }
+            if (results.total === 0) {
+              return {
+                content: [{
+                  type: 'text' as const,
+                  text: `No results found for "${query}"`,
+                }],
+              };
             }
 
-            if (results.length === 0) {
+            if (results.hits.length === 0) {
               return {
                 content: [{
                   type: 'text' as const,
-                  text: `No results found for "${query}"`,
+                  text: `No more results for "${query}" (${results.total} total, offset ${results.offset})`,
                 }],
               };
             }
 
-            let text = `Found "${query}" in ${results.length} file(s):\n\n`;
-            results.forEach(({ file, matches }) => {
-              text += `**${file}**\n`;
-              matches.slice(0, 5).forEach(match => {
-                text += `  ${match}\n`;
+            const first = results.offset + 1;
+            const last = results.offset + results.hits.length;
+            let text = `Found "${query}" in ${results.total} file(s), showing ${first}-${last} by relevance:\n\n`;
+            results.hits.forEach(({ path: filePath, score, matches, totalMatches }) => {
+              text += `**${filePath}** (score ${score.toFixed(2)})\n`;
+              matches.forEach(match => {
+                text += `  Line ${match.line}: ${match.text}\n`;
               });
-              if (matches.length > 5) {
-                text += `  ... and ${matches.length - 5} more matches\n`;
+              if (totalMatches > matches.length) {
+                text += `  ... and ${totalMatches - matches.length} more matches\n`;
               }
               text += '\n';
             });
 
-            console.log('[ObsidianAgent] Search found', results.length, 'files');
+            if (last < results.total) {
+              text += `${results.total - last} more file(s). Call again with offset ${last} to see them.`;
+            }
+
+            console.log('[ObsidianAgent] Search found', results.total, 'files');
             return {
               content: [{
                 type: 'text' as const,
@@ -337,34 +751,58 @@ export default class ObsidianAgentPlugin extends Plugin {
 
       tool(
         'get_daily_note',
-        'Get the path to a daily note (today or specific date)',
+        'Get the path to a daily, weekly, or monthly note using the folder, date format, and template from Obsidian\'s Daily Notes / Periodic Notes settings. Optionally create it from the template.',
         z.object({
-          date: z.string().optional().describe('Date in YYYY-MM-DD format (optional, defaults to today)'),
+          date: z.string().optional().describe('Date such as "today", "yesterday", "last Friday", "3 days ago", "next week", or YYYY-MM-DD (optional, defaults to today)'),
+          period: z.enum(['daily', 'weekly', 'monthly']).optional().describe('Which periodic note to resolve (default "daily")'),
+          create: z.boolean().optional().describe('Create the note from the configured template if it does not exist yet'),
         }).shape,
-        async ({ date }) => {
-          console.log('[ObsidianAgent] Tool: get_daily_note called with date:', date);
+        async ({ date, period, create }) => {
+          console.log('[ObsidianAgent] Tool: get_daily_note called with date:', date, { period, create });
           try {
-            const targetDate = date || new Date().toISOString().split('T')[0];
-            const dailyNotePath = `Daily/${targetDate}.md`;
-            const fullPath = path.join(vaultPath, dailyNotePath);
+            const notePeriod = period || 'daily';
+            const targetDate = parseNaturalDate(date);
+            if (!targetDate) {
+              return {
+                content: [{
+                  type: 'text' as const,
+                  text: `Could not understand date "${date}". Use YYYY-MM-DD or phrases like "yesterday" or "last Friday".`,
+                }],
+              };
+            }
 
-            // Check if it exists
-            try {
-              await fs.access(fullPath);
+            const config = await getPeriodicNoteConfig(this.app, notePeriod);
+            const notePath = getPeriodicNotePath(config, targetDate);
+            const label = `${notePeriod.charAt(0).toUpperCase()}${notePeriod.slice(1)} note`;
+            const dateInfo = `${targetDate.format('dddd, YYYY-MM-DD')}; folder "${config.folder || '/'}", format "${config.format}" from ${config.source} settings`;
+
+            const existing = this.app.vault.getAbstractFileByPath(notePath);
+            if (existing instanceof TFile) {
               return {
                 content: [{
                   type: 'text' as const,
-                  text: `Daily note path: ${dailyNotePath} (exists)`,
+                  text: `${label} path: ${notePath} (exists)\n${dateInfo}`,
                 }],
               };
-            } catch {
+            }
+
+            if (create) {
+              await createPeriodicNote(this.app, config, targetDate);
+              const templateInfo = config.template ? ` from template "${config.template}"` : '';
               return {
                 content: [{
                   type: 'text' as const,
-                  text: `Daily note path: ${dailyNotePath} (does not exist yet)`,
+                  text: `${label} path: ${notePath} (created${templateInfo})\n${dateInfo}`,
                 }],
               };
             }
+
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `${label} path: ${notePath} (does not exist yet; call again with create: true to create it from the template)\n${dateInfo}`,
+              }],
+            };
           } catch (error: any) {
             console.error('[ObsidianAgent] Error getting daily note:', error);
             return {
@@ -379,7 +817,7 @@ export default class ObsidianAgentPlugin extends Plugin {
 
       tool(
         'get_backlinks',
-        'Get all pages that link TO a specific page',
+        'Get all references TO a specific page: wiki links (including #heading and |alias forms), markdown links, embeds, and frontmatter links, with line numbers and context',
         z.object({
           page: z.string().describe('Path to the page (e.g., "Library/Teaching.md")'),
         }).shape,
@@ -396,21 +834,7 @@ export default class ObsidianAgentPlugin extends Plugin {
               };
             }
 
-            const backlinks: string[] = [];
-            const files = this.app.vault.getMarkdownFiles();
-
-            // Get the base name without extension for wiki link matching
-            const baseName = targetFile.basename;
-
-            for (const file of files) {
-              if (file.path === pagePath) continue;
-
-              const content = await this.app.vault.read(file);
-              // Check for [[Page]] or [[Page|Alias]] style links
-              if (content.includes(`[[${baseName}]]`) || content.includes(`[[${baseName}|`)) {
-                backlinks.push(file.path);
-              }
-            }
+            const backlinks = await getBacklinks(this.app, targetFile);
 
             if (backlinks.length === 0) {
               return {
@@ -421,10 +845,21 @@ export default class ObsidianAgentPlugin extends Plugin {
               };
             }
 
-            let text = `Pages linking to ${pagePath}:\n\n`;
-            backlinks.forEach(link => {
-              text += `- ${link}\n`;
-            });
+            const bySource = new Map<string, LinkReference[]>();
+            for (const ref of backlinks) {
+              const refs = bySource.get(ref.sourcePath) || [];
+              refs.push(ref);
+              bySource.set(ref.sourcePath, refs);
+            }
+
+            let text = `Pages linking to ${pagePath} (${backlinks.length} reference(s) in ${bySource.size} page(s)):\n\n`;
+            for (const [sourcePath, refs] of bySource) {
+              text += `**${sourcePath}**\n`;
+              refs.forEach(ref => {
+                text += `${formatLinkReference(ref, false)}\n`;
+              });
+              text += '\n';
+            }
 
             console.log('[ObsidianAgent] Found', backlinks.length, 'backlinks');
             return {
@@ -447,7 +882,7 @@ export default class ObsidianAgentPlugin extends Plugin {
 
       tool(
         'get_outgoing_links',
-        'Get all pages that a specific page links TO',
+        'Get all links FROM a specific page (wiki links, markdown links, embeds, frontmatter links), with line numbers, context, and whether each target resolves to an existing file',
         z.object({
           page: z.string().describe('Path to the page (e.g., "Library/Teaching.md")'),
         }).shape,
@@ -464,11 +899,7 @@ export default class ObsidianAgentPlugin extends Plugin {
               };
             }
 
-            const content = await this.app.vault.read(targetFile);
-            // Match [[Link]] and [[Link|Alias]] patterns
-            const linkPattern = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
-            const matches = [...content.matchAll(linkPattern)];
-            const links = matches.map(m => m[1]);
+            const links = await getOutgoingLinks(this.app, targetFile);
 
             if (links.length === 0) {
               return {
@@ -479,9 +910,10 @@ export default class ObsidianAgentPlugin extends Plugin {
               };
             }
 
-            let text = `Outgoing links from ${pagePath}:\n\n`;
+            const unresolvedCount = links.filter(l => !l.resolved).length;
+            let text = `Outgoing links from ${pagePath} (${links.length} total, ${unresolvedCount} unresolved):\n\n`;
             links.forEach(link => {
-              text += `- [[${link}]]\n`;
+              text += `${formatLinkReference(link, true)}\n`;
             });
 
             console.log('[ObsidianAgent] Found', links.length, 'outgoing links');
@@ -540,15 +972,71 @@ export default class ObsidianAgentPlugin extends Plugin {
         }
       ),
 
+      tool(
+        'move_note',
+        'Move a note, attachment or folder to a new path inside the vault. Links across the vault are updated automatically. If new_path is an existing folder (or ends with /), the item is moved into it.',
+        z.object({
+          path: z.string().describe('Current path relative to the vault, e.g. "Inbox/Idea.md"'),
+          new_path: z.string().describe('Destination path or folder, e.g. "Projects/Idea.md" or "Projects/"'),
+        }).shape,
+        async ({ path: fromPath, new_path }, extra) =>
+          this.runFileOperation('move_note', extra, changeTracking, () => moveNote(this.app, fromPath, new_path))
+      ),
+
+      tool(
+        'rename_note',
+        'Rename a note, attachment or folder in place, updating links across the vault. Omit the extension to keep the current one.',
+        z.object({
+          path: z.string().describe('Current path relative to the vault'),
+          new_name: z.string().describe('New file or folder name (not a path), e.g. "Meeting notes"'),
+        }).shape,
+        async ({ path: filePath, new_name }, extra) =>
+          this.runFileOperation('rename_note', extra, changeTracking, () => renameNote(this.app, filePath, new_name))
+      ),
+
+      tool(
+        'copy_note',
+        'Copy a note or attachment to a new path inside the vault. If new_path is an existing folder (or ends with /), the copy keeps its name.',
+        z.object({
+          path: z.string().describe('Path of the file to copy, relative to the vault'),
+          new_path: z.string().describe('Destination path or folder'),
+        }).shape,
+        async ({ path: fromPath, new_path }, extra) =>
+          this.runFileOperation('copy_note', extra, changeTracking, () => copyNote(this.app, fromPath, new_path))
+      ),
+
+      tool(
+        'delete_note',
+        'Delete a note or attachment by moving it to the vault\'s .trash folder, where the user can recover it.',
+        z.object({
+          path: z.string().describe('Path of the file to delete, relative to the vault'),
+        }).shape,
+        async ({ path: filePath }, extra) =>
+          this.runFileOperation('delete_note', extra, changeTracking, () => deleteNote(this.app, filePath))
+      ),
+
+      tool(
+        'create_folder',
+        'Create a folder (and any missing parent folders) inside the vault.',
+        z.object({
+          path: z.string().describe('Folder path relative to the vault, e.g. "Projects/2025"'),
+        }).shape,
+        async ({ path: folderPath }, extra) =>
+          this.runFileOperation('create_folder', extra, changeTracking, () => createFolder(this.app, folderPath))
+      ),
+
       tool(
         'lint_prose',
-        'Analyze text for prose style issues and AI-isms (overused AI phrases). Can lint a specific file or the provided text directly.',
+        'Analyze text for prose style issues and AI-isms (overused AI phrases). Can lint a specific file or the provided text directly. Each issue has a line:column, rule id, severity and, when there is an obvious fix, a replacement. Use format "json" to get exact positions for Edit, and offset to page through long results.',
         z.object({
           file_path: z.string().optional().describe('Path to markdown file to lint (relative to vault). If not provided, uses the text parameter.'),
           text: z.string().optional().describe('Text to lint directly. Use this for checking text before writing it.'),
+          format: z.enum(['text', 'json']).optional().describe('"text" (default) for a readable summary, "json" for structured issues'),
+          limit: z.number().int().min(1).max(200).optional().describe('Maximum number of issues to return (default 15)'),
+          offset: z.number().int().min(0).optional().describe('Number of issues to skip, for paging (default 0)'),
         }).shape,
-        async ({ file_path, text }) => {
-          console.log('[ObsidianAgent] Tool: lint_prose called', { file_path, text: text?.substring(0, 50) });
+        async ({ file_path, text, format, limit, offset }) => {
+          console.log('[ObsidianAgent] Tool: lint_prose called', { file_path, text: text?.substring(0, 50), format, limit, offset });
 
           let contentToLint: string;
           let source: string;
@@ -586,11 +1074,29 @@ export default class ObsidianAgentPlugin extends Plugin {
             };
           }
 
-          const suggestions = lintProse(contentToLint);
-          const summary = formatLintSummary(contentToLint, suggestions);
+          const lintOptions = await this.getLintOptions(file_path && !text ? file_path : undefined, contentToLint);
+          if (!lintOptions.enabled) {
+            return {
+              content: [{
+                type: 'text' as const,
+                text: `Prose linting is turned off for ${source} (by ${lintOptions.disabledBy}).`,
+              }],
+            };
+          }
 
+          const suggestions = lintProse(contentToLint, lintOptions.options);
           console.log('[ObsidianAgent] Prose linting found', suggestions.length, 'issues in', source);
 
+          if (format === 'json') {
+            return {
+              content: [{
+                type: 'text' as const,
+                text: JSON.stringify({ source, ...formatLintJson(contentToLint, suggestions, { limit, offset }) }, null, 2),
+              }],
+            };
+          }
+
+          const summary = formatLintSummary(contentToLint, suggestions, { limit, offset });
           return {
             content: [{
               type: 'text' as const,
@@ -601,9 +1107,9 @@ export default class ObsidianAgentPlugin extends Plugin {
       ),
     ];
 
-    // Load and add custom tools
-    const customToolDefs = await this.loadCustomTools();
-    const customTools = customToolDefs.map(def => this.createToolWrapper(def));
+    // Load and add custom tools (their names can't shadow the built-in ones)
+    const customToolDefs = await this.loadCustomTools(BUILT_IN_TOOL_NAMES);
+    const customTools = customToolDefs.map(def => this.createToolWrapper(def, changeTracking, abortSignal, onToolProgress));
 
     return [...builtInTools, ...customTools];
   }
@@ -626,18 +1132,191 @@ export default class ObsidianAgentPlugin extends Plugin {
     if (leaf) {
       workspace.revealLeaf(leaf);
     }
+    return leaf;
+  }
+
+  /**
+   * Open a new chat tab with its own session, stop button and change tracker
+   */
+  async openNewChatView() {
+    const { workspace } = this.app;
+
+    const leaf = workspace.getRightLeaf(false);
+    if (leaf) {
+      await leaf.setViewState({ type: VIEW_TYPE_AGENT_CHAT, active: true });
+      workspace.revealLeaf(leaf);
+    }
+    return leaf;
+  }
+
+  async activateProseLintView(markdownView: MarkdownView) {
+    const { workspace } = this.app;
+
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(VIEW_TYPE_PROSE_LINT);
+
+    if (leaves.length > 0) {
+      leaf = leaves[0];
+    } else {
+      leaf = workspace.getRightLeaf(false);
+      if (leaf) {
+        await leaf.setViewState({ type: VIEW_TYPE_PROSE_LINT, active: false });
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+      if (leaf.view instanceof ProseLintView) {
+        leaf.view.showNote(markdownView);
+      }
+    }
+  }
+
+  /**
+   * Editors lint while issues are underlined or the lint panel is open
+   */
+  shouldLintEditors(): boolean {
+    return this.settings.editorProseLinting || this.app.workspace.getLeavesOfType(VIEW_TYPE_PROSE_LINT).length > 0;
+  }
+
+  /**
+   * Lint open notes again after the lint settings change
+   */
+  refreshEditorLinting() {
+    this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+      const view = leaf.view instanceof MarkdownView ? getEditorView(leaf.view) : null;
+      if (view) requestEditorLint(view);
+    });
+  }
+
+  async allowLintPhrase(phrase: string) {
+    const allowlist = this.settings.proseLintOptions.allowlist || (this.settings.proseLintOptions.allowlist = []);
+    if (!phrase || allowlist.some(item => item.toLowerCase() === phrase.toLowerCase())) return;
+    allowlist.push(phrase);
+    await this.saveSettings();
+    this.refreshEditorLinting();
+    new Notice(`Added "${phrase}" to the prose lint allowlist`);
+  }
+
+  /**
+   * The note context sent with each message, as the chat's preview shows it
+   */
+  getActiveContext(): Promise<ActiveContext> {
+    return buildActiveContext(this.app, this.settings.activeContext);
+  }
+
+  /**
+   * The bytes of an attachment: its uploaded data, or the vault file it refers to
+   */
+  async readAttachmentData(attachment: ChatAttachment): Promise<Buffer> {
+    if (attachment.vaultPath) {
+      return Buffer.from(await this.app.vault.adapter.readBinary(attachment.vaultPath));
+    }
+    return attachmentBuffer(attachment);
+  }
+
+  /**
+   * Convert a document attachment to a new note, saving its images as attachments of the note
+   */
+  async importDocumentAsNote(attachment: ChatAttachment, sourcePath = ''): Promise<TFile> {
+    const converted = convertDocument(attachment.name, await this.readAttachmentData(attachment));
+
+    const folder = this.app.fileManager.getNewFileParent(sourcePath);
+    let notePath = normalizePath(`${folder.path}/${converted.title}.md`);
+    for (let i = 1; this.app.vault.getAbstractFileByPath(notePath); i++) {
+      notePath = normalizePath(`${folder.path}/${converted.title} ${i}.md`);
+    }
+
+    // Images go wherever the user keeps attachments, linked the way they link files
+    const links = new Map<string, string>();
+    for (const asset of converted.assets) {
+      const assetPath = await this.app.fileManager.getAvailablePathForAttachment(asset.name, notePath);
+      const file = await this.app.vault.createBinary(assetPath, new Uint8Array(asset.data).buffer);
+      links.set(asset.name, this.app.fileManager.generateMarkdownLink(file, notePath));
+    }
+    const markdown = converted.markdown.replace(/!\[\[([^\]]+)\]\]/g, (match, name: string) =>
+      links.has(name) ? `!${links.get(name)}` : match);
+
+    console.log('[ObsidianAgent] Imported', attachment.name, 'as', notePath, `(${converted.assets.length} image(s))`);
+    return this.app.vault.create(notePath, markdown);
+  }
+
+  async activateHistoryView() {
+    const { workspace } = this.app;
+
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(VIEW_TYPE_SESSION_HISTORY);
+
+    if (leaves.length > 0) {
+      leaf = leaves[0];
+    } else {
+      leaf = workspace.getRightLeaf(false);
+      if (leaf) {
+        await leaf.setViewState({ type: VIEW_TYPE_SESSION_HISTORY, active: true });
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
+  /**
+   * Reopen a saved session in the chat view so it can be continued
+   */
+  async openSession(id: string) {
+    const session = await this.sessionStore.load(id);
+    if (!session) {
+      new Notice('Session not found');
+      return;
+    }
+
+    const open = this.findChatViewForSession(id);
+    if (open) {
+      this.app.workspace.revealLeaf(open.leaf);
+      return;
+    }
+
+    // Prefer the chat tab the user last worked in, unless it is busy with a query
+    let view = this.lastActiveChatView;
+    if (!view || view.isBusy()) {
+      const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_AGENT_CHAT);
+      const idle = leaves.find(l => l.view instanceof AgentChatView && !l.view.isBusy());
+      const leaf = idle || await this.openNewChatView();
+      view = leaf && leaf.view instanceof AgentChatView ? leaf.view : null;
+    }
+
+    if (view) {
+      this.app.workspace.revealLeaf(view.leaf);
+      await view.loadSession(session);
+    }
+  }
+
+  /**
+   * The chat tab showing a session, if one does; a session is only ever open in one tab
+   */
+  findChatViewForSession(id: string): AgentChatView | null {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_AGENT_CHAT)) {
+      if (leaf.view instanceof AgentChatView && leaf.view.showsSession(id)) {
+        return leaf.view;
+      }
+    }
+    return null;
   }
 
   async sendQuery(
     userQuery: string,
     sessionId?: string,
     abortSignal?: AbortSignal,
-    attachment?: { name: string; data: string; type: string },
-    editApprovalCallback?: (toolName: string, input: any) => Promise<boolean>
+    attachments: ChatAttachment[] = [],
+    approvalCallback?: (toolName: string, input: any, reason?: string) => Promise<EditApprovalResult>,
+    changeTracking?: ChangeTrackingCallbacks,
+    onToolProgress?: ToolProgressCallback,
+    mentions: ContextMention[] = []
   ): Promise<AsyncIterable<any>> {
     console.log('[ObsidianAgent] Starting query:', userQuery);
-    if (attachment) {
-      console.log('[ObsidianAgent] With attachment:', attachment.name, attachment.type);
+    if (attachments.length > 0) {
+      console.log('[ObsidianAgent] With attachments:', attachments.map(a => `${a.name} (${a.vaultPath ? 'vault' : a.type})`));
     }
     console.log('[ObsidianAgent] Current working directory:', process.cwd());
     console.log('[ObsidianAgent] Environment check:', {
@@ -664,7 +1343,7 @@ export default class ObsidianAgentPlugin extends Plugin {
 
     // Create MCP server with all tools (built-in + custom)
     console.log('[ObsidianAgent] Creating MCP server with tools...');
-    const allTools = await this.createTools();
+    const allTools = await this.createTools(changeTracking, abortSignal, onToolProgress);
     const server = createSdkMcpServer({
       name: 'obsidian',
       version: '1.0.0',
@@ -674,104 +1353,158 @@ export default class ObsidianAgentPlugin extends Plugin {
 
     console.log('[ObsidianAgent] Calling Agent SDK query...');
 
-    // Capture active note context
-    let activeContext = '';
-    const activeFile = this.app.workspace.getActiveFile();
+    // Capture active note context, fitted to the context budget
+    const context = await this.getActiveContext();
+    const activeContext = `\n\n${context.text}`;
+    console.log('[ObsidianAgent] Active context:', context.tokens, 'of', context.budgetTokens, 'tokens');
 
-    if (activeFile) {
-      activeContext = `\n\n--- Active Obsidian Context ---\nCurrently active file: ${activeFile.path}`;
-
-      // Try to get the active markdown view for editor access
-      const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-      if (activeView) {
-        const editor = activeView.editor;
-
-        // Get cursor position
-        const cursor = editor.getCursor();
-        activeContext += `\nCursor position: Line ${cursor.line + 1}, Column ${cursor.ch}`;
-
-        // Get selection if any
-        const selection = editor.getSelection();
-        if (selection && selection.trim()) {
-          activeContext += `\nSelected text:\n${selection}`;
-        }
-      }
-    } else {
-      activeContext = '\n\n--- Active Obsidian Context ---\nNo file currently open';
-    }
+    // With edit approval or permission rules in play, every tool call goes through canUseTool
+    const permissionsActive = this.settings.requireEditApproval || this.settings.permissionRules.length > 0;
 
-    // Combine BASE_PROMPT with user's customWorkflow, active context, and replace VAULT_PATH
-    const systemPrompt = `${BASE_PROMPT}\n\n${this.settings.customWorkflow}${activeContext}`.replace(/VAULT_PATH/g, this.vaultPath);
+    // Combine BASE_PROMPT with user's customWorkflow and replace VAULT_PATH, then add the
+    // active context untouched so note text that mentions VAULT_PATH is passed on as written
+    const instructions = `${BASE_PROMPT}\n\n${this.settings.customWorkflow}`.replace(/VAULT_PATH/g, this.vaultPath);
+    const systemPrompt = `${instructions}${activeContext}`;
 
     const queryOptions: any = {
       pathToClaudeCodeExecutable: this.settings.claudeCodePath || undefined,
-      permissionMode: this.settings.requireEditApproval ? 'default' : 'bypassPermissions',
+      permissionMode: permissionsActive ? 'default' : 'bypassPermissions',
       systemPrompt: systemPrompt,
       cwd: this.vaultPath,  // Set working directory for Claude Code CLI
       settingSources: ['user', 'project'],  // Load skills from ~/.claude/skills/ and .claude/skills/
-      allowedTools: ['Skill', 'Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep', 'WebFetch', 'WebSearch', 'Task', 'TodoWrite', 'AskUserQuestion'],  // Explicitly enable Skill tool
+      // Explicitly enable Skill tool; tools listed here skip canUseTool, so none are pre-approved when permissions apply
+      allowedTools: permissionsActive
+        ? []
+        : ['Skill', 'Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep', 'WebFetch', 'WebSearch', 'Task', 'TodoWrite', 'AskUserQuestion'],
       mcpServers: {
+        ...buildMcpServerConfigs(this.settings.mcpServers, this.secretStore),
         obsidian: server,
       },
       includePartialMessages: true,  // Enable streaming for real-time tool display
-      // Post-write prose linting hook
-      ...(this.settings.enableProseLinting && {
-        hooks: {
-          PostToolUse: [{
-            matcher: '^(Write|Edit)$',
-            hooks: [async (input: any) => {
-              try {
-                const filePath = input.tool_input?.file_path;
-                if (!filePath || !filePath.endsWith('.md')) {
-                  return {};  // Only lint markdown files
-                }
+    };
 
-                // Read the file that was just written/edited
-                const fullPath = path.join(this.vaultPath, filePath);
-                const content = await fs.readFile(fullPath, 'utf-8');
+    const hooks: Record<string, any[]> = {};
 
-                if (!content || content.trim().length === 0) {
-                  return {};
-                }
+    // Enforce deny/ask rules even for tools Claude Code would otherwise run without asking (e.g. Read)
+    if (permissionsActive) {
+      hooks.PreToolUse = [{
+        hooks: [async (input: any) => {
+          const { decision, rule } = this.evaluateToolPermission(input.tool_name, input.tool_input);
+          if (decision === 'allow') {
+            return {};
+          }
+          return {
+            hookSpecificOutput: {
+              hookEventName: 'PreToolUse' as const,
+              permissionDecision: decision,
+              permissionDecisionReason: rule ? `Permission rule: ${describeRule(rule)}` : undefined,
+            },
+          };
+        }],
+      }];
+    }
 
-                const suggestions = lintProse(content);
-                if (suggestions.length === 0) {
-                  return {};  // No issues, no feedback needed
-                }
+    // Snapshot the vault around Bash commands so moves, deletes and creations can be undone
+    if (changeTracking) {
+      const afterBash = async (input: any) => {
+        try {
+          await changeTracking.afterBash(input.tool_use_id);
+        } catch (err) {
+          console.error('[ObsidianAgent] Bash change tracking error:', err);
+        }
+        return {};
+      };
+      hooks.PreToolUse = [...(hooks.PreToolUse || []), {
+        matcher: '^Bash$',
+        hooks: [async (input: any) => {
+          try {
+            await changeTracking.beforeBash(input.tool_use_id, input.tool_input?.command || '');
+          } catch (err) {
+            console.error('[ObsidianAgent] Bash snapshot error:', err);
+          }
+          return {};
+        }],
+      }];
+      hooks.PostToolUse = [{ matcher: '^Bash$', hooks: [afterBash] }];
+      hooks.PostToolUseFailure = [{ matcher: '^Bash$', hooks: [afterBash] }];
+    }
+
+    // Post-write prose linting hook
+    if (this.settings.enableProseLinting) {
+      hooks.PostToolUse = [...(hooks.PostToolUse || []), {
+        matcher: '^(Write|Edit)$',
+        hooks: [async (input: any) => {
+          try {
+            const filePath = input.tool_input?.file_path;
+            if (!filePath || !filePath.endsWith('.md')) {
+              return {};  // Only lint markdown files
+            }
 
-                const summary = formatLintSummary(content, suggestions);
-                console.log('[ObsidianAgent] Post-write lint found', suggestions.length, 'issues in', filePath);
+            // Read the file that was just written/edited
+            const fullPath = path.isAbsolute(filePath) ? filePath : path.join(this.vaultPath, filePath);
+            const content = await fs.readFile(fullPath, 'utf-8');
 
-                return {
-                  hookSpecificOutput: {
-                    hookEventName: 'PostToolUse' as const,
-                    additionalContext: `\n\n--- Prose Linting Feedback ---\nThe text you just wrote to ${filePath} has some style issues:\n\n${summary}\n\nConsider revising to address these issues.`,
-                  },
-                };
-              } catch (err) {
-                console.error('[ObsidianAgent] Post-write lint error:', err);
-                return {};
-              }
-            }],
-          }],
-        },
-      }),
-    };
+            if (!content || content.trim().length === 0) {
+              return {};
+            }
+
+            // Folder config notes and frontmatter are looked up by vault path
+            const vaultRelative = path.relative(this.vaultPath, fullPath);
+            const lintOptions = await this.getLintOptions(
+              vaultRelative.startsWith('..') || path.isAbsolute(vaultRelative) ? undefined : vaultRelative.split(path.sep).join('/'),
+              content
+            );
+            if (!lintOptions.enabled) {
+              return {};
+            }
+
+            const suggestions = lintProse(content, lintOptions.options);
+            if (suggestions.length === 0) {
+              return {};  // No issues, no feedback needed
+            }
+
+            const summary = formatLintSummary(content, suggestions);
+            console.log('[ObsidianAgent] Post-write lint found', suggestions.length, 'issues in', filePath);
+
+            return {
+              hookSpecificOutput: {
+                hookEventName: 'PostToolUse' as const,
+                additionalContext: `\n\n--- Prose Linting Feedback ---\nThe text you just wrote to ${filePath} has some style issues:\n\n${summary}\n\nConsider revising to address these issues.`,
+              },
+            };
+          } catch (err) {
+            console.error('[ObsidianAgent] Post-write lint error:', err);
+            return {};
+          }
+        }],
+      }];
+    }
 
-    // Add canUseTool callback when edit approval is required
-    if (this.settings.requireEditApproval && editApprovalCallback) {
+    if (Object.keys(hooks).length > 0) {
+      queryOptions.hooks = hooks;
+    }
+
+    // Apply the permission policy; 'ask' shows an approval prompt in the chat
+    if (permissionsActive) {
       queryOptions.canUseTool = async (toolName: string, input: Record<string, unknown>) => {
-        // Only prompt for Write/Edit tools
-        if (toolName !== 'Write' && toolName !== 'Edit') {
+        const { decision, rule } = this.evaluateToolPermission(toolName, input);
+        if (decision === 'allow') {
           return { behavior: 'allow', updatedInput: input };
         }
+        if (decision === 'deny' || !approvalCallback) {
+          return {
+            behavior: 'deny',
+            message: rule ? `Blocked by permission rule: ${describeRule(rule)}` : 'Blocked by permission policy',
+            interrupt: false,
+          };
+        }
 
-        // Show approval UI and wait for response
-        const approved = await editApprovalCallback(toolName, input);
-        if (approved) {
-          return { behavior: 'allow', updatedInput: input };
+        // Show approval UI and wait for response; the user may have trimmed or rewritten the change
+        const approval = await approvalCallback(toolName, input, rule ? describeRule(rule) : undefined);
+        if (approval.approved) {
+          return { behavior: 'allow', updatedInput: approval.updatedInput || input };
         } else {
-          return { behavior: 'deny', message: 'User declined the edit', interrupt: false };
+          return { behavior: 'deny', message: approval.message || 'User declined the edit', interrupt: false };
         }
       };
     }
@@ -789,61 +1522,290 @@ export default class ObsidianAgentPlugin extends Plugin {
       queryOptions.abortController = controller;
     }
 
-    // Construct prompt with file attachment if present
-    let prompt: any = userQuery;
+    // Construct prompt with file attachments if present
+    let prompt = userQuery;
+    const promptParts: string[] = [];
+
+    // Vault files are referenced by path; the agent reads them where they are
+    const vaultReferences = describeVaultAttachments(attachments);
+    if (vaultReferences) {
+      promptParts.push(vaultReferences);
+    }
 
-    if (attachment) {
-      // Agent SDK doesn't support inline attachments - save to temp and reference path
-      const tempDir = path.join(this.vaultPath, '.temp-uploads');
-      const tempPath = path.join(tempDir, attachment.name);
+    // @-mentioned notes, folders, headings, blocks and tags, with their content
+    const mentionContext = await expandMentions(this.app, mentions, this.settings.mentionContextTokens);
+    if (mentionContext) {
+      promptParts.push(mentionContext);
+    }
+
+    // Uploads and conversions are saved to a temp folder outside the vault (so Obsidian
+    // doesn't index or sync them) for the agent to read; it's removed when the turn ends
+    // (assigned in getUploadDir, so don't let TypeScript narrow it to null)
+    let uploadDir = null as string | null;
+    const getUploadDir = async (): Promise<string> => {
+      if (!uploadDir) {
+        uploadDir = await this.createUploadDir();
+        queryOptions.additionalDirectories = [uploadDir];
+      }
+      return uploadDir;
+    };
+    // Two uploads with the same name (e.g. pasted screenshots) mustn't overwrite each other
+    const usedNames = new Set<string>();
+    const uniqueName = (name: string): string => {
+      let fileName = name;
+      for (let i = 2; usedNames.has(fileName); i++) {
+        const ext = path.extname(name);
+        fileName = `${path.basename(name, ext)} ${i}${ext}`;
+      }
+      usedNames.add(fileName);
+      return fileName;
+    };
 
+    // Documents the agent can't read as they are (Word, PowerPoint, HTML, EPUB) are
+    // converted to markdown here, with their images extracted next to it
+    const converted = new Set<ChatAttachment>();
+    for (const attachment of attachments) {
+      if (attachment.type === FOLDER_MIME_TYPE || !isConvertibleDocument(attachment.name)) continue;
       try {
-        console.log('[ObsidianAgent] Saving attachment to:', tempPath);
-        await fs.mkdir(tempDir, { recursive: true });
-
-        // Write file based on type
-        if (attachment.type.startsWith('image/') || attachment.type === 'application/pdf') {
-          // For images/PDFs, write base64 data as binary
-          const base64Data = attachment.data.split(',')[1];
-          const buffer = Buffer.from(base64Data, 'base64');
-          await fs.writeFile(tempPath, buffer);
-          console.log('[ObsidianAgent] Saved binary file:', attachment.type);
-        } else {
-          // For text files, write as UTF-8
-          await fs.writeFile(tempPath, attachment.data, 'utf-8');
-          console.log('[ObsidianAgent] Saved text file');
+        const doc = convertDocument(attachment.name, await this.readAttachmentData(attachment));
+        const dir = path.join(await getUploadDir(), uniqueName(doc.title));
+        await fs.mkdir(dir);
+        const markdownPath = path.join(dir, `${doc.title}.md`);
+        await fs.writeFile(markdownPath, doc.markdown, 'utf-8');
+        for (const asset of doc.assets) {
+          await fs.writeFile(path.join(dir, asset.name), asset.data);
+        }
+        promptParts.push(describeConvertedDocument(attachment.name, doc, markdownPath));
+        converted.add(attachment);
+        console.log('[ObsidianAgent] Converted', attachment.name, `(${doc.markdown.length} chars, ${doc.assets.length} image(s))`);
+      } catch (err: any) {
+        // Uploads fall back to being saved as they are
+        console.error('[ObsidianAgent] Error converting document:', err);
+        promptParts.push(`(${attachment.name} couldn't be converted to markdown: ${err.message})`);
+      }
+    }
+
+    const uploads = attachments.filter(a => !a.vaultPath && !converted.has(a));
+    // Images and PDFs go to the model as content blocks, so it sees them without a Read
+    const contentBlocks: AttachmentContentBlock[] = [];
+    if (uploads.length > 0) {
+      const attached: string[] = [];
+      const saved: string[] = [];
+
+      for (const attachment of uploads) {
+        const block = toContentBlock(attachment);
+        if (block) {
+          contentBlocks.push(block);
+          attached.push(`- ${attachment.name}`);
+          continue;
+        }
+
+        try {
+          const tempPath = path.join(await getUploadDir(), uniqueName(attachment.name));
+          console.log('[ObsidianAgent] Saving attachment to:', tempPath);
+
+          if (isBinaryAttachment(attachment.type)) {
+            await fs.writeFile(tempPath, Buffer.from(attachmentBase64(attachment), 'base64'));
+            console.log('[ObsidianAgent] Saved binary file:', attachment.type);
+          } else {
+            await fs.writeFile(tempPath, attachment.data, 'utf-8');
+            console.log('[ObsidianAgent] Saved text file');
+          }
+          saved.push(`- ${attachment.name}\n  Location: ${tempPath}`);
+        } catch (err: any) {
+          console.error('[ObsidianAgent] Error writing temp file:', err);
+          // Fallback: inline for text files only
+          if (!isBinaryAttachment(attachment.type)) {
+            promptParts.push(`Attached file: ${attachment.name}\n\nContent:\n${attachment.data}`);
+          } else {
+            if (uploadDir) await this.removeUploadDir(uploadDir);
+            throw new Error(`Failed to save ${attachment.type} file: ${err.message}`);
+          }
         }
+      }
+
+      if (saved.length > 0) {
+        promptParts.unshift(`I've uploaded ${saved.length === 1 ? 'a file' : `${saved.length} files`}:\n${saved.join('\n')}\nPlease read and help me with ${saved.length === 1 ? 'it' : 'them'}.`);
+      }
+      if (attached.length > 0) {
+        promptParts.unshift(`I've attached ${attached.length === 1 ? 'a file' : `${attached.length} files`} to this message:\n${attached.join('\n')}`);
+      }
+    }
+
+    if (promptParts.length > 0) {
+      prompt = `${userQuery}\n\n${promptParts.join('\n\n')}`;
+      console.log('[ObsidianAgent] Prompt with attachments:', prompt.substring(0, 200));
+    }
+
+    console.log('[ObsidianAgent] About to call query with', contentBlocks.length, 'content block(s)');
+    console.log('[ObsidianAgent] Prompt string (first 300 chars):', prompt.substring(0, 300));
+
+    // Content blocks need the streaming input form: a single user message
+    const stream = query({
+      prompt: contentBlocks.length > 0 ? singleUserMessage([...contentBlocks, { type: 'text', text: prompt }]) : prompt,
+      options: queryOptions,
+    });
+    return uploadDir ? this.removeUploadDirAfter(stream, uploadDir) : stream;
+  }
+
+  /**
+   * A fresh temp folder for one turn's uploads
+   */
+  private async createUploadDir(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'obsidian-agent-'));
+    this.uploadDirs.add(dir);
+    return dir;
+  }
+
+  private async removeUploadDir(dir: string) {
+    this.uploadDirs.delete(dir);
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+    } catch (error) {
+      console.error('[ObsidianAgent] Could not remove upload folder:', dir, error);
+    }
+  }
+
+  /**
+   * Pass a turn's messages through, removing its upload folder once the turn ends
+   * (finished, failed, aborted, or abandoned by the chat view)
+   */
+  private async *removeUploadDirAfter(stream: AsyncIterable<any>, dir: string): AsyncIterable<any> {
+    try {
+      yield* stream;
+    } finally {
+      await this.removeUploadDir(dir);
+    }
+  }
+
+  /**
+   * Styles for the settings tab and the plugin's modals, which can open before any chat view has
+   */
+  addSettingsStyles() {
+    if (document.getElementById('agent-settings-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'agent-settings-styles';
+    style.textContent = `
+      /* Custom tools and MCP server status (settings tab) */
+      .custom-tools-errors {
+        color: var(--text-error);
+        font-size: 0.85em;
+        margin: 0 0 12px 0;
+      }
+
+      .mcp-server-setting {
+        border-top: 1px solid var(--background-modifier-border);
+        margin-bottom: 8px;
+      }
+
+      .mcp-server-status {
+        margin: 0 0 8px 0;
+      }
+
+      .mcp-server-status-error {
+        color: var(--text-error);
+      }
+
+      .custom-tool-params {
+        margin: 4px 0;
+        padding-left: 18px;
+      }
+
+      .custom-tool-command {
+        font-family: var(--font-monospace);
+        font-size: 0.9em;
+      }
+
+      .custom-tool-command-missing {
+        color: var(--text-error);
+      }
+
+      .custom-tool-test-args {
+        width: 100%;
+        font-family: var(--font-monospace);
+        font-size: 0.85em;
+        resize: vertical;
+      }
+
+      .custom-tool-test-output pre {
+        max-height: 300px;
+        overflow: auto;
+        white-space: pre-wrap;
+        font-size: 0.85em;
+        padding: 8px;
+        background: var(--background-secondary);
+        border-radius: 4px;
+      }
 
-        // Use simple string prompt - Claude will use Read tool to access it
-        prompt = `${userQuery}\n\nI've uploaded a file: ${attachment.name}\nLocation: ${tempPath}\nPlease read and help me with it.`;
-        console.log('[ObsidianAgent] Prompt with attachment:', prompt.substring(0, 200));
-      } catch (err: any) {
-        console.error('[ObsidianAgent] Error writing temp file:', err);
-        // Fallback: inline for text files only
-        if (!attachment.type.startsWith('image/') && attachment.type !== 'application/pdf') {
-          prompt = `${userQuery}\n\nAttached file: ${attachment.name}\n\nContent:\n${attachment.data}`;
-        } else {
-          throw new Error(`Failed to save ${attachment.type} file: ${err.message}`);
-        }
+      .custom-tool-test-error {
+        color: var(--text-error);
       }
-    }
 
-    console.log('[ObsidianAgent] About to call query with prompt type:', typeof prompt);
-    if (typeof prompt === 'string') {
-      console.log('[ObsidianAgent] Prompt string (first 300 chars):', prompt.substring(0, 300));
-    }
+      .custom-tool-test-image {
+        max-width: 100%;
+      }
 
-    return query({
-      prompt,
-      options: queryOptions,
-    });
+      /* Merge preview when undoing a change to an edited file */
+      .agent-conflict-preview {
+        max-height: 300px;
+        overflow: auto;
+        white-space: pre-wrap;
+        font-family: var(--font-monospace);
+        font-size: 0.85em;
+        padding: 8px;
+        background: var(--background-secondary);
+        border-radius: 4px;
+      }
+    `;
+    document.head.appendChild(style);
   }
 
   onunload() {
     console.log('[ObsidianAgent] Unloading plugin');
+    this.customToolsWatcher?.close();
+    if (this.customToolsReloadTimer !== null) {
+      window.clearTimeout(this.customToolsReloadTimer);
+    }
+    // Uploads of turns still running; unloading ends them anyway
+    for (const dir of this.uploadDirs) {
+      try {
+        rmSync(dir, { recursive: true, force: true });
+      } catch (error) {
+        console.error('[ObsidianAgent] Could not remove upload folder:', dir, error);
+      }
+    }
+    this.uploadDirs.clear();
+    // Custom tools (and server tests) still running would be orphaned: they run detached
+    killRunningProcesses();
+    document.getElementById('agent-settings-styles')?.remove();
   }
 }
 
+/**
+ * Streaming input for query(): one user message, for prompts with content blocks
+ */
+async function* singleUserMessage(content: Array<AttachmentContentBlock | { type: 'text'; text: string }>): AsyncIterable<SDKUserMessage> {
+  yield {
+    type: 'user',
+    message: { role: 'user', content },
+    parent_tool_use_id: null,
+    session_id: '',
+  };
+}
+
+// Progress output (stderr) from a running custom tool
+type ToolProgressCallback = (toolUseId: string | undefined, text: string) => void;
+
+// Streamed tool output kept for display; older output is dropped
+const MAX_TOOL_PROGRESS_CHARS = 20000;
+
+function lastProgressLine(progress: string): string {
+  const lines = progress.split(/\r?\n|\r/).map(line => line.trim()).filter(Boolean);
+  const last = lines[lines.length - 1] || 'running...';
+  return last.length > 80 ? last.slice(0, 79) + '…' : last;
+}
+
 interface ToolUseData {
   id: string;
   name: string;
@@ -851,22 +1813,62 @@ interface ToolUseData {
   result?: any;
   element?: HTMLElement;
   isExpanded: boolean;
+  // stderr streamed while a custom tool runs
+  progress?: string;
   fileChange?: FileChange;
+  // Vault changes detected around a Bash command
+  fileChanges?: FileChange[];
   fileStateBefore?: string | null;
 }
 
+// remember: apply the same answer to matching calls for the rest of the session
+type EditApprovalResult =
+  | { approved: true; updatedInput?: Record<string, unknown>; remember?: boolean }
+  | { approved: false; message?: string; remember?: boolean };
+
+/**
+ * What a Write/Edit would do: the whole file before and after, or (when the
+ * Edit can't be matched against the file) just the old and new strings
+ */
+interface ProposedEdit {
+  kind: 'file' | 'snippet';
+  current: string;
+  proposed: string;
+  note?: string;
+}
+
+interface ChangeTrackingCallbacks {
+  beforeBash: (toolUseId: string, command: string) => Promise<void>;
+  afterBash: (toolUseId: string) => Promise<void>;
+  // Changes made by the built-in file operation tools
+  recordOperation: (toolUseId: string | undefined, changes: FileChangeInput[]) => void;
+}
+
 class AgentChatView extends ItemView {
   private plugin: ObsidianAgentPlugin;
-  private messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  private messages: TranscriptMessage[] = [];
   private isLoading = false;
   private sessionId: string | null = null;
+  private session: ChatSession = createEmptySession();
+  private messagesContainer: HTMLElement | null = null;
+  private label = '';
+  private pendingSessionId: string | null = null;
   private abortController: AbortController | null = null;
   private currentToolUses: Map<string, ToolUseData> = new Map();
-  private changeTracker: ChangeTracker = new ChangeTracker();
+  private bashSnapshots: Map<string, VaultSnapshot> = new Map();
+  // Approval answers the user asked to remember for this session, keyed by permissionScope()
+  private rememberedApprovals: Map<string, boolean> = new Map();
+  private changeTracker: ChangeTracker;
+  // Preview of the note context sent with each message, hidden until toggled
+  private contextPreviewEl: HTMLElement | null = null;
+  private contextPreviewTimer: number | null = null;
+  private contextPreviewRequest = 0;
 
   constructor(leaf: WorkspaceLeaf, plugin: ObsidianAgentPlugin) {
     super(leaf);
     this.plugin = plugin;
+    this.changeTracker = new ChangeTracker(plugin.changeJournal);
+    this.changeTracker.setSession(this.session.id);
   }
 
   getViewType(): string {
@@ -874,20 +1876,96 @@ class AgentChatView extends ItemView {
   }
 
   getDisplayText(): string {
-    return 'Agent Chat';
+    return this.label || 'Agent Chat';
   }
 
   getIcon(): string {
     return 'bot';
   }
 
+  /**
+   * Whether this tab shows (or is about to reopen) a saved session
+   */
+  showsSession(id: string): boolean {
+    return (this.session.id === id && this.messages.length > 0) || this.pendingSessionId === id;
+  }
+
+  getState(): Record<string, unknown> {
+    return {
+      ...super.getState(),
+      label: this.label,
+      chatSessionId: this.messages.length > 0 ? this.session.id : null,
+    };
+  }
+
+  async setState(state: any, result: ViewStateResult): Promise<void> {
+    if (state?.label !== undefined) {
+      this.label = state.label || '';
+      this.refreshHeader();
+    }
+
+    // Reopen the session this tab showed before the workspace was reloaded
+    if (state?.chatSessionId && state.chatSessionId !== this.session.id) {
+      if (this.messagesContainer) {
+        const saved = await this.plugin.sessionStore.load(state.chatSessionId);
+        if (saved) {
+          await this.loadSession(saved);
+        }
+      } else {
+        this.pendingSessionId = state.chatSessionId;
+      }
+    }
+
+    await super.setState(state, result);
+  }
+
+  onPaneMenu(menu: Menu, source: string) {
+    super.onPaneMenu(menu, source);
+    menu.addItem(item => item
+      .setTitle('Rename tab')
+      .setIcon('pencil')
+      .onClick(() => this.promptRename()));
+    menu.addItem(item => item
+      .setTitle('Undo all agent changes in this session')
+      .setIcon('undo-2')
+      .onClick(() => this.undoSession()));
+    menu.addItem(item => item
+      .setTitle('New agent chat')
+      .setIcon('plus')
+      .onClick(() => this.plugin.openNewChatView()));
+  }
+
+  promptRename() {
+    new TextPromptModal(this.app, 'Rename agent chat tab', this.label, (value) => {
+      this.label = value;
+      this.refreshHeader();
+      this.app.workspace.requestSaveLayout();
+    }).open();
+  }
+
+  refreshHeader() {
+    // updateHeader isn't part of the public API, but it's how Obsidian refreshes tab titles
+    (this.leaf as any).updateHeader?.();
+  }
+
+  isBusy(): boolean {
+    return this.isLoading;
+  }
+
   async onOpen() {
+    this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+      if (leaf === this.leaf) {
+        this.plugin.lastActiveChatView = this;
+      }
+    }));
+
     const container = this.containerEl.children[1];
     container.empty();
     container.addClass('agent-chat-container');
 
     // Create messages container
     const messagesContainer = container.createDiv('agent-messages');
+    this.messagesContainer = messagesContainer;
 
     // Create input container
     const inputContainer = container.createDiv('agent-input-container');
@@ -895,15 +1973,53 @@ class AgentChatView extends ItemView {
     // Wrapper for textarea and file indicator
     const textareaWrapper = inputContainer.createDiv('agent-textarea-wrapper');
 
-    // File indicator element (shown above textarea)
-    const fileIndicator = textareaWrapper.createDiv('agent-file-indicator');
-    fileIndicator.style.display = 'none';
+    // The note context the next message will carry
+    const contextPreview = textareaWrapper.createDiv('agent-context-preview');
+    contextPreview.style.display = 'none';
+    this.contextPreviewEl = contextPreview;
+
+    // Attachment chips (shown above textarea)
+    const attachmentChips = textareaWrapper.createDiv('agent-attachment-chips');
+    attachmentChips.style.display = 'none';
+
+    // @-mentioned notes, folders, headings, blocks and tags to include with the next message
+    const mentionChips = textareaWrapper.createDiv('agent-attachment-chips agent-mention-chips');
+    mentionChips.style.display = 'none';
+    let mentions: ContextMention[] = [];
+
+    const renderMentions = () => {
+      mentionChips.empty();
+      mentionChips.style.display = mentions.length > 0 ? '' : 'none';
+      for (const mention of mentions) {
+        const chip = mentionChips.createDiv({
+          cls: 'agent-attachment-chip agent-mention-chip',
+          attr: { title: mention.kind === 'tag' ? `Notes tagged ${mention.tag}` : mention.path },
+        });
+        chip.createSpan({ text: `${mentionIcon(mention)} @${mentionLabel(mention)}` });
+        const removeButton = chip.createEl('button', {
+          text: '×',
+          cls: 'agent-attachment-remove',
+          attr: { title: 'Remove' }
+        });
+        removeButton.addEventListener('click', () => {
+          mentions = mentions.filter(m => m !== mention);
+          renderMentions();
+        });
+      }
+    };
 
     const textarea = textareaWrapper.createEl('textarea', {
-      placeholder: 'Ask the agent to help organize your vault...',
+      placeholder: 'Ask the agent to help organize your vault... (@ to mention notes)',
       cls: 'agent-input'
     });
 
+    new MentionSuggest(this.app, textarea, textareaWrapper, (mention) => {
+      if (!mentions.some(m => sameMention(m, mention))) {
+        mentions.push(mention);
+        renderMentions();
+      }
+    });
+
     const buttonContainer = inputContainer.createDiv('agent-button-container');
 
     // File upload button and hidden input
@@ -912,13 +2028,14 @@ class AgentChatView extends ItemView {
       cls: 'agent-file-input'
     });
     fileInput.style.display = 'none';
+    fileInput.multiple = true;
     // Don't set accept attribute - allows all file types
     // fileInput.accept is intentionally not set
 
     const uploadButton = buttonContainer.createEl('button', {
       text: '📎',
       cls: 'agent-upload-button',
-      attr: { title: 'Attach file' }
+      attr: { title: 'Attach files (or drop files and notes here, or paste a screenshot)' }
     });
 
     const sendButton = buttonContainer.createEl('button', {
@@ -933,68 +2050,134 @@ class AgentChatView extends ItemView {
     stopButton.style.display = 'none';
 
     const clearButton = buttonContainer.createEl('button', {
-      text: 'Clear',
-      cls: 'agent-clear-button'
+      text: 'New',
+      cls: 'agent-clear-button',
+      attr: { title: 'Start a new conversation (the current one stays in history)' }
+    });
+
+    const historyButton = buttonContainer.createEl('button', {
+      text: '🕘',
+      cls: 'agent-history-button',
+      attr: { title: 'Browse saved sessions' }
+    });
+
+    const contextButton = buttonContainer.createEl('button', {
+      text: '👁',
+      cls: 'agent-context-button',
+      attr: { title: 'Preview the note context sent with your message' }
     });
 
-    // Store attached file
-    let attachedFile: { name: string; data: string; type: string } | null = null;
+    // Files to send with the next message
+    let attachments: ChatAttachment[] = [];
+
+    const renderAttachments = () => {
+      attachmentChips.empty();
+      attachmentChips.style.display = attachments.length > 0 ? '' : 'none';
+      for (const attachment of attachments) {
+        const chip = attachmentChips.createDiv({
+          cls: 'agent-attachment-chip',
+          attr: { title: attachment.vaultPath ?? attachment.name },
+        });
+        chip.createSpan({ text: `${attachmentIcon(attachment)} ${attachment.name}` });
+        if (attachment.type !== FOLDER_MIME_TYPE && isConvertibleDocument(attachment.name)) {
+          const importButton = chip.createEl('button', {
+            text: '📥',
+            cls: 'agent-attachment-action',
+            attr: { title: 'Import as note' }
+          });
+          importButton.addEventListener('click', async () => {
+            importButton.disabled = true;
+            try {
+              const note = await this.plugin.importDocumentAsNote(
+                attachment,
+                attachment.vaultPath ?? this.app.workspace.getActiveFile()?.path ?? ''
+              );
+              // Send the new note in place of the document
+              attachments = attachments.map(a => a === attachment ? createVaultAttachment(note) : a);
+              renderAttachments();
+              new Notice(`Imported ${attachment.name} as ${note.path}`);
+            } catch (error: any) {
+              console.error('[ObsidianAgent] Import error:', error);
+              new Notice(`Couldn't import ${attachment.name}: ${error.message}`);
+              importButton.disabled = false;
+            }
+          });
+        }
+        const removeButton = chip.createEl('button', {
+          text: '×',
+          cls: 'agent-attachment-remove',
+          attr: { title: 'Remove' }
+        });
+        removeButton.addEventListener('click', () => {
+          attachments = attachments.filter(a => a !== attachment);
+          renderAttachments();
+        });
+      }
+    };
+
+    const addAttachment = (attachment: ChatAttachment) => {
+      // The same vault file only needs to be referenced once
+      if (attachment.vaultPath && attachments.some(a => a.vaultPath === attachment.vaultPath)) return;
+      attachments.push(attachment);
+      renderAttachments();
+    };
+
+    const attachFiles = async (files: File[], paste = false) => {
+      for (const file of files) {
+        // Files that are already in the vault are referenced, not copied
+        const vaultFile = findVaultFileByPath(this.app, this.plugin.vaultPath, (file as any).path);
+        if (vaultFile) {
+          addAttachment(createVaultAttachment(vaultFile));
+          continue;
+        }
+        try {
+          addAttachment(await readAttachmentFile(file, paste ? pastedFileName(file) : file.name));
+        } catch (error: any) {
+          console.error('[ObsidianAgent] Error reading file:', error);
+          new Notice(`Error reading file: ${error.message}`);
+        }
+      }
+    };
 
     uploadButton.addEventListener('click', () => {
       fileInput.click();
     });
 
     fileInput.addEventListener('change', async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      fileInput.value = '';
+      await attachFiles(files);
+    });
 
-      try {
-        // Read file based on type
-        if (file.type.startsWith('image/')) {
-          // Convert image to base64
-          const reader = new FileReader();
-          reader.onload = () => {
-            attachedFile = {
-              name: file.name,
-              data: reader.result as string,
-              type: file.type
-            };
-            fileIndicator.setText(`📎 ${file.name}`);
-            fileIndicator.style.display = 'block';
-          };
-          reader.readAsDataURL(file);
-        } else if (file.type === 'application/pdf') {
-          // For PDF, we'll send the file path or base64
-          const reader = new FileReader();
-          reader.onload = () => {
-            attachedFile = {
-              name: file.name,
-              data: reader.result as string,
-              type: file.type
-            };
-            fileIndicator.setText(`📎 ${file.name}`);
-            fileIndicator.style.display = 'block';
-          };
-          reader.readAsDataURL(file);
-        } else {
-          // Text-based files (CSV, JSON, TXT, etc.)
-          const reader = new FileReader();
-          reader.onload = () => {
-            attachedFile = {
-              name: file.name,
-              data: reader.result as string,
-              type: file.type || 'text/plain'  // Preserve MIME type or default to text/plain
-            };
-            fileIndicator.setText(`📎 ${file.name}`);
-            fileIndicator.style.display = 'block';
-          };
-          reader.readAsText(file);
-        }
-      } catch (error: any) {
-        console.error('[ObsidianAgent] Error reading file:', error);
-        new Notice(`Error reading file: ${error.message}`);
+    // Drop files from the OS, or notes and folders from Obsidian
+    inputContainer.addEventListener('dragover', (e) => {
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+      inputContainer.addClass('is-drag-over');
+    });
+    inputContainer.addEventListener('dragleave', (e) => {
+      if (!inputContainer.contains(e.relatedTarget as Node)) {
+        inputContainer.removeClass('is-drag-over');
       }
     });
+    inputContainer.addEventListener('drop', async (e) => {
+      inputContainer.removeClass('is-drag-over');
+      const vaultFiles = getDraggedVaultFiles(this.app, e.dataTransfer);
+      const files = Array.from(e.dataTransfer?.files ?? []);
+      if (vaultFiles.length === 0 && files.length === 0) return;
+
+      e.preventDefault();
+      vaultFiles.forEach(file => addAttachment(createVaultAttachment(file)));
+      await attachFiles(files);
+    });
+
+    // Pasted screenshots and files become attachments; pasted text is left alone
+    textarea.addEventListener('paste', async (e) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      await attachFiles(files, true);
+    });
 
     const handleSend = async () => {
       const queryText = textarea.value.trim();
@@ -1002,21 +2185,30 @@ class AgentChatView extends ItemView {
 
       textarea.value = '';
       this.isLoading = true;
-
-      // Capture attached file and clear it
-      const fileToSend = attachedFile;
-      attachedFile = null;
-      fileIndicator.style.display = 'none';
-      fileInput.value = '';
+      // The session can be deleted from history mid-turn; then the turn's results are dropped
+      const turnSession = this.session;
+
+      // Capture attachments and mentions and clear them
+      const attachmentsToSend = attachments;
+      attachments = [];
+      renderAttachments();
+      const mentionsToSend = mentions;
+      mentions = [];
+      renderMentions();
       this.abortController = new AbortController();
 
       sendButton.style.display = 'none';
       stopButton.style.display = '';
 
-      // Add user message with file indicator if present
+      // Add user message with the attachments listed
       let displayText = queryText;
-      if (fileToSend) {
-        displayText += `\n\n📎 ${fileToSend.name}`;
+      if (attachmentsToSend.length > 0) {
+        displayText += '\n\n' + attachmentsToSend
+          .map(a => {
+            if (!a.vaultPath) return `📎 ${a.name}`;
+            return a.type === FOLDER_MIME_TYPE ? `📁 ${a.vaultPath}/` : `${attachmentIcon(a)} [[${a.vaultPath}]]`;
+          })
+          .join('\n');
       }
       this.addMessage(messagesContainer, 'user', displayText);
 
@@ -1027,20 +2219,25 @@ class AgentChatView extends ItemView {
       try {
         console.log('[ObsidianAgent] Getting query stream...');
 
-        // Create approval callback for edit operations
-        const editApprovalCallback = async (toolName: string, input: any): Promise<boolean> => {
-          return this.showEditApprovalDialog(toolName, input, messagesContainer);
+        // Ask about tool calls the permission policy flags
+        const approvalCallback = async (toolName: string, input: any, reason?: string): Promise<EditApprovalResult> => {
+          return this.requestApproval(toolName, input, reason, messagesContainer);
         };
 
         const stream = await this.plugin.sendQuery(
           queryText,
           this.sessionId || undefined,
           this.abortController.signal,
-          fileToSend,
-          editApprovalCallback
+          attachmentsToSend,
+          approvalCallback,
+          this.createChangeTracking(),
+          (toolUseId, text) => this.appendToolProgress(toolUseId, text),
+          mentionsToSend
         );
         console.log('[ObsidianAgent] Query stream obtained, processing events...');
         let fullResponse = '';
+        const turnBlocks: TranscriptBlock[] = [];
+        const turnId = this.changeTracker.startTurn();
         this.currentToolUses.clear(); // Clear tool uses from previous query
 
         const assistantEl = messagesContainer.createDiv('agent-message assistant');
@@ -1077,20 +2274,7 @@ class AgentChatView extends ItemView {
           );
 
           this.fixOverflowOnElement(currentTextContainer);
-
-          // Make internal links clickable
-          currentTextContainer.querySelectorAll('a.internal-link').forEach((link: HTMLElement) => {
-            link.addEventListener('click', (e) => {
-              e.preventDefault();
-              const href = link.getAttribute('data-href');
-              if (href) {
-                const file = this.plugin.app.metadataCache.getFirstLinkpathDest(href, '/');
-                if (file) {
-                  this.plugin.app.workspace.getLeaf(false).openFile(file);
-                }
-              }
-            });
-          });
+          this.makeInternalLinksClickable(currentTextContainer);
 
           // Scroll to bottom
           messagesContainer.scrollTop = messagesContainer.scrollHeight;
@@ -1122,6 +2306,13 @@ class AgentChatView extends ItemView {
               fullResponse += textDelta;
               currentSectionText += textDelta;
 
+              const lastBlock = turnBlocks[turnBlocks.length - 1];
+              if (lastBlock && lastBlock.type === 'text') {
+                lastBlock.text += textDelta;
+              } else {
+                turnBlocks.push({ type: 'text', text: textDelta });
+              }
+
               // Render immediately for real-time streaming
               await performRender();
               lastWasToolUse = false;
@@ -1131,6 +2322,7 @@ class AgentChatView extends ItemView {
           // Capture session ID from first system init event
           if (event.type === 'system' && event.subtype === 'init' && !this.sessionId) {
             this.sessionId = event.session_id;
+            this.session.sdkSessionId = event.session_id;
             console.log('[ObsidianAgent] Session started:', this.sessionId);
           }
 
@@ -1159,6 +2351,7 @@ class AgentChatView extends ItemView {
                 isExpanded: false,
               };
               this.currentToolUses.set(toolId, toolData);
+              turnBlocks.push({ type: 'tool_use', id: toolId, name: toolName, input: {} });
 
               // Hide thinking indicator, show assistant element
               if (loadingEl.isConnected) {
@@ -1252,6 +2445,7 @@ class AgentChatView extends ItemView {
                     // Append new tool component
                     const toolElement = this.createToolUseElement(toolData);
                     assistantEl.appendChild(toolElement);
+                    turnBlocks.push({ type: 'tool_use', id: toolId, name: block.name, input: block.input });
                   }
 
                   // Next text will go in a new container with fresh text
@@ -1328,13 +2522,19 @@ class AgentChatView extends ItemView {
         }
 
         console.log('[ObsidianAgent] Query completed successfully');
-        this.messages.push({ role: 'assistant', content: fullResponse });
+        if (this.session === turnSession) {
+          this.messages.push({ role: 'assistant', content: fullResponse, blocks: this.finalizeTurnBlocks(turnBlocks), turnId });
+          this.renderTurnFooter(assistantEl, turnId);
+        }
       } catch (error: any) {
         console.error('[ObsidianAgent] Query error:', error);
         console.error('[ObsidianAgent] Error stack:', error.stack);
         loadingEl.remove();
 
-        // Check if it was aborted
+        // Check if it was aborted (a turn stopped because its session was deleted has nowhere to report)
+        if (this.session !== turnSession) {
+          return;
+        }
         if (error.name === 'AbortError' || this.abortController?.signal.aborted) {
           this.addMessage(messagesContainer, 'assistant', '*Stopped by user*');
         } else {
@@ -1348,6 +2548,9 @@ class AgentChatView extends ItemView {
         sendButton.style.display = '';
         stopButton.style.display = 'none';
         textarea.focus();
+        if (this.session === turnSession) {
+          await this.persistSession();
+        }
       }
     };
 
@@ -1359,13 +2562,37 @@ class AgentChatView extends ItemView {
     });
 
     clearButton.addEventListener('click', () => {
-      // Clear the UI
-      messagesContainer.empty();
-      // Reset session and messages
-      this.sessionId = null;
-      this.messages = [];
-      console.log('[ObsidianAgent] Chat cleared, session reset');
+      if (this.isLoading) return;
+      // Start a fresh session; the previous one is already saved to history
+      this.startNewSession();
+      console.log('[ObsidianAgent] Chat cleared, new session started');
+    });
+
+    // A session deleted from history is dropped here too, so the next save doesn't bring it back
+    this.registerEvent(this.plugin.sessionStore.on('deleted', (sessionId) => {
+      if (sessionId !== this.session.id) return;
+      this.abortController?.abort();
+      this.startNewSession();
+      console.log('[ObsidianAgent] Session deleted from history, new session started');
+    }));
+
+    historyButton.addEventListener('click', () => {
+      this.plugin.activateHistoryView();
+    });
+
+    contextButton.addEventListener('click', () => {
+      const show = contextPreview.style.display === 'none';
+      contextPreview.style.display = show ? '' : 'none';
+      contextButton.toggleClass('is-active', show);
+      if (show) this.renderContextPreview();
     });
+    // Keep an open preview in step with the note being edited
+    const refreshPreview = () => this.scheduleContextPreview();
+    this.registerEvent(this.app.workspace.on('file-open', refreshPreview));
+    this.registerEvent(this.app.workspace.on('editor-change', refreshPreview));
+    this.registerEvent(this.app.metadataCache.on('changed', refreshPreview));
+    // Selections don't fire events; coming back to the chat is when they're final
+    textarea.addEventListener('focus', () => this.scheduleContextPreview(0));
 
     sendButton.addEventListener('click', handleSend);
     textarea.addEventListener('keydown', (e) => {
@@ -1377,6 +2604,14 @@ class AgentChatView extends ItemView {
 
     // Add some CSS
     this.addStyles();
+
+    if (this.pendingSessionId) {
+      const saved = await this.plugin.sessionStore.load(this.pendingSessionId);
+      this.pendingSessionId = null;
+      if (saved) {
+        await this.loadSession(saved);
+      }
+    }
   }
 
   fixOverflowOnElement(element: HTMLElement) {
@@ -1406,31 +2641,18 @@ class AgentChatView extends ItemView {
 
   async revertChange(fileChange: FileChange): Promise<boolean> {
     try {
-      const file = this.plugin.app.vault.getAbstractFileByPath(fileChange.filePath);
-
-      if (fileChange.oldContent === null) {
-        // File was newly created, delete it
-        if (file instanceof TFile) {
-          await this.plugin.app.vault.delete(file);
-          new Notice(`Reverted: Deleted ${fileChange.filePath}`);
-          console.log('[ObsidianAgent] Reverted file creation:', fileChange.filePath);
-        }
-      } else {
-        // File was modified, restore old content
-        if (file instanceof TFile) {
-          await this.plugin.app.vault.modify(file, fileChange.oldContent);
-          new Notice(`Reverted changes to ${fileChange.filePath}`);
-          console.log('[ObsidianAgent] Reverted file modification:', fileChange.filePath);
-        } else {
-          // File was deleted after being modified, recreate it
-          await this.plugin.app.vault.create(fileChange.filePath, fileChange.oldContent);
-          new Notice(`Reverted: Restored ${fileChange.filePath}`);
-          console.log('[ObsidianAgent] Reverted file deletion:', fileChange.filePath);
-        }
+      const applied = await revertFileChange(this.plugin.app, fileChange);
+      if (!applied) {
+        new Notice(`Skipped reverting ${fileChange.filePath}`);
+        return false;
       }
 
+      new Notice(`Reverted changes to ${fileChange.filePath}`);
+      console.log('[ObsidianAgent] Reverted change:', fileChange.filePath);
+
       // Mark as reverted instead of clearing
       this.changeTracker.markAsReverted(fileChange.id);
+      await this.persistSession();
       return true;
     } catch (error: any) {
       console.error('[ObsidianAgent] Error reverting change:', error);
@@ -1441,29 +2663,18 @@ class AgentChatView extends ItemView {
 
   async restoreChange(fileChange: FileChange): Promise<boolean> {
     try {
-      const file = this.plugin.app.vault.getAbstractFileByPath(fileChange.filePath);
-
-      if (fileChange.oldContent === null) {
-        // Original operation was file creation, recreate it
-        await this.plugin.app.vault.create(fileChange.filePath, fileChange.newContent);
-        new Notice(`Restored: Created ${fileChange.filePath}`);
-        console.log('[ObsidianAgent] Restored file creation:', fileChange.filePath);
-      } else {
-        // Original operation was file modification, restore new content
-        if (file instanceof TFile) {
-          await this.plugin.app.vault.modify(file, fileChange.newContent);
-          new Notice(`Restored changes to ${fileChange.filePath}`);
-          console.log('[ObsidianAgent] Restored file modification:', fileChange.filePath);
-        } else {
-          // File doesn't exist, create it with new content
-          await this.plugin.app.vault.create(fileChange.filePath, fileChange.newContent);
-          new Notice(`Restored: Created ${fileChange.filePath}`);
-          console.log('[ObsidianAgent] Restored file:', fileChange.filePath);
-        }
+      const applied = await restoreFileChange(this.plugin.app, fileChange);
+      if (!applied) {
+        new Notice(`Skipped restoring ${fileChange.filePath}`);
+        return false;
       }
 
+      new Notice(`Restored changes to ${fileChange.filePath}`);
+      console.log('[ObsidianAgent] Restored change:', fileChange.filePath);
+
       // Mark as restored (not reverted)
       this.changeTracker.markAsRestored(fileChange.id);
+      await this.persistSession();
       return true;
     } catch (error: any) {
       console.error('[ObsidianAgent] Error restoring change:', error);
@@ -1472,7 +2683,219 @@ class AgentChatView extends ItemView {
     }
   }
 
-  async showEditApprovalDialog(toolName: string, input: any, messagesContainer: HTMLElement): Promise<boolean> {
+  /**
+   * Callbacks that record what the agent's Bash commands and file operation tools
+   * moved, deleted, created or edited, attaching each change to its tool block
+   */
+  private createChangeTracking(): ChangeTrackingCallbacks {
+    return {
+      beforeBash: async (toolUseId, command) => {
+        const snapshot = await VaultSnapshot.capture(
+          this.plugin.app,
+          command,
+          this.plugin.vaultPath,
+          filePath => this.plugin.searchIndex.getContent(filePath)
+        );
+        this.bashSnapshots.set(toolUseId, snapshot);
+      },
+      afterBash: async (toolUseId) => {
+        const snapshot = this.bashSnapshots.get(toolUseId);
+        if (!snapshot) return;
+        this.bashSnapshots.delete(toolUseId);
+
+        const detected = await snapshot.detectChanges();
+        if (detected.length > 0) {
+          console.log('[ObsidianAgent] Bash command changed', detected.length, 'vault path(s)');
+          this.recordToolChanges(toolUseId, detected);
+        }
+      },
+      recordOperation: (toolUseId, changes) => {
+        this.recordToolChanges(toolUseId, changes);
+      },
+    };
+  }
+
+  private recordToolChanges(toolUseId: string | undefined, detected: FileChangeInput[]) {
+    const changes = detected.map(change => this.changeTracker.recordChange(
+      change.filePath,
+      change.operation,
+      change.oldContent,
+      change.newContent,
+      { oldPath: change.oldPath, isFolder: change.isFolder, trashPath: change.trashPath }
+    ));
+
+    const toolData = toolUseId ? this.currentToolUses.get(toolUseId) : undefined;
+    if (toolData) {
+      toolData.fileChanges = [...(toolData.fileChanges || []), ...changes];
+      if (toolData.element) {
+        const oldElement = toolData.element;
+        oldElement.replaceWith(this.createToolUseElement(toolData));
+      }
+    }
+  }
+
+  /**
+   * Revert every change from one query turn, newest first
+   */
+  async undoTurn(turnId: string) {
+    const changes = this.changeTracker.getTurnChanges(turnId).filter(c => !c.reverted && canRevertChange(c));
+    if (changes.length === 0) {
+      new Notice('Nothing to undo in this turn');
+      return;
+    }
+    if (!confirm(`Undo ${changes.length} change(s) the agent made in this turn?`)) return;
+
+    await this.undoChanges(changes);
+  }
+
+  /**
+   * Revert every change made during this chat session, newest first
+   */
+  async undoSession() {
+    if (this.isLoading) {
+      new Notice('Wait for the current response to finish before undoing');
+      return;
+    }
+    const changes = this.changeTracker.getAllChanges().filter(c => !c.reverted && canRevertChange(c));
+    if (changes.length === 0) {
+      new Notice('No agent changes to undo in this session');
+      return;
+    }
+    if (!confirm(`Undo all ${changes.length} change(s) the agent made in this session?`)) return;
+
+    await this.undoChanges(changes);
+  }
+
+  private async undoChanges(changes: FileChange[]) {
+    const { reverted, skipped } = await revertChangesInOrder(this.plugin.app, changes, (change) => {
+      this.changeTracker.markAsReverted(change.id);
+    });
+
+    new Notice(`Reverted ${reverted} change(s)${skipped > 0 ? `, skipped ${skipped}` : ''}`);
+    await this.persistSession();
+    await this.rerenderTranscript();
+  }
+
+  /**
+   * Footer under an assistant reply offering to undo everything that turn changed
+   */
+  renderTurnFooter(messageEl: HTMLElement, turnId: string) {
+    const changes = this.changeTracker.getTurnChanges(turnId);
+    if (changes.length === 0) return;
+
+    const footer = messageEl.createDiv('agent-turn-footer');
+    const pending = changes.filter(c => !c.reverted && canRevertChange(c)).length;
+    const reverted = changes.filter(c => c.reverted).length;
+    const files = new Set(changes.map(c => c.filePath)).size;
+    footer.createSpan({
+      cls: 'agent-turn-summary',
+      text: `${changes.length} change(s) to ${files} file(s)${reverted > 0 ? `, ${reverted} reverted` : ''}`,
+    });
+
+    if (pending > 0) {
+      const undoBtn = footer.createEl('button', { text: '↶ Undo turn', cls: 'tool-use-revert-button' });
+      undoBtn.addEventListener('click', () => this.undoTurn(turnId));
+    }
+  }
+
+  /**
+   * Work out the content a Write/Edit would produce, reading the file as it is right now
+   */
+  async computeProposedEdit(toolName: string, input: any): Promise<ProposedEdit | null> {
+    const filePath = input?.file_path;
+    if (!filePath) return null;
+
+    const fullPath = path.isAbsolute(filePath) ? filePath : path.join(this.plugin.vaultPath, filePath);
+    let existing: string | null = null;
+    try {
+      existing = await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      existing = null;
+    }
+
+    if (toolName === 'Write') {
+      return { kind: 'file', current: existing ?? '', proposed: input.content ?? '' };
+    }
+
+    const oldString: string = input.old_string ?? '';
+    const newString: string = input.new_string ?? '';
+    if (existing === null || !oldString || !existing.includes(oldString)) {
+      return {
+        kind: 'snippet',
+        current: oldString,
+        proposed: newString,
+        note: existing === null ? 'File does not exist yet' : 'Could not find the text to replace in the current file',
+      };
+    }
+
+    const proposed = input.replace_all
+      ? existing.split(oldString).join(newString)
+      : existing.replace(oldString, () => newString);
+    return { kind: 'file', current: existing, proposed };
+  }
+
+  /**
+   * Turn the user's accepted content back into tool input for the SDK
+   */
+  buildApprovedInput(toolName: string, input: any, proposal: ProposedEdit, finalContent: string): Record<string, unknown> {
+    if (proposal.kind === 'snippet') {
+      return { ...input, new_string: finalContent };
+    }
+    if (toolName === 'Write') {
+      return { ...input, content: finalContent };
+    }
+
+    const replacement = minimalReplacement(proposal.current, finalContent);
+    if (!replacement) {
+      return input;
+    }
+    return { ...input, old_string: replacement.oldText, new_string: replacement.newText, replace_all: false };
+  }
+
+  /**
+   * What a remembered answer covers: one exact Bash command, a tool on one path, or a whole tool.
+   * Null for chained Bash commands and ones with substitutions or redirections, which aren't remembered.
+   */
+  permissionScope(toolName: string, input: any): { key: string; label: string } | null {
+    if (toolName === 'Bash') {
+      const command = String(input?.command || '').trim();
+      if (splitCommandChain(command).length > 1 || hasSubstitutionOrRedirect(command)) {
+        return null;
+      }
+      return { key: `Bash:${command}`, label: 'this exact command' };
+    }
+    const target = input?.file_path || input?.path || input?.url;
+    if (target) {
+      return { key: `${toolName}:${target}`, label: `${toolName} on ${target}` };
+    }
+    return { key: toolName, label: toolName };
+  }
+
+  async requestApproval(toolName: string, input: any, reason: string | undefined, messagesContainer: HTMLElement): Promise<EditApprovalResult> {
+    const scope = this.permissionScope(toolName, input);
+    const remembered = scope ? this.rememberedApprovals.get(scope.key) : undefined;
+    if (remembered !== undefined) {
+      return remembered ? { approved: true } : { approved: false, message: 'User denied this earlier in the session' };
+    }
+
+    const result = await this.showApprovalDialog(toolName, input, messagesContainer, reason, scope?.label ?? null);
+    if (scope && result.remember) {
+      this.rememberedApprovals.set(scope.key, result.approved);
+    }
+    return result;
+  }
+
+  async showApprovalDialog(
+    toolName: string,
+    input: any,
+    messagesContainer: HTMLElement,
+    reason?: string,
+    scopeLabel?: string | null
+  ): Promise<EditApprovalResult> {
+    const fileOperation = getFileOperationTool(toolName);
+    const isEdit = toolName === 'Write' || toolName === 'Edit';
+    const proposal = isEdit ? await this.computeProposedEdit(toolName, input) : null;
+
     return new Promise((resolve) => {
       const filePath = input?.file_path || 'unknown file';
 
@@ -1480,20 +2903,84 @@ class AgentChatView extends ItemView {
       const dialogEl = messagesContainer.createDiv('edit-approval-dialog');
 
       const headerEl = dialogEl.createDiv('edit-approval-header');
-      headerEl.setText(`📝 ${toolName} Request`);
+      headerEl.setText(`${isEdit || fileOperation ? '📝' : '🔐'} ${fileOperation || toolName} Request`);
 
       const fileEl = dialogEl.createDiv('edit-approval-file');
-      fileEl.setText(`File: ${filePath}`);
+      if (fileOperation) {
+        fileEl.setText(describeFileOperation(fileOperation, input));
+      } else if (isEdit) {
+        fileEl.setText(`File: ${filePath}`);
+      } else if (toolName === 'Bash') {
+        fileEl.setText(`$ ${input?.command || ''}`);
+      } else {
+        const summary = JSON.stringify(input ?? {}, null, 2);
+        fileEl.setText(summary.length > 500 ? summary.slice(0, 500) + '…' : summary);
+        fileEl.style.whiteSpace = 'pre-wrap';
+      }
+
+      if (reason) {
+        dialogEl.createDiv({ cls: 'edit-approval-note', text: `Permission rule: ${reason}` });
+      }
+
+      let hunked: HunkedDiff | null = null;
+      const selected = new Set<number>();
+      const checkboxes: HTMLInputElement[] = [];
+      let editedText: string | null = null;
+
+      // Show the resulting diff, one selectable hunk per change
+      if (proposal) {
+        if (proposal.note) {
+          dialogEl.createDiv({ cls: 'edit-approval-note', text: proposal.note });
+        }
+
+        const previewEl = dialogEl.createDiv('edit-approval-preview');
+        hunked = splitIntoHunks(proposal.current, proposal.proposed);
+        const total = hunked.hunks.length;
+
+        for (const hunk of hunked.hunks) {
+          selected.add(hunk.index);
+
+          const hunkEl = previewEl.createDiv('edit-approval-hunk');
+          const labelEl = hunkEl.createEl('label', { cls: 'edit-approval-hunk-header' });
+          const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+          checkbox.checked = true;
+          checkboxes.push(checkbox);
+          const position = proposal.kind === 'file' ? `line ${hunk.oldStart}` : 'replacement';
+          labelEl.createSpan({ text: total > 1 ? `Change ${hunk.index + 1} of ${total} · ${position}` : `Change · ${position}` });
+
+          checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+              selected.add(hunk.index);
+            } else {
+              selected.delete(hunk.index);
+            }
+            hunkEl.toggleClass('is-rejected', !checkbox.checked);
+            approveBtn.setText(selected.size === total ? 'Approve' : `Approve ${selected.size} of ${total}`);
+          });
 
-      // Show diff preview
-      const previewEl = dialogEl.createDiv('edit-approval-preview');
-      if (toolName === 'Edit' && input?.old_string !== undefined && input?.new_string !== undefined) {
-        const diffEl = this.createDiffElement(input.old_string, input.new_string, { maxLines: 30 });
-        previewEl.appendChild(diffEl);
-      } else if (toolName === 'Write' && input?.content) {
-        // For Write, show as all additions (from empty)
-        const diffEl = this.createDiffElement('', input.content, { maxLines: 30 });
-        previewEl.appendChild(diffEl);
+          hunkEl.appendChild(this.createDiffElement(hunk.oldText, hunk.newText, { maxLines: 30 }));
+        }
+
+        if (total === 0) {
+          previewEl.createDiv({ cls: 'edit-approval-note', text: 'No changes to the file content' });
+        }
+      }
+
+      // Editable copy of the accepted result, for tweaking the text before it is applied
+      const editorEl = dialogEl.createDiv('edit-approval-editor');
+      editorEl.style.display = 'none';
+      const textarea = editorEl.createEl('textarea', { cls: 'edit-approval-textarea' });
+      textarea.rows = 12;
+      textarea.addEventListener('input', () => {
+        editedText = textarea.value;
+      });
+
+      // A null scope means the answer can't be remembered, so there's no box to tick
+      let rememberBox: HTMLInputElement | null = null;
+      if (scopeLabel !== null) {
+        const rememberEl = dialogEl.createEl('label', { cls: 'edit-approval-remember' });
+        rememberBox = rememberEl.createEl('input', { type: 'checkbox' });
+        rememberEl.createSpan({ text: `Remember for this session${scopeLabel ? ` (${scopeLabel})` : ''}` });
       }
 
       // Buttons
@@ -1502,13 +2989,48 @@ class AgentChatView extends ItemView {
       const approveBtn = buttonsEl.createEl('button', { text: 'Approve', cls: 'mod-cta' });
       approveBtn.addEventListener('click', () => {
         dialogEl.remove();
-        resolve(true);
+        const remember = rememberBox?.checked ?? false;
+        if (!proposal || !hunked) {
+          resolve({ approved: true, remember });
+          return;
+        }
+
+        const finalContent = editedText ?? applyHunks(hunked, selected);
+        if (finalContent === proposal.proposed) {
+          resolve({ approved: true, remember });
+        } else if (finalContent === proposal.current) {
+          resolve({ approved: false, message: 'User rejected every change in this edit' });
+        } else {
+          resolve({ approved: true, updatedInput: this.buildApprovedInput(toolName, input, proposal, finalContent), remember });
+        }
       });
 
+      if (proposal && hunked) {
+        const editBtn = buttonsEl.createEl('button', { text: 'Edit text' });
+        editBtn.addEventListener('click', () => {
+          const opening = editorEl.style.display === 'none';
+          if (opening) {
+            // Start from the currently selected hunks; manual text then replaces the selection
+            textarea.value = editedText ?? applyHunks(hunked!, selected);
+            editorEl.style.display = 'block';
+            checkboxes.forEach(checkbox => checkbox.disabled = true);
+            approveBtn.setText('Approve edited text');
+            editBtn.setText('Discard edits');
+            textarea.focus();
+          } else {
+            editedText = null;
+            editorEl.style.display = 'none';
+            checkboxes.forEach(checkbox => checkbox.disabled = false);
+            approveBtn.setText(selected.size === hunked!.hunks.length ? 'Approve' : `Approve ${selected.size} of ${hunked!.hunks.length}`);
+            editBtn.setText('Edit text');
+          }
+        });
+      }
+
       const denyBtn = buttonsEl.createEl('button', { text: 'Deny' });
       denyBtn.addEventListener('click', () => {
         dialogEl.remove();
-        resolve(false);
+        resolve({ approved: false, remember: rememberBox?.checked ?? false });
       });
 
       // Scroll to dialog
@@ -1570,6 +3092,20 @@ class AgentChatView extends ItemView {
     return container;
   }
 
+  describeFileChange(change: FileChange): string {
+    const noun = change.isFolder ? 'folder' : 'file';
+    switch (change.operation) {
+      case 'move':
+        return `Moved ${change.oldPath} → ${change.filePath}`;
+      case 'create':
+        return `Created ${noun} ${change.filePath}`;
+      case 'delete':
+        return `Deleted ${noun} ${change.filePath}`;
+      default:
+        return `Edited ${change.filePath}`;
+    }
+  }
+
   createToolUseElement(toolData: ToolUseData): HTMLElement {
     const container = document.createElement('div');
     container.className = 'tool-use-container';
@@ -1582,18 +3118,28 @@ class AgentChatView extends ItemView {
     chevron.className = 'tool-use-chevron';
     chevron.textContent = '▶';
 
+    // MCP tools (mcp__server__tool) show the tool name with their server alongside
+    const mcpTool = splitMcpToolName(toolData.name);
     const toolName = document.createElement('span');
     toolName.className = 'tool-use-name';
-    toolName.textContent = ` 🔧 ${toolData.name}`;
+    toolName.textContent = ` 🔧 ${mcpTool ? mcpTool.tool : toolData.name}`;
 
     header.appendChild(chevron);
     header.appendChild(toolName);
 
+    if (mcpTool) {
+      const serverBadge = document.createElement('span');
+      serverBadge.className = 'tool-use-server';
+      serverBadge.textContent = mcpTool.server;
+      serverBadge.title = `MCP server: ${mcpTool.server}`;
+      header.appendChild(serverBadge);
+    }
+
     // Add progress indicator (visible while tool is executing)
     if (!toolData.result) {
       const progressSpan = document.createElement('span');
       progressSpan.className = 'tool-use-progress';
-      progressSpan.textContent = 'running...';
+      progressSpan.textContent = toolData.progress ? lastProgressLine(toolData.progress) : 'running...';
       header.appendChild(progressSpan);
       container.classList.add('executing');
     } else {
@@ -1632,13 +3178,18 @@ class AgentChatView extends ItemView {
 
       const paramsValue = document.createElement('pre');
       paramsValue.className = 'tool-use-json';
-      paramsValue.textContent = JSON.stringify(toolData.input, null, 2);
+      paramsValue.textContent = JSON.stringify(this.plugin.secretStore.redactDeep(toolData.input), null, 2);
 
       paramsSection.appendChild(paramsLabel);
       paramsSection.appendChild(paramsValue);
       content.appendChild(paramsSection);
     }
 
+    // Output streamed by a custom tool while it runs
+    if (toolData.result === undefined && toolData.progress) {
+      content.appendChild(this.createLiveOutputSection(toolData.progress));
+    }
+
     // Results section (if available, hide for Write/Edit with diff)
     if (toolData.result !== undefined && !isFileOperation) {
       const resultsSection = document.createElement('div');
@@ -1664,7 +3215,7 @@ class AgentChatView extends ItemView {
         resultText = resultText.replace(/<system-reminder>[\s\S]*?<\/system-reminder>/g, '').trim();
       }
 
-      resultsValue.textContent = resultText;
+      resultsValue.textContent = this.plugin.secretStore.redact(resultText);
 
       resultsSection.appendChild(resultsLabel);
       resultsSection.appendChild(resultsValue);
@@ -1711,13 +3262,58 @@ class AgentChatView extends ItemView {
       // Use improved diff element
       const diffEl = this.createDiffElement(
         toolData.fileChange.oldContent || '',
-        toolData.fileChange.newContent,
+        toolData.fileChange.newContent || '',
         { maxLines: 50 }
       );
 
-      diffSection.appendChild(diffHeader);
-      diffSection.appendChild(diffEl);
-      content.appendChild(diffSection);
+      diffSection.appendChild(diffHeader);
+      diffSection.appendChild(diffEl);
+      content.appendChild(diffSection);
+    }
+
+    // Vault changes detected around a Bash command, each revertible on its own
+    if (toolData.fileChanges && toolData.fileChanges.length > 0) {
+      const changesSection = document.createElement('div');
+      changesSection.className = 'tool-use-section';
+
+      const changesLabel = document.createElement('div');
+      changesLabel.className = 'tool-use-section-label';
+      changesLabel.textContent = 'Vault changes:';
+      changesSection.appendChild(changesLabel);
+
+      for (const change of toolData.fileChanges) {
+        const row = document.createElement('div');
+        row.className = 'tool-use-vault-change';
+
+        const description = document.createElement('span');
+        description.textContent = this.describeFileChange(change);
+        row.appendChild(description);
+
+        if (canRevertChange(change)) {
+          const revertButton = document.createElement('button');
+          revertButton.className = 'tool-use-revert-button';
+          revertButton.textContent = change.reverted ? '↻ Restore' : '↶ Revert';
+          revertButton.addEventListener('click', async (e) => {
+            e.stopPropagation();
+            if (change.reverted) {
+              if (await this.restoreChange(change)) {
+                revertButton.textContent = '↶ Revert';
+              }
+            } else if (await this.revertChange(change)) {
+              revertButton.textContent = '↻ Restore';
+            }
+          });
+          row.appendChild(revertButton);
+        } else {
+          const note = document.createElement('span');
+          note.className = 'tool-use-vault-change-note';
+          note.textContent = 'content not captured';
+          row.appendChild(note);
+        }
+
+        changesSection.appendChild(row);
+      }
+      content.appendChild(changesSection);
     }
 
     // Click handler for expand/collapse
@@ -1742,41 +3338,210 @@ class AgentChatView extends ItemView {
     return container;
   }
 
-  async addMessage(container: HTMLElement, role: 'user' | 'assistant', content: string) {
-    const messageEl = container.createDiv(`agent-message ${role}`);
+  private createLiveOutputSection(progress: string): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'tool-use-section';
 
-    if (role === 'assistant') {
-      // Render markdown for assistant messages
-      await MarkdownRenderer.render(this.plugin.app, content, messageEl, '/', this);
+    const label = document.createElement('div');
+    label.className = 'tool-use-section-label';
+    label.textContent = 'Output:';
 
-      // Fix overflow after rendering
-      this.fixOverflowOnElement(messageEl);
+    const output = document.createElement('pre');
+    output.className = 'tool-use-json tool-use-live-output';
+    output.textContent = progress;
 
-      // Make internal links clickable
-      messageEl.querySelectorAll('a.internal-link').forEach((link: HTMLElement) => {
-        link.addEventListener('click', (e) => {
-          e.preventDefault();
-          const href = link.getAttribute('data-href');
-          if (href) {
-            // Open the linked file
-            const file = this.plugin.app.metadataCache.getFirstLinkpathDest(href, '/');
-            if (file) {
-              this.plugin.app.workspace.getLeaf(false).openFile(file);
-            }
+    section.appendChild(label);
+    section.appendChild(output);
+    return section;
+  }
+
+  /**
+   * Show stderr from a running custom tool: the latest line in the block's header,
+   * everything so far under "Output:"
+   */
+  private appendToolProgress(toolUseId: string | undefined, text: string) {
+    const toolData = toolUseId ? this.currentToolUses.get(toolUseId) : undefined;
+    if (!toolData || toolData.result !== undefined) return;
+
+    // Redacted together with what came before, so a secret split across chunks is still caught
+    toolData.progress = this.plugin.secretStore.redact((toolData.progress || '') + text).slice(-MAX_TOOL_PROGRESS_CHARS);
+    const element = toolData.element;
+    if (!element) return;
+
+    const progressSpan = element.querySelector('.tool-use-progress');
+    if (progressSpan) {
+      progressSpan.textContent = lastProgressLine(toolData.progress);
+    }
+
+    const output = element.querySelector<HTMLElement>('.tool-use-live-output');
+    if (output) {
+      output.textContent = toolData.progress;
+      output.scrollTop = output.scrollHeight;
+    } else {
+      element.querySelector('.tool-use-content')?.appendChild(this.createLiveOutputSection(toolData.progress));
+    }
+  }
+
+  makeInternalLinksClickable(element: HTMLElement) {
+    element.querySelectorAll<HTMLElement>('a.internal-link').forEach((link) => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        const href = link.getAttribute('data-href');
+        if (href) {
+          // Open the linked file
+          const file = this.plugin.app.metadataCache.getFirstLinkpathDest(href, '/');
+          if (file) {
+            this.plugin.app.workspace.getLeaf(false).openFile(file);
           }
-        });
+        }
       });
+    });
+  }
+
+  async renderMessage(container: HTMLElement, message: TranscriptMessage) {
+    const messageEl = container.createDiv(`agent-message ${message.role}`);
+
+    if (message.role === 'assistant' && message.blocks && message.blocks.length > 0) {
+      // Rebuild interleaved text sections and tool components from a saved transcript
+      for (const block of message.blocks) {
+        if (block.type === 'text') {
+          const textEl = messageEl.createDiv('assistant-text-content');
+          await MarkdownRenderer.render(this.plugin.app, block.text, textEl, '/', this);
+          this.fixOverflowOnElement(textEl);
+          this.makeInternalLinksClickable(textEl);
+        } else {
+          const toolData: ToolUseData = {
+            id: block.id,
+            name: block.name,
+            input: block.input,
+            result: block.result,
+            isExpanded: false,
+            fileChange: block.fileChangeId ? this.changeTracker.getChange(block.fileChangeId) : undefined,
+            fileChanges: block.fileChangeIds
+              ?.map(id => this.changeTracker.getChange(id))
+              .filter((change): change is FileChange => !!change),
+          };
+          messageEl.appendChild(this.createToolUseElement(toolData));
+        }
+      }
+      if (message.turnId) {
+        this.renderTurnFooter(messageEl, message.turnId);
+      }
+    } else if (message.role === 'assistant') {
+      // Render markdown for assistant messages
+      await MarkdownRenderer.render(this.plugin.app, message.content, messageEl, '/', this);
+
+      // Fix overflow after rendering
+      this.fixOverflowOnElement(messageEl);
+      this.makeInternalLinksClickable(messageEl);
     } else {
       // Plain text for user messages
-      messageEl.setText(content);
+      messageEl.setText(message.content);
     }
 
     container.scrollTop = container.scrollHeight;
+  }
+
+  async addMessage(container: HTMLElement, role: 'user' | 'assistant', content: string) {
+    await this.renderMessage(container, { role, content });
     this.messages.push({ role, content });
   }
 
+  /**
+   * Fill in tool names, inputs, results and recorded file changes for a finished turn
+   */
+  finalizeTurnBlocks(blocks: TranscriptBlock[]): TranscriptBlock[] {
+    return blocks.map(block => {
+      if (block.type !== 'tool_use') {
+        return block;
+      }
+      const toolData = this.currentToolUses.get(block.id);
+      if (!toolData) {
+        return block;
+      }
+      return {
+        type: 'tool_use',
+        id: block.id,
+        name: toolData.name,
+        input: toolData.input,
+        result: toolData.result,
+        fileChangeId: toolData.fileChange?.id,
+        fileChangeIds: toolData.fileChanges?.map(change => change.id),
+      };
+    });
+  }
+
+  async persistSession() {
+    if (this.messages.length === 0) return;
+
+    this.session.messages = this.messages;
+    this.session.sdkSessionId = this.sessionId;
+
+    try {
+      await this.plugin.sessionStore.save(this.session);
+      this.app.workspace.requestSaveLayout();
+    } catch (error) {
+      console.error('[ObsidianAgent] Failed to save session:', error);
+    }
+  }
+
+  async rerenderTranscript() {
+    if (!this.messagesContainer) return;
+    this.messagesContainer.empty();
+    for (const message of this.messages) {
+      await this.renderMessage(this.messagesContainer, message);
+    }
+  }
+
+  /**
+   * Empty the chat and start a new session
+   */
+  startNewSession() {
+    this.messagesContainer?.empty();
+    this.sessionId = null;
+    this.messages = [];
+    this.session = createEmptySession();
+    this.changeTracker.setSession(this.session.id);
+    this.rememberedApprovals.clear();
+    this.currentToolUses.clear();
+    this.app.workspace.requestSaveLayout();
+  }
+
+  /**
+   * Replace the current conversation with a saved session; the next query resumes it.
+   * A session already open in another tab is revealed there instead.
+   */
+  async loadSession(session: ChatSession) {
+    if (this.isLoading) {
+      new Notice('Wait for the current response to finish before switching sessions');
+      return;
+    }
+    if (!this.messagesContainer) return;
+
+    const open = this.plugin.findChatViewForSession(session.id);
+    if (open && open !== this) {
+      this.app.workspace.revealLeaf(open.leaf);
+      return;
+    }
+
+    this.session = session;
+    this.sessionId = session.sdkSessionId;
+    this.messages = [...session.messages];
+    this.changeTracker.setSession(session.id);
+    this.rememberedApprovals.clear();
+    this.currentToolUses.clear();
+
+    await this.rerenderTranscript();
+    this.app.workspace.requestSaveLayout();
+    console.log('[ObsidianAgent] Loaded session:', session.id, 'resuming SDK session:', this.sessionId);
+  }
+
   addStyles() {
+    // Every chat tab calls this; only inject the stylesheet once
+    if (document.getElementById('agent-chat-styles')) return;
+
     const style = document.createElement('style');
+    style.id = 'agent-chat-styles';
     style.textContent = `
       .agent-chat-container {
         display: flex;
@@ -1995,6 +3760,21 @@ class AgentChatView extends ItemView {
         animation: pulse 1.5s ease-in-out infinite;
       }
 
+      .tool-use-server {
+        margin-left: 6px;
+        padding: 0 6px;
+        border-radius: 8px;
+        font-size: 0.75em;
+        color: var(--text-muted);
+        background: var(--background-modifier-hover);
+      }
+
+      .tool-use-live-output {
+        max-height: 200px;
+        overflow-y: auto;
+        white-space: pre-wrap;
+      }
+
       .tool-use-container.executing {
         border-left: 3px solid var(--interactive-accent);
       }
@@ -2060,6 +3840,72 @@ class AgentChatView extends ItemView {
         display: flex;
         flex-direction: column;
         gap: 4px;
+        position: relative;
+      }
+
+      .agent-mention-suggest {
+        position: absolute;
+        bottom: 100%;
+        left: 0;
+        right: 0;
+        margin-bottom: 4px;
+        max-height: 260px;
+        overflow-y: auto;
+        z-index: 10;
+        padding: 4px;
+        background: var(--background-primary);
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 8px;
+        box-shadow: var(--shadow-s);
+      }
+
+      .agent-mention-item {
+        display: flex;
+        align-items: baseline;
+        gap: 6px;
+        padding: 4px 8px;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+
+      .agent-mention-item.is-selected {
+        background: var(--background-modifier-hover);
+      }
+
+      .agent-mention-icon {
+        flex-shrink: 0;
+        width: 1.2em;
+        text-align: center;
+        color: var(--text-muted);
+      }
+
+      .agent-mention-title {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .agent-mention-detail {
+        margin-left: auto;
+        flex-shrink: 0;
+        max-width: 45%;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        font-size: 0.8em;
+        color: var(--text-faint);
+      }
+
+      .agent-mention-hint {
+        padding: 4px 8px 2px;
+        font-size: 0.75em;
+        color: var(--text-faint);
+        border-top: 1px solid var(--background-modifier-border);
+        margin-top: 4px;
+      }
+
+      .agent-mention-chip {
+        color: var(--text-accent);
       }
 
       .agent-input {
@@ -2087,18 +3933,59 @@ class AgentChatView extends ItemView {
         gap: 6px;
       }
 
-      .agent-file-indicator {
+      .agent-input-container.is-drag-over {
+        border-color: var(--interactive-accent);
+        background: var(--background-modifier-hover);
+      }
+
+      .agent-attachment-chips {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+      }
+
+      .agent-attachment-chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        max-width: 100%;
         font-size: 0.85em;
         color: var(--text-muted);
-        padding: 4px 8px;
+        padding: 2px 4px 2px 8px;
         background: var(--background-primary);
-        border-radius: 4px;
+        border-radius: 12px;
         border: 1px solid var(--background-modifier-border);
       }
 
+      .agent-attachment-chip span {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .agent-attachment-action,
+      .agent-attachment-remove {
+        padding: 0 4px;
+        height: auto;
+        background: none;
+        box-shadow: none;
+        color: var(--text-muted);
+        cursor: pointer;
+      }
+
+      .agent-attachment-remove:hover {
+        color: var(--text-error);
+      }
+
+      .agent-attachment-action:hover {
+        color: var(--text-normal);
+      }
+
       .agent-send-button,
       .agent-stop-button,
       .agent-clear-button,
+      .agent-history-button,
+      .agent-context-button,
       .agent-upload-button {
         padding: 10px 20px;
         border-radius: 8px;
@@ -2147,17 +4034,80 @@ class AgentChatView extends ItemView {
         transform: translateY(-1px);
       }
 
-      .agent-upload-button {
+      .agent-upload-button,
+      .agent-history-button,
+      .agent-context-button {
         background: var(--background-secondary);
         color: var(--text-normal);
         font-size: 16px;
       }
 
-      .agent-upload-button:hover {
+      .agent-upload-button:hover,
+      .agent-history-button:hover,
+      .agent-context-button:hover {
         background: var(--background-secondary-alt);
         transform: translateY(-1px);
       }
 
+      .agent-context-button.is-active {
+        background: var(--background-modifier-active-hover);
+      }
+
+      .agent-context-preview {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        padding: 8px;
+        background: var(--background-secondary);
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 8px;
+        font-size: 0.85em;
+      }
+
+      .agent-context-preview-header {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        font-weight: 600;
+      }
+
+      .agent-context-tokens {
+        font-weight: normal;
+        color: var(--text-muted);
+      }
+
+      .agent-context-tokens.is-over {
+        color: var(--text-error);
+      }
+
+      .agent-context-sections {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+      }
+
+      .agent-context-section {
+        padding: 1px 8px;
+        border-radius: 10px;
+        background: var(--background-primary);
+        border: 1px solid var(--background-modifier-border);
+        color: var(--text-muted);
+      }
+
+      .agent-context-section.is-trimmed {
+        border-color: var(--color-orange);
+      }
+
+      .agent-context-text {
+        margin: 0;
+        max-height: 200px;
+        overflow: auto;
+        white-space: pre-wrap;
+        overflow-wrap: anywhere;
+        font-size: 0.9em;
+        user-select: text;
+      }
+
       /* Diff styling */
       .tool-use-diff {
         margin: 0;
@@ -2227,6 +4177,35 @@ class AgentChatView extends ItemView {
         border-color: var(--interactive-accent);
       }
 
+      /* Bash-driven vault changes */
+      .tool-use-vault-change {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        padding: 2px 0;
+        font-family: var(--font-monospace);
+        font-size: 0.85em;
+      }
+
+      .tool-use-vault-change-note {
+        color: var(--text-muted);
+        font-style: italic;
+      }
+
+      /* Per-turn undo footer */
+      .agent-turn-footer {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        margin-top: 8px;
+        padding-top: 6px;
+        border-top: 1px dashed var(--background-modifier-border);
+        font-size: 0.85em;
+        color: var(--text-muted);
+      }
+
       /* Table styling */
       .agent-message.assistant .table-wrapper {
         overflow-x: auto;
@@ -2413,7 +4392,7 @@ class AgentChatView extends ItemView {
         margin-bottom: 12px;
         font-family: var(--font-monospace);
         font-size: 0.85em;
-        max-height: 200px;
+        max-height: 320px;
         overflow-y: auto;
       }
 
@@ -2450,6 +4429,50 @@ class AgentChatView extends ItemView {
         word-break: break-word;
       }
 
+      .edit-approval-note {
+        color: var(--text-warning);
+        font-size: 0.85em;
+        margin-bottom: 8px;
+      }
+
+      .edit-approval-hunk + .edit-approval-hunk {
+        margin-top: 10px;
+        padding-top: 8px;
+        border-top: 1px dashed var(--background-modifier-border);
+      }
+
+      .edit-approval-hunk-header {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        color: var(--text-muted);
+        font-size: 0.9em;
+        margin-bottom: 4px;
+        cursor: pointer;
+      }
+
+      .edit-approval-hunk.is-rejected .improved-diff {
+        opacity: 0.4;
+        text-decoration: line-through;
+      }
+
+      .edit-approval-textarea {
+        width: 100%;
+        font-family: var(--font-monospace);
+        font-size: 0.85em;
+        margin-bottom: 12px;
+        resize: vertical;
+      }
+
+      .edit-approval-remember {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        color: var(--text-muted);
+        font-size: 0.85em;
+        margin-bottom: 12px;
+      }
+
       .edit-approval-buttons {
         display: flex;
         gap: 8px;
@@ -2504,7 +4527,60 @@ class AgentChatView extends ItemView {
     document.head.appendChild(style);
   }
 
+  private scheduleContextPreview(delay = 500) {
+    if (!this.contextPreviewEl || this.contextPreviewEl.style.display === 'none') return;
+    if (this.contextPreviewTimer !== null) window.clearTimeout(this.contextPreviewTimer);
+    this.contextPreviewTimer = window.setTimeout(() => {
+      this.contextPreviewTimer = null;
+      this.renderContextPreview();
+    }, delay);
+  }
+
+  /**
+   * Show the note context exactly as sendQuery will build it for the next message
+   */
+  private async renderContextPreview() {
+    const previewEl = this.contextPreviewEl;
+    if (!previewEl) return;
+
+    const request = ++this.contextPreviewRequest;
+    const context = await this.plugin.getActiveContext();
+    if (request !== this.contextPreviewRequest) return;
+
+    previewEl.empty();
+    const header = previewEl.createDiv('agent-context-preview-header');
+    header.createSpan({ text: 'Note context sent with your message' });
+    header.createSpan({
+      cls: context.tokens > context.budgetTokens ? 'agent-context-tokens is-over' : 'agent-context-tokens',
+      text: `≈ ${context.tokens} / ${context.budgetTokens} tokens`,
+    });
+
+    if (context.sections.length > 0) {
+      const sectionsEl = previewEl.createDiv('agent-context-sections');
+      for (const section of context.sections) {
+        const label = !section.truncated
+          ? section.title
+          : section.text ? `${section.title} (trimmed from ≈${section.fullTokens})` : `${section.title} (left out)`;
+        sectionsEl.createSpan({
+          cls: section.truncated ? 'agent-context-section is-trimmed' : 'agent-context-section',
+          text: label,
+        });
+      }
+    }
+
+    previewEl.createEl('pre', { cls: 'agent-context-text', text: context.text });
+  }
+
   async onClose() {
-    // Clean up
+    if (this.contextPreviewTimer !== null) {
+      window.clearTimeout(this.contextPreviewTimer);
+    }
+    // Stop any query still running in this tab
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+    if (this.plugin.lastActiveChatView === this) {
+      this.plugin.lastActiveChatView = null;
+    }
   }
 }
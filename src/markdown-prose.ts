@@ -0,0 +1,181 @@
+/**
+ * Split markdown into the prose a linter should see. Frontmatter, code, math and
+ * (optionally) quotes are left out; inside the remaining text, markup, link targets,
+ * code spans and URLs are masked with same-length filler, so a match's index in a
+ * range's text is also its index in the original document.
+ */
+
+export interface ProseRange {
+  // Offset of text[0] in the original document
+  start: number;
+  // Same length as the original slice
+  text: string;
+}
+
+export interface ProseOptions {
+  // Leave out "> quoted" blocks
+  skipBlockquotes?: boolean;
+  // Leave out "> [!note]" callouts
+  skipCallouts?: boolean;
+}
+
+interface Line {
+  start: number;
+  text: string;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const QUOTE_PATTERN = /^ {0,3}>/;
+const CALLOUT_PATTERN = /^ {0,3}>\s*\[![^\]]*\][+-]?/;
+
+// Code spans and URLs read like a single word in a sentence; keeping a word-like
+// filler there stops sentence checks from joining the words on either side
+const WORD_FILLER = '_';
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+function fill(text: string): string {
+  return text.replace(/[^\n]/g, WORD_FILLER);
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const lineText of text.split('\n')) {
+    lines.push({ start, text: lineText });
+    start += lineText.length + 1;
+  }
+  return lines;
+}
+
+/**
+ * Index of the line after the frontmatter, or 0 when there is none
+ */
+function skipFrontmatter(lines: Line[]): number {
+  if (lines.length === 0 || lines[0].text.trimEnd() !== '---') return 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].text.trimEnd();
+    if (line === '---' || line === '...') return i + 1;
+  }
+  // Unclosed: not frontmatter after all
+  return 0;
+}
+
+/**
+ * Mask everything inside one run of prose lines that isn't itself prose
+ */
+export function maskInlineMarkdown(text: string): string {
+  return text
+    // Comments: <!-- html --> and %% obsidian %%
+    .replace(/<!--[\s\S]*?-->|%%[\s\S]*?%%/g, blank)
+    // Code spans, with any number of backticks
+    .replace(/(`+)[\s\S]*?\1/g, fill)
+    // Inline math
+    .replace(/\$(?=\S)[^$\n]*\S\$/g, fill)
+    // Embeds and images show no prose of their own
+    .replace(/!\[\[[^\]\n]*\]\]|!\[[^\]\n]*\]\([^)\n]*\)/g, blank)
+    // [[target|alias]] keeps the alias; [[target]] is a page name
+    .replace(/\[\[([^\]|\n]*)(?:\|([^\]\n]*))?\]\]/g, (_match, target: string, alias?: string) =>
+      alias !== undefined
+        ? blank(`[[${target}|`) + alias + blank(']]')
+        : blank('[[') + fill(target) + blank(']]'))
+    // [text](url) keeps the text
+    .replace(/\[([^\]\n]*)\]\(([^)\n]*)\)/g, (_match, label: string, url: string) =>
+      blank('[') + label + blank(`](${url})`))
+    // Autolinks and bare URLs
+    .replace(/<https?:\/\/[^>\s]*>|https?:\/\/[^\s)\]>]+/g, fill)
+    // Tags
+    .replace(/(^|\s)(#[^\s#.,;:!?()[\]{}"']+)/g, (_match, before: string, tag: string) => before + fill(tag));
+}
+
+/**
+ * Prose ranges of a markdown document, split at blank lines and at anything left out
+ */
+export function extractProseRanges(text: string, options: ProseOptions = {}): ProseRange[] {
+  const lines = splitLines(text);
+  const ranges: ProseRange[] = [];
+  let current: Line[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      const start = current[0].start;
+      const joined = current.map(line => line.text).join('\n');
+      if (joined.trim()) {
+        ranges.push({ start, text: maskInlineMarkdown(joined) });
+      }
+    }
+    current = [];
+  };
+
+  let fence: string | null = null;
+  let inMath = false;
+  // Kind of the quote block the previous line belonged to
+  let quote: 'blockquote' | 'callout' | null = null;
+
+  for (let i = skipFrontmatter(lines); i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      const close = line.text.match(FENCE_PATTERN);
+      if (close && close[1][0] === fence[0] && close[1].length >= fence.length && !line.text.slice(close[0].length).trim()) {
+        fence = null;
+      }
+      continue;
+    }
+    if (inMath) {
+      if (line.text.includes('$$')) inMath = false;
+      continue;
+    }
+
+    const open = line.text.match(FENCE_PATTERN);
+    if (open) {
+      flush();
+      fence = open[1];
+      continue;
+    }
+    const trimmed = line.text.trim();
+    if (trimmed.startsWith('$$')) {
+      flush();
+      // A $$ block can open and close on the same line
+      inMath = !(trimmed.length > 2 && trimmed.endsWith('$$'));
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line.text)) {
+      if (quote === null) {
+        flush();
+        quote = CALLOUT_PATTERN.test(line.text) ? 'callout' : 'blockquote';
+      }
+      if ((quote === 'callout' && options.skipCallouts) || (quote === 'blockquote' && options.skipBlockquotes)) {
+        continue;
+      }
+      // Keep the quoted text, not the > markers or the [!type] header
+      const marker = quote === 'callout' && CALLOUT_PATTERN.test(line.text)
+        ? line.text.match(CALLOUT_PATTERN)![0]
+        : line.text.match(/^(?: {0,3}>\s?)+/)![0];
+      const content = line.text.slice(marker.length);
+      if (!content.trim()) {
+        // An empty "> " line separates paragraphs inside the quote
+        flush();
+        continue;
+      }
+      current.push({ start: line.start, text: blank(marker) + content });
+      continue;
+    }
+    if (quote !== null) {
+      flush();
+      quote = null;
+    }
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+
+  return ranges;
+}
@@ -0,0 +1,344 @@
+/**
+ * External MCP servers configured in settings: conversion to the SDK's mcpServers
+ * option, and a connection test that runs the MCP handshake and lists the tools
+ */
+
+import { requestUrl } from 'obsidian';
+import { spawn } from 'child_process';
+import { killProcessTree, trackProcessTree } from './custom-tools';
+import type { SecretStore } from './secret-store';
+
+export type McpServerType = 'stdio' | 'http';
+
+export interface McpServerSetting {
+  id: string;
+  // Key in mcpServers; tools are exposed as mcp__<name>__<tool>
+  name: string;
+  enabled: boolean;
+  type: McpServerType;
+  // stdio
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  // Streamable HTTP
+  url: string;
+  headers: Record<string, string>;
+}
+
+export interface McpTestResult {
+  serverName?: string;
+  serverVersion?: string;
+  tools: string[];
+}
+
+// Names the plugin's own server uses
+const RESERVED_SERVER_NAMES = ['obsidian'];
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const TEST_TIMEOUT_MS = 15000;
+const PROTOCOL_VERSION = '2025-03-26';
+
+export function createMcpServerSetting(): McpServerSetting {
+  return {
+    id: `mcp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: '',
+    enabled: true,
+    type: 'stdio',
+    command: '',
+    args: [],
+    env: {},
+    url: '',
+    headers: {},
+  };
+}
+
+/**
+ * Problem with a server's settings that keeps it from being used, or null
+ */
+export function validateMcpServer(server: McpServerSetting, servers: McpServerSetting[]): string | null {
+  if (!SERVER_NAME_PATTERN.test(server.name)) {
+    return 'Name may only contain letters, numbers, "_" and "-"';
+  }
+  if (RESERVED_SERVER_NAMES.includes(server.name)) {
+    return `"${server.name}" is used by the plugin's built-in tools`;
+  }
+  if (servers.some(other => other !== server && other.name === server.name)) {
+    return `Another server is also named "${server.name}"`;
+  }
+  if (server.type === 'stdio' && !server.command.trim()) {
+    return 'Command is required';
+  }
+  if (server.type === 'http' && !/^https?:\/\//.test(server.url.trim())) {
+    return 'URL must start with http:// or https://';
+  }
+  return null;
+}
+
+/**
+ * Copy of a server with ${secret:NAME} references in its args, env, URL and headers filled in
+ */
+export function resolveServerSecrets(server: McpServerSetting, secrets: SecretStore): McpServerSetting {
+  return {
+    ...server,
+    args: server.args.map(arg => secrets.resolve(arg)),
+    env: secrets.resolveRecord(server.env),
+    url: secrets.resolve(server.url),
+    headers: secrets.resolveRecord(server.headers),
+  };
+}
+
+/**
+ * Enabled, valid servers in the shape queryOptions.mcpServers expects
+ */
+export function buildMcpServerConfigs(servers: McpServerSetting[], secrets: SecretStore): Record<string, any> {
+  const configs: Record<string, any> = {};
+  for (const server of servers) {
+    if (!server.enabled) continue;
+    const problem = validateMcpServer(server, servers);
+    if (problem) {
+      console.warn(`[ObsidianAgent] Skipping MCP server "${server.name}":`, problem);
+      continue;
+    }
+
+    let resolved: McpServerSetting;
+    try {
+      resolved = resolveServerSecrets(server, secrets);
+    } catch (error: any) {
+      console.warn(`[ObsidianAgent] Skipping MCP server "${server.name}":`, error.message);
+      continue;
+    }
+
+    configs[server.name] = resolved.type === 'http'
+      ? { type: 'http', url: resolved.url.trim(), headers: resolved.headers }
+      : { type: 'stdio', command: resolved.command.trim(), args: resolved.args, env: resolved.env };
+  }
+  return configs;
+}
+
+/**
+ * Split an SDK tool name (mcp__github__search_issues) into server and tool
+ */
+export function splitMcpToolName(toolName: string): { server: string; tool: string } | null {
+  const match = toolName.match(/^mcp__(.+?)__(.+)$/);
+  return match ? { server: match[1], tool: match[2] } : null;
+}
+
+/**
+ * Parse "KEY=value" (or "Name: value") lines into a record, skipping blanks and # comments
+ */
+export function parseKeyValueLines(text: string, separator: '=' | ':'): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const index = trimmed.indexOf(separator);
+    if (index <= 0) continue;
+    result[trimmed.slice(0, index).trim()] = trimmed.slice(index + 1).trim();
+  }
+  return result;
+}
+
+export function formatKeyValueLines(values: Record<string, string>, separator: '=' | ':'): string {
+  return Object.entries(values)
+    .map(([key, value]) => separator === ':' ? `${key}: ${value}` : `${key}=${value}`)
+    .join('\n');
+}
+
+type RpcCall = (method: string, params?: Record<string, unknown>) => Promise<any>;
+type RpcNotify = (method: string) => Promise<void>;
+
+/**
+ * initialize → notifications/initialized → tools/list, the same sequence Claude Code runs
+ */
+async function handshake(call: RpcCall, notify: RpcNotify): Promise<McpTestResult> {
+  const init = await call('initialize', {
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'obsidian-agent', version: '1.0.0' },
+  });
+  await notify('notifications/initialized');
+
+  const tools: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await call('tools/list', cursor ? { cursor } : {});
+    tools.push(...(page?.tools ?? []).map((t: any) => t.name));
+    cursor = page?.nextCursor;
+  } while (cursor);
+
+  return {
+    serverName: init?.serverInfo?.name,
+    serverVersion: init?.serverInfo?.version,
+    tools,
+  };
+}
+
+function rpcResult(message: any) {
+  if (message.error) {
+    throw new Error(`${message.error.message || 'Server error'} (code ${message.error.code})`);
+  }
+  return message.result;
+}
+
+function testStdioServer(server: McpServerSetting, cwd: string): Promise<McpTestResult> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(server.command.trim(), server.args, {
+      env: { ...process.env, ...server.env },
+      cwd,
+      // Its own process group, so the server an npx/uvx launcher starts is stopped with it
+      detached: process.platform !== 'win32',
+      windowsHide: true,
+    });
+    trackProcessTree(proc);
+    const pending = new Map<number, (message: any) => void>();
+    let nextId = 1;
+    let buffer = '';
+    let stderr = '';
+    let settled = false;
+
+    const finish = (error: Error | null, result?: McpTestResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      killProcessTree(proc);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+    const withStderr = (message: string) => stderr.trim() ? `${message}: ${stderr.trim().slice(-500)}` : message;
+    const timer = setTimeout(() => finish(new Error(withStderr(`No response within ${TEST_TIMEOUT_MS / 1000}s`))), TEST_TIMEOUT_MS);
+
+    proc.on('error', (error: Error) => finish(error));
+    proc.on('exit', (code: number | null) => finish(new Error(withStderr(`Server exited with code ${code}`))));
+    proc.stdin.on('error', () => { /* reported through exit */ });
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+
+    // Messages are newline-delimited JSON
+    proc.stdout.on('data', (data: Buffer) => {
+      buffer += data.toString();
+      let newline;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        try {
+          const message = JSON.parse(line);
+          pending.get(message.id)?.(message);
+          pending.delete(message.id);
+        } catch {
+          // Not a protocol message (e.g. a stray log line)
+        }
+      }
+    });
+
+    const call: RpcCall = (method, params) => new Promise((resolveCall, rejectCall) => {
+      const id = nextId++;
+      pending.set(id, message => {
+        try {
+          resolveCall(rpcResult(message));
+        } catch (error) {
+          rejectCall(error);
+        }
+      });
+      proc.stdin.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+    const notify: RpcNotify = async (method) => {
+      proc.stdin.write(JSON.stringify({ jsonrpc: '2.0', method }) + '\n');
+    };
+
+    handshake(call, notify).then(result => finish(null, result), error => finish(error));
+  });
+}
+
+/**
+ * Find the response to request `id` in a Streamable HTTP reply, which is either
+ * JSON or an event stream of JSON messages
+ */
+function findHttpResponse(text: string, contentType: string, id: number): any {
+  const messages: any[] = [];
+  if (contentType.includes('text/event-stream')) {
+    for (const event of text.split(/\r?\n\r?\n/)) {
+      const data = event.split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+      if (!data) continue;
+      try {
+        messages.push(JSON.parse(data));
+      } catch {
+        // Ignore events that aren't JSON
+      }
+    }
+  } else {
+    const parsed = JSON.parse(text);
+    messages.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+
+  const response = messages.find(message => message?.id === id);
+  if (!response) {
+    throw new Error('The server replied without a response to the request');
+  }
+  return response;
+}
+
+async function testHttpServer(server: McpServerSetting): Promise<McpTestResult> {
+  const url = server.url.trim();
+  let sessionId: string | undefined;
+  let nextId = 1;
+
+  const post = async (message: Record<string, unknown>) => {
+    const response = await requestUrl({
+      url,
+      method: 'POST',
+      contentType: 'application/json',
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+        ...server.headers,
+      },
+      body: JSON.stringify(message),
+      throw: false,
+    });
+    if (response.status >= 400) {
+      throw new Error(`HTTP ${response.status}${response.text ? `: ${response.text.slice(0, 200)}` : ''}`);
+    }
+    const header = (name: string) => Object.entries(response.headers)
+      .find(([key]) => key.toLowerCase() === name)?.[1];
+    sessionId = header('mcp-session-id') ?? sessionId;
+    return { text: response.text, contentType: header('content-type') ?? '' };
+  };
+
+  const call: RpcCall = async (method, params) => {
+    const id = nextId++;
+    const { text, contentType } = await post({ jsonrpc: '2.0', id, method, params });
+    return rpcResult(findHttpResponse(text, contentType, id));
+  };
+  const notify: RpcNotify = async (method) => {
+    await post({ jsonrpc: '2.0', method });
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No response within ${TEST_TIMEOUT_MS / 1000}s`)), TEST_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([handshake(call, notify), timeout]);
+  } finally {
+    clearTimeout(timer);
+    // End the session so the server can clean up; failures don't matter here
+    if (sessionId) {
+      requestUrl({ url, method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId, ...server.headers }, throw: false })
+        .catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Connect to a server, run the MCP handshake and list its tools
+ */
+export function testMcpServer(server: McpServerSetting, cwd: string): Promise<McpTestResult> {
+  return server.type === 'http' ? testHttpServer(server) : testStdioServer(server, cwd);
+}
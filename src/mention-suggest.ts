@@ -0,0 +1,138 @@
+import { App } from 'obsidian';
+import {
+  ContextMention,
+  MentionSuggestion,
+  findMentionQuery,
+  getMentionSuggestions,
+  mentionIcon,
+  mentionLabel,
+} from './context-mentions';
+
+/**
+ * Autocomplete for @-mentions in the chat textarea. Enter or a click picks the
+ * highlighted item; Tab on a note continues into its headings (`@Note#`).
+ */
+export class MentionSuggest {
+  private popupEl: HTMLElement;
+  private suggestions: MentionSuggestion[] = [];
+  private selected = 0;
+  private active: { start: number; query: string } | null = null;
+  // Suggestions load asynchronously; only the latest request is shown
+  private requestId = 0;
+
+  constructor(
+    private app: App,
+    private textarea: HTMLTextAreaElement,
+    parent: HTMLElement,
+    private onSelect: (mention: ContextMention) => void
+  ) {
+    this.popupEl = parent.createDiv('agent-mention-suggest');
+    this.popupEl.style.display = 'none';
+
+    textarea.addEventListener('input', () => this.update());
+    textarea.addEventListener('click', () => this.update());
+    textarea.addEventListener('blur', () => this.close());
+    // Registered before the chat view's own keydown handler, so Enter picks instead of sending
+    textarea.addEventListener('keydown', (e) => this.handleKeydown(e));
+  }
+
+  isOpen(): boolean {
+    return this.suggestions.length > 0;
+  }
+
+  close() {
+    this.requestId++;
+    this.active = null;
+    this.suggestions = [];
+    this.render();
+  }
+
+  private async update() {
+    const active = findMentionQuery(this.textarea.value, this.textarea.selectionStart);
+    if (!active) {
+      this.close();
+      return;
+    }
+
+    const requestId = ++this.requestId;
+    const suggestions = await getMentionSuggestions(this.app, active.query);
+    if (requestId !== this.requestId) return;
+
+    this.active = active;
+    this.suggestions = suggestions;
+    this.selected = 0;
+    this.render();
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    if (!this.isOpen()) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      this.selected = (this.selected + step + this.suggestions.length) % this.suggestions.length;
+      this.render();
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      const suggestion = this.suggestions[this.selected];
+      if (e.key === 'Tab' && suggestion.continueWith) {
+        this.replaceQuery(`@${suggestion.continueWith}`);
+        this.update();
+      } else {
+        this.choose(suggestion);
+      }
+    } else if (e.key === 'Escape') {
+      this.close();
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopImmediatePropagation();
+  }
+
+  private choose(suggestion: MentionSuggestion) {
+    this.replaceQuery(`@${mentionLabel(suggestion.mention)} `);
+    this.close();
+    this.onSelect(suggestion.mention);
+  }
+
+  /**
+   * Swap the typed `@query` for the given text, leaving the cursor after it
+   */
+  private replaceQuery(text: string) {
+    if (!this.active) return;
+    const { value, selectionStart } = this.textarea;
+    this.textarea.value = value.slice(0, this.active.start) + text + value.slice(selectionStart);
+    const cursor = this.active.start + text.length;
+    this.textarea.setSelectionRange(cursor, cursor);
+    this.textarea.focus();
+  }
+
+  private render() {
+    this.popupEl.empty();
+    this.popupEl.style.display = this.isOpen() ? '' : 'none';
+    if (!this.isOpen()) return;
+
+    this.suggestions.forEach((suggestion, index) => {
+      const item = this.popupEl.createDiv({
+        cls: index === this.selected ? 'agent-mention-item is-selected' : 'agent-mention-item',
+      });
+      item.createSpan({ cls: 'agent-mention-icon', text: mentionIcon(suggestion.mention) });
+      item.createSpan({ cls: 'agent-mention-title', text: suggestion.title });
+      if (suggestion.detail) {
+        item.createSpan({ cls: 'agent-mention-detail', text: suggestion.detail });
+      }
+      // mousedown, so the textarea keeps focus
+      item.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        this.choose(suggestion);
+      });
+      if (index === this.selected) {
+        item.scrollIntoView({ block: 'nearest' });
+      }
+    });
+
+    const hint = this.suggestions[this.selected].continueWith
+      ? '↵ mention · Tab for headings (add #^ for blocks)'
+      : '↵ mention · Esc to dismiss';
+    this.popupEl.createDiv({ cls: 'agent-mention-hint', text: hint });
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Daily/weekly/monthly note resolution that follows Obsidian's Daily Notes
+ * core plugin and the Periodic Notes community plugin
+ */
+
+import { App, TFile, TFolder, moment, normalizePath } from 'obsidian';
+import type { Moment, unitOfTime } from 'moment';
+
+// Obsidian's bundled moment is typed as a namespace import, which TypeScript won't let us call
+const createMoment = moment as unknown as (...args: any[]) => Moment;
+
+export type NotePeriod = 'daily' | 'weekly' | 'monthly';
+
+export interface PeriodicNoteConfig {
+  folder: string;
+  format: string;
+  template: string;
+  source: 'periodic-notes' | 'daily-notes' | 'default';
+}
+
+const DEFAULT_FORMATS: Record<NotePeriod, string> = {
+  daily: 'YYYY-MM-DD',
+  weekly: 'gggg-[W]ww',
+  monthly: 'YYYY-MM',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const EXPLICIT_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'MMMM D, YYYY',
+  'MMMM D YYYY',
+  'MMM D, YYYY',
+  'MMM D YYYY',
+  'D MMMM YYYY',
+  'D MMM YYYY',
+  'MMMM D',
+  'MMM D',
+];
+
+/**
+ * Parse dates like "today", "last Friday", "3 days ago", "next week" or "2025-10-13".
+ * Relative dates use the local timezone. Returns null when the input isn't understood.
+ */
+export function parseNaturalDate(input?: string, now: Moment = createMoment()): Moment | null {
+  const today = now.clone().startOf('day');
+  const text = (input || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (!text || text === 'today' || text === 'now') return today;
+  if (text === 'yesterday') return today.subtract(1, 'day');
+  if (text === 'tomorrow') return today.add(1, 'day');
+
+  const explicit = createMoment(input!.trim(), EXPLICIT_DATE_FORMATS, true);
+  if (explicit.isValid()) return explicit.startOf('day');
+
+  let match = text.match(/^(\d+) (day|week|month|year)s? ago$/);
+  if (match) return today.subtract(parseInt(match[1], 10), match[2] as unitOfTime.DurationConstructor);
+
+  match = text.match(/^in (\d+) (day|week|month|year)s?$/);
+  if (match) return today.add(parseInt(match[1], 10), match[2] as unitOfTime.DurationConstructor);
+
+  match = text.match(/^(last|next|this) (week|month|year)$/);
+  if (match) {
+    const unit = match[2] as unitOfTime.DurationConstructor;
+    const offset = match[1] === 'last' ? -1 : match[1] === 'next' ? 1 : 0;
+    return today.add(offset, unit).startOf(match[2] as unitOfTime.StartOf);
+  }
+
+  match = text.match(/^(?:(last|next|this) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (match) {
+    const target = WEEKDAYS.indexOf(match[2]);
+    const current = today.day();
+    if (match[1] === 'last') {
+      // Most recent occurrence strictly before today
+      const diff = (current - target + 7) % 7 || 7;
+      return today.subtract(diff, 'day');
+    }
+    if (match[1] === 'next') {
+      // Next occurrence strictly after today
+      const diff = (target - current + 7) % 7 || 7;
+      return today.add(diff, 'day');
+    }
+    // "this friday" / "friday": the day within the current week
+    return today.add(target - current, 'day');
+  }
+
+  return null;
+}
+
+/**
+ * Read folder/format/template for a period, preferring Periodic Notes when it is
+ * enabled for that period, then the core Daily Notes plugin (daily only)
+ */
+export async function getPeriodicNoteConfig(app: App, period: NotePeriod): Promise<PeriodicNoteConfig> {
+  // Neither plugin exposes its settings through the public API
+  const periodicPlugin = (app as any).plugins?.getPlugin?.('periodic-notes');
+  const periodicSettings = periodicPlugin?.settings?.[period];
+  if (periodicSettings?.enabled) {
+    return {
+      folder: periodicSettings.folder || '',
+      format: periodicSettings.format || DEFAULT_FORMATS[period],
+      template: periodicSettings.template || '',
+      source: 'periodic-notes',
+    };
+  }
+
+  if (period === 'daily') {
+    let options = (app as any).internalPlugins?.getPluginById?.('daily-notes')?.instance?.options;
+    if (!options) {
+      // Core plugin disabled or not loaded yet: fall back to its saved config file
+      const configPath = normalizePath(`${app.vault.configDir}/daily-notes.json`);
+      try {
+        if (await app.vault.adapter.exists(configPath)) {
+          options = JSON.parse(await app.vault.adapter.read(configPath));
+        }
+      } catch (error) {
+        console.warn('[ObsidianAgent] Could not read daily notes config:', error);
+      }
+    }
+    if (options) {
+      return {
+        folder: options.folder || '',
+        format: options.format || DEFAULT_FORMATS.daily,
+        template: options.template || '',
+        source: 'daily-notes',
+      };
+    }
+  }
+
+  return {
+    folder: '',
+    format: DEFAULT_FORMATS[period],
+    template: '',
+    source: 'default',
+  };
+}
+
+export function getPeriodicNotePath(config: PeriodicNoteConfig, date: Moment): string {
+  const fileName = date.format(config.format);
+  const folder = config.folder.trim().replace(/^\/+|\/+$/g, '');
+  return normalizePath(folder ? `${folder}/${fileName}.md` : `${fileName}.md`);
+}
+
+/**
+ * Fill core Templates-style placeholders: {{title}}, {{date}}, {{time}},
+ * {{date:FORMAT}}, {{time:FORMAT}}, {{yesterday}} and {{tomorrow}}
+ */
+function applyTemplate(app: App, template: string, title: string, date: Moment): string {
+  const templatesOptions = (app as any).internalPlugins?.getPluginById?.('templates')?.instance?.options;
+  const dateFormat = templatesOptions?.dateFormat || 'YYYY-MM-DD';
+  const timeFormat = templatesOptions?.timeFormat || 'HH:mm';
+  const now = createMoment();
+
+  return template
+    .replace(/{{\s*title\s*}}/gi, title)
+    .replace(/{{\s*date\s*(?::\s*([^}]+?))?\s*}}/gi, (_, format) => date.format(format || dateFormat))
+    .replace(/{{\s*time\s*(?::\s*([^}]+?))?\s*}}/gi, (_, format) => now.format(format || timeFormat))
+    .replace(/{{\s*yesterday\s*}}/gi, () => date.clone().subtract(1, 'day').format(dateFormat))
+    .replace(/{{\s*tomorrow\s*}}/gi, () => date.clone().add(1, 'day').format(dateFormat));
+}
+
+async function ensureFolder(app: App, folderPath: string) {
+  if (!folderPath || folderPath === '/') return;
+  const existing = app.vault.getAbstractFileByPath(folderPath);
+  if (existing instanceof TFolder) return;
+  await app.vault.createFolder(folderPath);
+}
+
+/**
+ * Create the note at the configured path, filled from the configured template when there is one
+ */
+export async function createPeriodicNote(app: App, config: PeriodicNoteConfig, date: Moment): Promise<TFile> {
+  const notePath = getPeriodicNotePath(config, date);
+  const title = notePath.split('/').pop()!.replace(/\.md$/, '');
+
+  let content = '';
+  if (config.template) {
+    const templatePath = config.template.trim();
+    const templateFile = app.metadataCache.getFirstLinkpathDest(templatePath, '')
+      || app.vault.getAbstractFileByPath(normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`));
+    if (templateFile instanceof TFile) {
+      content = applyTemplate(app, await app.vault.read(templateFile), title, date);
+    } else {
+      console.warn('[ObsidianAgent] Periodic note template not found:', templatePath);
+    }
+  }
+
+  const parent = notePath.includes('/') ? notePath.slice(0, notePath.lastIndexOf('/')) : '';
+  await ensureFolder(app, parent);
+  return app.vault.create(notePath, content);
+}
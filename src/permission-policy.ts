@@ -0,0 +1,225 @@
+/**
+ * Rules deciding whether the agent may use a tool without asking.
+ * A rule matches on tool name, and optionally on the paths the tool touches
+ * or the Bash command it runs. When several rules match, deny beats ask beats allow.
+ */
+
+import * as path from 'path';
+
+export type PermissionDecision = 'allow' | 'ask' | 'deny';
+
+export interface PermissionRule {
+  id: string;
+  // Tool name or glob, e.g. "Bash", "Write", "mcp__obsidian__*", "*"
+  tool: string;
+  // Glob for vault-relative paths, e.g. ".obsidian/**", "Projects/**", "*.pdf"
+  path: string;
+  // Bash command glob ("git *") or /regex/
+  command: string;
+  decision: PermissionDecision;
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  paths: string[];
+  command?: string;
+}
+
+export interface PermissionResult {
+  decision: PermissionDecision;
+  rule?: PermissionRule;
+}
+
+// Tools that change vault files; these ask by default when edit approval is on
+const EDIT_TOOLS = new Set([
+  'Write',
+  'Edit',
+  'NotebookEdit',
+  'mcp__obsidian__move_note',
+  'mcp__obsidian__rename_note',
+  'mcp__obsidian__copy_note',
+  'mcp__obsidian__delete_note',
+  'mcp__obsidian__create_folder',
+]);
+
+const PATH_KEYS = ['file_path', 'path', 'new_path', 'notebook_path'];
+
+const DECISION_RANK: Record<PermissionDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+export function createPermissionRule(): PermissionRule {
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    tool: '*',
+    path: '',
+    command: '',
+    decision: 'ask',
+  };
+}
+
+/**
+ * Convert a glob to a RegExp: ** spans folders, * and ? stay within one path segment
+ */
+export function globToRegExp(glob: string, segmentWildcards = true): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "dir/**" also matches "dir" itself
+      if (glob[i + 2] === undefined && pattern.endsWith('/')) {
+        pattern = pattern.slice(0, -1) + '(?:/.*)?';
+      } else {
+        pattern += '.*';
+      }
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (char === '*') {
+      pattern += segmentWildcards ? '[^/]*' : '.*';
+    } else if (char === '?') {
+      pattern += segmentWildcards ? '[^/]' : '.';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+export function matchesPathGlob(glob: string, filePath: string): boolean {
+  // Paths outside the vault are kept absolute; only absolute and ** patterns reach them
+  if (/^(?:[a-zA-Z]:)?\//.test(filePath) && !/^(?:[a-zA-Z]:)?\//.test(glob) && !glob.startsWith('**')) {
+    return false;
+  }
+  const regex = globToRegExp(glob.replace(/^\.\//, ''));
+  // Patterns without a folder part (e.g. "*.pdf") match the file name anywhere
+  if (!glob.includes('/')) {
+    return regex.test(filePath) || regex.test(path.posix.basename(filePath));
+  }
+  return regex.test(filePath);
+}
+
+/**
+ * Split a chained command (a && b; c | d & e) into its parts
+ */
+export function splitCommandChain(command: string): string[] {
+  return command.split(/&&|\|\||;|\||&|\n/).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a command runs something its parts don't show ($(...), backticks) or reads and writes files (< >)
+ */
+export function hasSubstitutionOrRedirect(command: string): boolean {
+  return /\$\(|`|[<>]/.test(command);
+}
+
+/**
+ * Match a Bash command pattern against a single command
+ */
+export function matchesCommandPattern(pattern: string, command: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  let regex: RegExp;
+  try {
+    regex = regexMatch ? new RegExp(regexMatch[1], regexMatch[2]) : globToRegExp(pattern.trim(), false);
+  } catch {
+    return false;
+  }
+  return regex.test(command.trim());
+}
+
+/**
+ * A tool's path as the rules see it: vault-relative and normalized ("a/../.obsidian//x" is
+ * ".obsidian/x"), or absolute with forward slashes when it points outside the vault
+ */
+function toRulePath(value: string, vaultPath: string): string {
+  const absolute = path.resolve(vaultPath, value);
+  const fromVault = path.relative(vaultPath, absolute);
+  if (fromVault === '..' || fromVault.startsWith(`..${path.sep}`) || path.isAbsolute(fromVault)) {
+    return absolute.split(path.sep).join('/');
+  }
+  return path.posix.normalize(fromVault.split(path.sep).join('/') || '.');
+}
+
+/**
+ * Pull the vault-relative paths and Bash command a tool call would touch out of its input
+ */
+export function describePermissionRequest(toolName: string, input: Record<string, any>, vaultPath: string): PermissionRequest {
+  const paths: string[] = [];
+  for (const key of PATH_KEYS) {
+    const value = input?.[key];
+    if (typeof value !== 'string' || !value) continue;
+    paths.push(toRulePath(value, vaultPath));
+  }
+
+  // rename_note takes a bare name; its destination sits next to the original
+  const newName = input?.new_name;
+  if (toolName === 'mcp__obsidian__rename_note' && typeof newName === 'string' && newName.trim() && typeof input?.path === 'string') {
+    const name = newName.trim();
+    const extension = path.posix.extname(input.path);
+    const fullName = extension && !name.includes('.') ? `${name}${extension}` : name;
+    paths.push(toRulePath(path.posix.join(path.posix.dirname(input.path.split(path.sep).join('/')), fullName), vaultPath));
+  }
+
+  return {
+    toolName,
+    paths,
+    command: toolName === 'Bash' && typeof input?.command === 'string' ? input.command : undefined,
+  };
+}
+
+/**
+ * The decision a rule gives a request, or null when it doesn't apply. Deny and ask rules
+ * apply when any part of a chained command matches; allow rules must match every part,
+ * and ask instead when they match only some of them or the command hides what it runs.
+ */
+function ruleDecision(rule: PermissionRule, request: PermissionRequest): PermissionDecision | null {
+  if (!globToRegExp(rule.tool.trim() || '*', false).test(request.toolName)) {
+    return null;
+  }
+  if (rule.path.trim() && !request.paths.some(p => matchesPathGlob(rule.path.trim(), p))) {
+    return null;
+  }
+  if (!rule.command.trim()) {
+    return rule.decision;
+  }
+  if (!request.command) {
+    return null;
+  }
+
+  const parts = splitCommandChain(request.command);
+  const matching = parts.filter(part => matchesCommandPattern(rule.command, part));
+  if (rule.decision !== 'allow') {
+    return matching.length > 0 || matchesCommandPattern(rule.command, request.command) ? rule.decision : null;
+  }
+  if (matching.length === 0) {
+    return null;
+  }
+  return matching.length === parts.length && !hasSubstitutionOrRedirect(request.command) ? 'allow' : 'ask';
+}
+
+/**
+ * Decide a tool call. Without a matching rule, edits ask when edit approval is on and everything else is allowed.
+ */
+export function evaluatePermission(
+  rules: PermissionRule[],
+  request: PermissionRequest,
+  requireEditApproval: boolean
+): PermissionResult {
+  let result: PermissionResult | null = null;
+  for (const rule of rules) {
+    const decision = ruleDecision(rule, request);
+    if (!decision) continue;
+    if (!result || DECISION_RANK[decision] > DECISION_RANK[result.decision]) {
+      result = { decision, rule };
+    }
+  }
+
+  if (result) {
+    return result;
+  }
+  return { decision: requireEditApproval && EDIT_TOOLS.has(request.toolName) ? 'ask' : 'allow' };
+}
+
+export function describeRule(rule: PermissionRule): string {
+  const parts = [rule.tool || '*'];
+  if (rule.path) parts.push(`path ${rule.path}`);
+  if (rule.command) parts.push(`command ${rule.command}`);
+  return `${rule.decision} ${parts.join(', ')}`;
+}
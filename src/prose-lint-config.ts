@@ -0,0 +1,157 @@
+/**
+ * Per-folder and per-note prose lint overrides. A note's frontmatter, or a config
+ * note in any parent folder, can carry a `prose-lint` key:
+ *
+ *   prose-lint:
+ *     aiIsms: false
+ *     skipCallouts: true
+ *     allow: [robust, significant]
+ *     ban:
+ *       - phrase: going forward
+ *         reason: Say when
+ *
+ * `prose-lint: false` turns linting off. Overrides apply from the vault root down
+ * to the note, so deeper folders and the note itself win.
+ */
+
+import { App, TFile, getFrontMatterInfo, normalizePath, parseYaml } from 'obsidian';
+import { CustomPhrase, LintCheck, LintOptions, LINT_CHECKS } from './prose-lint';
+
+export const LINT_FRONTMATTER_KEY = 'prose-lint';
+
+type LintToggle = LintCheck | 'skipBlockquotes' | 'skipCallouts';
+const TOGGLE_KEYS: LintToggle[] = [...LINT_CHECKS.map(check => check.key), 'skipBlockquotes', 'skipCallouts'];
+
+export interface LintOverride {
+  enabled?: boolean;
+  checks: Partial<Record<LintToggle, boolean>>;
+  allow: string[];
+  ban: CustomPhrase[];
+  // Note the override came from, for messages
+  source: string;
+}
+
+export interface ResolvedLintOptions {
+  enabled: boolean;
+  options: LintOptions;
+  // Config notes and frontmatter that changed the settings
+  sources: string[];
+  // Note that turned linting off
+  disabledBy?: string;
+}
+
+/**
+ * Read a `prose-lint` frontmatter value; anything unrecognised is ignored
+ */
+export function parseLintOverride(value: unknown, source: string): LintOverride | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') {
+    return { enabled: value, checks: {}, allow: [], ban: [], source };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const raw = value as Record<string, unknown>;
+  const override: LintOverride = { checks: {}, allow: [], ban: [], source };
+
+  if (typeof raw.enabled === 'boolean') {
+    override.enabled = raw.enabled;
+  }
+  for (const key of TOGGLE_KEYS) {
+    if (typeof raw[key] === 'boolean') {
+      override.checks[key] = raw[key] as boolean;
+    }
+  }
+  if (Array.isArray(raw.allow)) {
+    override.allow = raw.allow.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  }
+  if (Array.isArray(raw.ban)) {
+    for (const item of raw.ban) {
+      // Either "phrase" or { phrase, reason, replacement }
+      if (typeof item === 'string' && item.trim()) {
+        override.ban.push({ phrase: item, reason: '' });
+      } else if (item && typeof item.phrase === 'string' && item.phrase.trim()) {
+        override.ban.push({
+          phrase: item.phrase,
+          reason: typeof item.reason === 'string' ? item.reason : '',
+          replacement: typeof item.replacement === 'string' ? item.replacement : undefined,
+        });
+      }
+    }
+  }
+  return override;
+}
+
+/**
+ * The `prose-lint` override in a note's own frontmatter, read from its content
+ * (the metadata cache can lag behind a file that was just written)
+ */
+export function readLintOverride(content: string, source: string): LintOverride | null {
+  const info = getFrontMatterInfo(content);
+  if (!info.exists) return null;
+  try {
+    const frontmatter = parseYaml(info.frontmatter);
+    return parseLintOverride(frontmatter?.[LINT_FRONTMATTER_KEY], source);
+  } catch {
+    return null;
+  }
+}
+
+export function applyLintOverride(resolved: ResolvedLintOptions, override: LintOverride): ResolvedLintOptions {
+  const options: LintOptions = {
+    ...resolved.options,
+    ...override.checks,
+    allowlist: [...(resolved.options.allowlist || []), ...override.allow],
+    customPhrases: [...(resolved.options.customPhrases || []), ...override.ban],
+  };
+  const enabled = override.enabled ?? resolved.enabled;
+  return {
+    enabled,
+    options,
+    sources: [...resolved.sources, override.source],
+    disabledBy: enabled ? undefined : (override.enabled === false ? override.source : resolved.disabledBy),
+  };
+}
+
+/**
+ * Config notes that apply to a vault path, outermost folder first
+ */
+function findConfigNotes(app: App, filePath: string, configNoteName: string): TFile[] {
+  const name = configNoteName.trim().replace(/\.md$/, '');
+  if (!name) return [];
+
+  const folders = normalizePath(filePath).split('/').slice(0, -1);
+  const notes: TFile[] = [];
+  for (let depth = 0; depth <= folders.length; depth++) {
+    const folder = folders.slice(0, depth).join('/');
+    const file = app.vault.getAbstractFileByPath(normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`));
+    if (file instanceof TFile && file.path !== normalizePath(filePath)) {
+      notes.push(file);
+    }
+  }
+  return notes;
+}
+
+/**
+ * Lint options for a note: the plugin settings, then folder config notes, then the
+ * note's frontmatter. Pass the note's content when it's already been read.
+ */
+export async function resolveLintOptions(
+  app: App,
+  base: LintOptions,
+  configNoteName: string,
+  filePath?: string,
+  content?: string
+): Promise<ResolvedLintOptions> {
+  let resolved: ResolvedLintOptions = { enabled: true, options: { ...base }, sources: [] };
+  if (!filePath) return resolved;
+
+  for (const note of findConfigNotes(app, filePath, configNoteName)) {
+    const override = readLintOverride(await app.vault.cachedRead(note), note.path);
+    if (override) {
+      resolved = applyLintOverride(resolved, override);
+    }
+  }
+
+  const own = content !== undefined ? readLintOverride(content, filePath) : null;
+  return own ? applyLintOverride(resolved, own) : resolved;
+}
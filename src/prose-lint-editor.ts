@@ -0,0 +1,315 @@
+/**
+ * Prose lint findings in the note editor: underlines with hover tooltips, and the
+ * quick fixes (apply the replacement, ignore once, add to the allowlist) that the
+ * tooltip, the editor's context menu and the lint panel share
+ */
+
+import { Extension, StateEffect, StateField, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, hoverTooltip } from '@codemirror/view';
+import { MarkdownView, Menu, editorInfoField } from 'obsidian';
+import type ObsidianAgentPlugin from './main';
+import { lintProse, LintSuggestion } from './prose-lint';
+
+// Wait for a pause in typing before linting again
+const LINT_DELAY_MS = 750;
+// The whole note is linted each time, so long notes wait longer: 1s more per 100k characters, up to 5s
+const LINT_DELAY_PER_CHAR_MS = 0.01;
+const MAX_LINT_DELAY_MS = 5000;
+
+export interface EditorLintIssue {
+  // Current positions in the document (mapped through edits since the lint ran)
+  from: number;
+  to: number;
+  suggestion: LintSuggestion;
+}
+
+interface LintFieldValue {
+  issues: DecorationSet;
+  // Issues the user chose to ignore; dropped from later results while the text is unchanged
+  ignored: DecorationSet;
+  // Whether issues are underlined, or only tracked for the lint panel
+  visible: boolean;
+}
+
+const setLintResults = StateEffect.define<{ suggestions: LintSuggestion[]; visible: boolean }>();
+const ignoreIssue = StateEffect.define<{ from: number; to: number }>();
+// Ask the view plugin to lint again, after the given delay
+const requestLint = StateEffect.define<number>();
+
+function issueMark(suggestion: LintSuggestion): Decoration {
+  return Decoration.mark({
+    class: `prose-lint-mark prose-lint-${suggestion.severity}`,
+    suggestion,
+  });
+}
+
+function isIgnored(ignored: DecorationSet, from: number, to: number): boolean {
+  let found = false;
+  ignored.between(from, to, (markFrom, markTo) => {
+    if (markFrom === from && markTo === to) {
+      found = true;
+      return false;
+    }
+  });
+  return found;
+}
+
+const lintField = StateField.define<LintFieldValue>({
+  create: () => ({ issues: Decoration.none, ignored: Decoration.none, visible: false }),
+
+  update(value, tr) {
+    let { issues, ignored, visible } = value;
+    if (tr.docChanged) {
+      issues = issues.map(tr.changes);
+      ignored = ignored.map(tr.changes);
+    }
+
+    for (const effect of tr.effects) {
+      if (effect.is(setLintResults)) {
+        const docLength = tr.state.doc.length;
+        const ranges = effect.value.suggestions
+          .filter(s => s.offset > 0 && s.index + s.offset <= docLength)
+          .filter(s => !isIgnored(ignored, s.index, s.index + s.offset))
+          .map(s => issueMark(s).range(s.index, s.index + s.offset));
+        issues = Decoration.set(ranges, true);
+        visible = effect.value.visible;
+      } else if (effect.is(ignoreIssue)) {
+        const { from, to } = effect.value;
+        ignored = ignored.update({ add: [Decoration.mark({}).range(from, to)], sort: true });
+        issues = issues.update({ filter: (markFrom, markTo) => markFrom !== from || markTo !== to });
+      }
+    }
+
+    return { issues, ignored, visible };
+  },
+
+  provide: field => EditorView.decorations.from(field, value => value.visible ? value.issues : Decoration.none),
+});
+
+/**
+ * Current issues in an editor, in document order
+ */
+export function getLintIssues(view: EditorView): EditorLintIssue[] {
+  const value = view.state.field(lintField, false);
+  if (!value) return [];
+
+  const issues: EditorLintIssue[] = [];
+  const cursor = value.issues.iter();
+  while (cursor.value) {
+    issues.push({ from: cursor.from, to: cursor.to, suggestion: cursor.value.spec.suggestion });
+    cursor.next();
+  }
+  return issues;
+}
+
+function issuesAt(view: EditorView, pos: number): EditorLintIssue[] {
+  return getLintIssues(view).filter(issue => issue.from <= pos && pos <= issue.to);
+}
+
+/**
+ * Where an issue is now, or null once edits have removed it
+ */
+export function findLintIssue(view: EditorView, suggestion: LintSuggestion): EditorLintIssue | null {
+  return getLintIssues(view).find(issue => issue.suggestion === suggestion) ?? null;
+}
+
+export function applyLintFix(view: EditorView, issue: EditorLintIssue) {
+  if (issue.suggestion.replacement === undefined) return;
+  view.dispatch({ changes: { from: issue.from, to: issue.to, insert: issue.suggestion.replacement } });
+}
+
+export function ignoreLintIssue(view: EditorView, issue: EditorLintIssue) {
+  view.dispatch({ effects: ignoreIssue.of({ from: issue.from, to: issue.to }) });
+}
+
+export function issueText(view: EditorView, issue: EditorLintIssue): string {
+  return view.state.sliceDoc(issue.from, issue.to).trim();
+}
+
+/**
+ * Lint an editor again, e.g. after the lint settings change
+ */
+export function requestEditorLint(view: EditorView, delay = LINT_DELAY_MS) {
+  view.dispatch({ effects: requestLint.of(delay) });
+}
+
+/**
+ * The CodeMirror view behind a markdown note
+ */
+export function getEditorView(markdownView: MarkdownView): EditorView | null {
+  return (markdownView.editor as any)?.cm ?? null;
+}
+
+/**
+ * Add quick fixes for the issues at the cursor to the editor's context menu
+ */
+export function addLintMenuItems(menu: Menu, view: EditorView, plugin: ObsidianAgentPlugin) {
+  const issues = issuesAt(view, view.state.selection.main.head);
+  for (const issue of issues) {
+    const text = issueText(view, issue);
+    if (issue.suggestion.replacement !== undefined) {
+      menu.addItem(item => item
+        .setTitle(`Replace with "${issue.suggestion.replacement}"`)
+        .setIcon('wand-2')
+        .setSection('prose-lint')
+        .onClick(() => applyLintFix(view, issue)));
+    }
+    menu.addItem(item => item
+      .setTitle(`Ignore "${text}" here`)
+      .setIcon('eye-off')
+      .setSection('prose-lint')
+      .onClick(() => ignoreLintIssue(view, issue)));
+    menu.addItem(item => item
+      .setTitle(`Add "${text}" to lint allowlist`)
+      .setIcon('check')
+      .setSection('prose-lint')
+      .onClick(() => plugin.allowLintPhrase(text)));
+  }
+}
+
+function createTooltipDom(view: EditorView, issues: EditorLintIssue[], plugin: ObsidianAgentPlugin): HTMLElement {
+  const dom = createDiv({ cls: 'prose-lint-tooltip' });
+  for (const issue of issues) {
+    const { suggestion } = issue;
+    const item = dom.createDiv({ cls: `prose-lint-tooltip-item prose-lint-${suggestion.severity}` });
+    item.createDiv({ cls: 'prose-lint-tooltip-reason', text: suggestion.reason });
+    item.createDiv({ cls: 'prose-lint-tooltip-rule', text: `${suggestion.severity} · ${suggestion.ruleId}` });
+
+    const actions = item.createDiv({ cls: 'prose-lint-tooltip-actions' });
+    if (suggestion.replacement !== undefined) {
+      actions.createEl('button', { text: `Replace with "${suggestion.replacement}"`, cls: 'mod-cta' })
+        .addEventListener('click', () => {
+          const current = findLintIssue(view, suggestion);
+          if (current) applyLintFix(view, current);
+        });
+    }
+    actions.createEl('button', { text: 'Ignore' })
+      .addEventListener('click', () => {
+        const current = findLintIssue(view, suggestion);
+        if (current) ignoreLintIssue(view, current);
+      });
+    actions.createEl('button', { text: 'Allow' })
+      .addEventListener('click', () => {
+        const current = findLintIssue(view, suggestion);
+        if (current) plugin.allowLintPhrase(issueText(view, current));
+      });
+  }
+  return dom;
+}
+
+function lintDelay(doc: Text): number {
+  return Math.min(MAX_LINT_DELAY_MS, LINT_DELAY_MS + Math.round(doc.length * LINT_DELAY_PER_CHAR_MS));
+}
+
+/**
+ * Editor extension that lints the note after each pause in typing
+ */
+export function createProseLintExtension(plugin: ObsidianAgentPlugin): Extension {
+  const linter = ViewPlugin.fromClass(class {
+    private timer: number | null = null;
+    private destroyed = false;
+
+    constructor(private view: EditorView) {
+      this.schedule(LINT_DELAY_MS);
+    }
+
+    update(update: ViewUpdate) {
+      const requested = update.transactions
+        .flatMap(tr => tr.effects)
+        .filter(effect => effect.is(requestLint))
+        .map(effect => effect.value as number);
+      if (requested.length > 0) {
+        this.schedule(Math.min(...requested));
+      } else if (update.docChanged) {
+        this.schedule(lintDelay(update.state.doc));
+      }
+    }
+
+    schedule(delay: number) {
+      if (this.timer !== null) window.clearTimeout(this.timer);
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.run();
+      }, delay);
+    }
+
+    async run() {
+      const view = this.view;
+      const doc = view.state.doc;
+      const file = view.state.field(editorInfoField, false)?.file ?? null;
+
+      let suggestions: LintSuggestion[] = [];
+      if (plugin.shouldLintEditors()) {
+        try {
+          const text = doc.toString();
+          const resolved = await plugin.getLintOptions(file?.path, text);
+          suggestions = resolved.enabled ? lintProse(text, resolved.options) : [];
+        } catch (error) {
+          console.error('[ObsidianAgent] Editor lint error:', error);
+        }
+      } else if (getLintIssues(view).length === 0) {
+        return;
+      }
+
+      // Results for an older version of the note are out of date; the edit scheduled another run
+      if (this.destroyed || view.state.doc !== doc) return;
+      view.dispatch({ effects: setLintResults.of({ suggestions, visible: plugin.settings.editorProseLinting }) });
+      plugin.proseLintEvents.trigger('results', view, file);
+    }
+
+    destroy() {
+      this.destroyed = true;
+      if (this.timer !== null) window.clearTimeout(this.timer);
+    }
+  });
+
+  const tooltip = hoverTooltip((view, pos) => {
+    if (!view.state.field(lintField).visible) return null;
+    const issues = issuesAt(view, pos);
+    if (issues.length === 0) return null;
+    return {
+      pos: Math.min(...issues.map(issue => issue.from)),
+      end: Math.max(...issues.map(issue => issue.to)),
+      above: true,
+      create: () => ({ dom: createTooltipDom(view, issues, plugin) }),
+    };
+  });
+
+  const theme = EditorView.baseTheme({
+    '.prose-lint-mark': {
+      textDecorationLine: 'underline',
+      textDecorationStyle: 'wavy',
+      textDecorationThickness: '1px',
+      textUnderlineOffset: '3px',
+    },
+    '.prose-lint-mark.prose-lint-error': { textDecorationColor: 'var(--text-error)' },
+    '.prose-lint-mark.prose-lint-warning': { textDecorationColor: 'var(--color-orange)' },
+    '.prose-lint-mark.prose-lint-info': { textDecorationColor: 'var(--color-blue)', textDecorationStyle: 'dotted' },
+    '.prose-lint-tooltip': {
+      maxWidth: '360px',
+      padding: '6px 8px',
+      fontSize: '0.85em',
+    },
+    '.prose-lint-tooltip-item + .prose-lint-tooltip-item': {
+      borderTop: '1px solid var(--background-modifier-border)',
+      marginTop: '6px',
+      paddingTop: '6px',
+    },
+    '.prose-lint-tooltip-rule': {
+      color: 'var(--text-muted)',
+      fontSize: '0.85em',
+      margin: '2px 0 4px',
+    },
+    '.prose-lint-tooltip-actions': {
+      display: 'flex',
+      flexWrap: 'wrap',
+      gap: '4px',
+    },
+    '.prose-lint-tooltip-actions button': {
+      padding: '2px 8px',
+      fontSize: '0.9em',
+    },
+  });
+
+  return [lintField, linter, tooltip, theme];
+}
@@ -0,0 +1,269 @@
+import { ItemView, MarkdownView, TFile, WorkspaceLeaf } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
+import ObsidianAgentPlugin from './main';
+import {
+  EditorLintIssue,
+  applyLintFix,
+  findLintIssue,
+  getEditorView,
+  getLintIssues,
+  ignoreLintIssue,
+  issueText,
+  requestEditorLint,
+} from './prose-lint-editor';
+
+export const VIEW_TYPE_PROSE_LINT = 'agent-prose-lint-view';
+
+/**
+ * Sidebar listing the prose lint issues in the active note; it follows the editor's
+ * own (debounced) lint runs, so it never lints on its own while you type
+ */
+export class ProseLintView extends ItemView {
+  private plugin: ObsidianAgentPlugin;
+  private headerEl: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private markdownView: MarkdownView | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ObsidianAgentPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_PROSE_LINT;
+  }
+
+  getDisplayText(): string {
+    return 'Prose Lint';
+  }
+
+  getIcon(): string {
+    return 'spell-check';
+  }
+
+  async onOpen() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('prose-lint-container');
+
+    // Underlining is opt-in; this panel is one place to turn it on
+    const toggleEl = container.createEl('label', { cls: 'prose-lint-toggle' });
+    const checkbox = toggleEl.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.plugin.settings.editorProseLinting;
+    toggleEl.appendText('Underline issues in the editor');
+    checkbox.addEventListener('change', async () => {
+      this.plugin.settings.editorProseLinting = checkbox.checked;
+      await this.plugin.saveSettings();
+      this.plugin.refreshEditorLinting();
+    });
+
+    this.headerEl = container.createDiv('prose-lint-header');
+    this.listEl = container.createDiv('prose-lint-list');
+
+    this.registerEvent(this.plugin.proseLintEvents.on('results', (view: unknown) => {
+      if (this.markdownView && view === getEditorView(this.markdownView)) {
+        this.render();
+      }
+    }));
+    // Follow the note being edited; clicks in this panel keep the last one
+    this.registerEvent(this.app.workspace.on('active-leaf-change', () => {
+      const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+      if (active && active !== this.markdownView) {
+        this.showNote(active);
+      }
+    }));
+
+    this.addStyles();
+    const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (active) {
+      this.showNote(active);
+    } else {
+      this.render();
+    }
+  }
+
+  /**
+   * Show a note's issues, linting it right away
+   */
+  showNote(markdownView: MarkdownView) {
+    this.markdownView = markdownView;
+    const view = getEditorView(markdownView);
+    if (view) {
+      this.render();
+      requestEditorLint(view, 0);
+    }
+  }
+
+  private render() {
+    if (!this.headerEl || !this.listEl) return;
+    this.headerEl.empty();
+    this.listEl.empty();
+
+    const view = this.markdownView ? getEditorView(this.markdownView) : null;
+    const file: TFile | null = this.markdownView?.file ?? null;
+    if (!view || !file) {
+      this.listEl.createDiv({ cls: 'prose-lint-empty', text: 'Open a note to see its prose issues' });
+      return;
+    }
+
+    const issues = getLintIssues(view);
+    this.headerEl.createDiv({ cls: 'prose-lint-file', text: file.basename });
+    this.headerEl.createDiv({
+      cls: 'prose-lint-count',
+      text: issues.length === 0 ? 'No issues' : `${issues.length} issue(s)`,
+    });
+
+    for (const issue of issues) {
+      this.renderIssue(this.listEl, view, issue);
+    }
+  }
+
+  private renderIssue(parent: HTMLElement, view: EditorView, issue: EditorLintIssue) {
+    const { suggestion } = issue;
+    const line = view.state.doc.lineAt(issue.from);
+    const itemEl = parent.createDiv(`prose-lint-item prose-lint-${suggestion.severity}`);
+
+    const locationEl = itemEl.createDiv({
+      cls: 'prose-lint-location',
+      text: `Line ${line.number}:${issue.from - line.from + 1} · ${suggestion.severity}`,
+    });
+    locationEl.createSpan({ cls: 'prose-lint-rule', text: suggestion.ruleId });
+    itemEl.createDiv({ cls: 'prose-lint-reason', text: suggestion.reason });
+
+    itemEl.addEventListener('click', () => this.reveal(view, issue));
+
+    const actionsEl = itemEl.createDiv('prose-lint-actions');
+    if (suggestion.replacement !== undefined) {
+      this.addButton(actionsEl, `Replace with "${suggestion.replacement}"`, () => {
+        const current = findLintIssue(view, suggestion);
+        if (current) applyLintFix(view, current);
+      });
+    }
+    this.addButton(actionsEl, 'Ignore', () => {
+      const current = findLintIssue(view, suggestion);
+      if (current) {
+        ignoreLintIssue(view, current);
+        this.render();
+      }
+    });
+    this.addButton(actionsEl, 'Allow', () => {
+      const current = findLintIssue(view, suggestion);
+      if (current) this.plugin.allowLintPhrase(issueText(view, current));
+    });
+  }
+
+  private addButton(parent: HTMLElement, text: string, action: () => void) {
+    const button = parent.createEl('button', { text });
+    button.addEventListener('click', (e) => {
+      // Don't also jump to the issue
+      e.stopPropagation();
+      action();
+    });
+  }
+
+  /**
+   * Select the issue in its note
+   */
+  private reveal(view: EditorView, issue: EditorLintIssue) {
+    const current = findLintIssue(view, issue.suggestion);
+    if (!current || !this.markdownView) return;
+    this.app.workspace.setActiveLeaf(this.markdownView.leaf, { focus: true });
+    view.dispatch({
+      selection: { anchor: current.from, head: current.to },
+      scrollIntoView: true,
+    });
+    view.focus();
+  }
+
+  addStyles() {
+    if (document.getElementById('prose-lint-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'prose-lint-styles';
+    style.textContent = `
+      .prose-lint-container {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 12px;
+      }
+
+      .prose-lint-toggle {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        color: var(--text-muted);
+        font-size: 0.85em;
+      }
+
+      .prose-lint-file {
+        font-weight: 600;
+        overflow-wrap: anywhere;
+      }
+
+      .prose-lint-count,
+      .prose-lint-empty {
+        color: var(--text-muted);
+        font-size: 0.85em;
+      }
+
+      .prose-lint-empty {
+        font-style: italic;
+        padding: 8px;
+      }
+
+      .prose-lint-list {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        overflow-y: auto;
+      }
+
+      .prose-lint-item {
+        padding: 6px 10px;
+        border: 1px solid var(--background-modifier-border);
+        border-left: 3px solid var(--color-blue);
+        border-radius: 6px;
+        background: var(--background-secondary);
+        cursor: pointer;
+      }
+
+      .prose-lint-item.prose-lint-warning {
+        border-left-color: var(--color-orange);
+      }
+
+      .prose-lint-item.prose-lint-error {
+        border-left-color: var(--text-error);
+      }
+
+      .prose-lint-location {
+        display: flex;
+        justify-content: space-between;
+        gap: 6px;
+        font-size: 0.8em;
+        color: var(--text-muted);
+      }
+
+      .prose-lint-rule {
+        font-family: var(--font-monospace);
+      }
+
+      .prose-lint-reason {
+        margin: 2px 0 6px;
+        overflow-wrap: anywhere;
+      }
+
+      .prose-lint-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+      }
+
+      .prose-lint-actions button {
+        padding: 2px 10px;
+        font-size: 0.8em;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+}
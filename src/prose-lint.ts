@@ -3,14 +3,28 @@
  */
 
 import writeGood from 'write-good';
+import { extractProseRanges } from './markdown-prose';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
 
 export interface LintSuggestion {
   index: number;
   offset: number;
+  // 1-based position of the first flagged character
+  line: number;
+  column: number;
+  // e.g. "write-good/passive", "ai-ism/delve", "custom/going-forward"
+  ruleId: string;
+  severity: LintSeverity;
   reason: string;
-  type: 'write-good' | 'ai-ism';
+  type: 'write-good' | 'ai-ism' | 'custom';
+  // Text to put in place of the flagged text, when there is one obvious fix
+  replacement?: string;
 }
 
+// What the checks report; line and column are worked out once at the end
+type Finding = Omit<LintSuggestion, 'line' | 'column'>;
+
 // AI-isms: words and phrases commonly overused by AI language models
 const AI_ISMS: Array<{ pattern: RegExp; reason: string }> = [
   // ===== SINGLE WORDS =====
@@ -401,11 +415,38 @@ const AI_ISMS: Array<{ pattern: RegExp; reason: string }> = [
   { pattern: /\bunpack(s|ed|ing)? the\b/gi, reason: '"unpack the X" is academic AI-speak - just analyze it' },
 ];
 
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'phrase';
+}
+
+/**
+ * Match the capitalisation of the text being replaced
+ */
+function matchCase(replacement: string, original: string): string {
+  if (/^[A-Z]/.test(original) && /^[a-z]/.test(replacement)) {
+    return replacement[0].toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * A fix for reasons that name exactly one alternative ('"utilize" ... - just say "use"'),
+ * offered only when the flagged text is the word the reason is about
+ */
+function suggestedReplacement(flagged: string, reason: string): string | undefined {
+  const match = reason.match(/^"([^"]+)".* - (?:just say|consider|try) "([^"]+)"$/);
+  if (!match || !flagged.toLowerCase().startsWith(match[1].toLowerCase())) return undefined;
+  // Keep trailing punctuation the pattern matched ("Firstly, " → "First, ")
+  const rest = flagged.slice(match[1].length);
+  if (/^\w/.test(rest)) return undefined;
+  return matchCase(match[2], flagged) + rest;
+}
+
 /**
  * Check text for AI-isms (words and phrases overused by AI)
  */
-function checkAiIsms(text: string): LintSuggestion[] {
-  const suggestions: LintSuggestion[] = [];
+function checkAiIsms(text: string): Finding[] {
+  const suggestions: Finding[] = [];
 
   for (const { pattern, reason } of AI_ISMS) {
     // Reset regex state
@@ -416,8 +457,11 @@ function checkAiIsms(text: string): LintSuggestion[] {
       suggestions.push({
         index: match.index,
         offset: match[0].length,
+        ruleId: `ai-ism/${slugify(reason.match(/^"([^"]+)"/)?.[1] ?? 'construction')}`,
+        severity: 'warning',
         reason,
         type: 'ai-ism',
+        replacement: suggestedReplacement(match[0], reason),
       });
     }
   }
@@ -425,6 +469,25 @@ function checkAiIsms(text: string): LintSuggestion[] {
   return suggestions;
 }
 
+export type LintCheck =
+  | 'passive'
+  | 'illusion'
+  | 'so'
+  | 'thereIs'
+  | 'weasel'
+  | 'adverb'
+  | 'tooWordy'
+  | 'cliches'
+  | 'eprime'
+  | 'aiIsms';
+
+// A user-banned word or phrase; /regex/ patterns are allowed
+export interface CustomPhrase {
+  phrase: string;
+  reason: string;
+  replacement?: string;
+}
+
 export interface LintOptions {
   // write-good options
   passive?: boolean;
@@ -438,9 +501,29 @@ export interface LintOptions {
   eprime?: boolean;
   // Custom options
   aiIsms?: boolean;
+  customPhrases?: CustomPhrase[];
+  // Words and phrases never reported, whichever check flags them
+  allowlist?: string[];
+  // Markdown handling: quoted material is often someone else's prose
+  skipBlockquotes?: boolean;
+  skipCallouts?: boolean;
 }
 
-const DEFAULT_OPTIONS: LintOptions = {
+// Labels for the settings tab
+export const LINT_CHECKS: Array<{ key: LintCheck; name: string; description: string }> = [
+  { key: 'passive', name: 'Passive voice', description: '"was written", "is being done"' },
+  { key: 'illusion', name: 'Repeated words', description: '"the the" and other lexical illusions' },
+  { key: 'so', name: 'Leading "so"', description: 'Sentences that start with "So"' },
+  { key: 'thereIs', name: 'Leading "there is"', description: 'Sentences that start with "There is" or "There are"' },
+  { key: 'weasel', name: 'Weasel words', description: '"very", "quite", "several"' },
+  { key: 'adverb', name: 'Adverbs', description: 'Adverbs that can weaken meaning (noisy)' },
+  { key: 'tooWordy', name: 'Wordy phrases', description: '"in order to", "a number of"' },
+  { key: 'cliches', name: 'Clichés', description: 'Common clichés' },
+  { key: 'eprime', name: 'E-Prime', description: 'Any form of "to be" (very strict)' },
+  { key: 'aiIsms', name: 'AI-isms', description: 'Words and constructions overused by AI models' },
+];
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
   passive: true,
   illusion: true,
   so: true,
@@ -451,14 +534,137 @@ const DEFAULT_OPTIONS: LintOptions = {
   cliches: true,
   eprime: false,  // Too strict for most users
   aiIsms: true,
+  skipBlockquotes: true,
+  skipCallouts: false,
 };
 
+// write-good only reports a reason, which ends with the check's explanation
+const WRITE_GOOD_RULES: Array<{ check: LintCheck; explanation: string; severity: LintSeverity }> = [
+  { check: 'illusion', explanation: 'is repeated', severity: 'error' },
+  { check: 'tooWordy', explanation: 'is wordy or unneeded', severity: 'warning' },
+  { check: 'cliches', explanation: 'is a cliche', severity: 'warning' },
+  { check: 'passive', explanation: 'may be passive voice', severity: 'info' },
+  { check: 'weasel', explanation: 'is a weasel word', severity: 'info' },
+  { check: 'adverb', explanation: 'can weaken meaning', severity: 'info' },
+  { check: 'so', explanation: 'adds no meaning', severity: 'info' },
+  { check: 'thereIs', explanation: 'is unnecessary verbiage', severity: 'info' },
+  { check: 'eprime', explanation: 'is a form of \'to be\'', severity: 'info' },
+];
+
+function writeGoodFinding(s: { index: number; offset: number; reason: string }): Finding {
+  // Reasons look like '"text" explanation', with " and explanation" added for each
+  // other check that flagged the same text; the first one names the rule
+  const explanation = s.reason.slice(s.offset + 3);
+  const rule = WRITE_GOOD_RULES.find(r => explanation.startsWith(r.explanation));
+
+  return {
+    index: s.index,
+    offset: s.offset,
+    ruleId: `write-good/${rule?.check ?? 'style'}`,
+    severity: rule?.severity ?? 'info',
+    reason: s.reason,
+    type: 'write-good',
+  };
+}
+
+/**
+ * Offsets where each line starts
+ */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * 1-based line and column of a position
+ */
+function locate(starts: number[], index: number): { line: number; column: number } {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= index) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: index - starts[low] + 1 };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a custom phrase as whole words, ignoring case and treating any whitespace as a space
+ */
+function phraseToRegExp(phrase: string): RegExp | null {
+  const regexMatch = phrase.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    if (regexMatch) {
+      const flags = regexMatch[2].includes('g') ? regexMatch[2] : regexMatch[2] + 'g';
+      return new RegExp(regexMatch[1], flags);
+    }
+    const words = phrase.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+    if (words.length === 0) return null;
+    // \b only works next to word characters, so "C++" or "..." match without it
+    const start = /^\w/.test(words[0]) ? '\\b' : '';
+    const end = /\w$/.test(words[words.length - 1]) ? '\\b' : '';
+    return new RegExp(`${start}${words.join('\\s+')}${end}`, 'gi');
+  } catch {
+    return null;
+  }
+}
+
+function checkCustomPhrases(text: string, phrases: CustomPhrase[]): Finding[] {
+  const suggestions: Finding[] = [];
+
+  for (const { phrase, reason, replacement } of phrases) {
+    const pattern = phraseToRegExp(phrase);
+    if (!pattern) continue;
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      // Zero-length regex matches would loop forever
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      suggestions.push({
+        index: match.index,
+        offset: match[0].length,
+        ruleId: `custom/${slugify(phrase)}`,
+        severity: 'error',
+        reason: reason || `"${match[0]}" is on your list of banned phrases`,
+        type: 'custom',
+        replacement: replacement ? matchCase(replacement, match[0]) : undefined,
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Whether the flagged text contains an allowlisted word or phrase
+ */
+function isAllowed(flagged: string, allowlist: RegExp[]): boolean {
+  return allowlist.some(pattern => {
+    pattern.lastIndex = 0;
+    return pattern.test(flagged);
+  });
+}
+
 /**
  * Lint prose text for style issues
  */
 export function lintProse(text: string, options: LintOptions = {}): LintSuggestion[] {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const suggestions: LintSuggestion[] = [];
+  const opts = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const suggestions: Finding[] = [];
 
   // Run write-good checks
   const writeGoodOpts: Record<string, boolean> = {};
@@ -468,32 +674,81 @@ export function lintProse(text: string, options: LintOptions = {}): LintSuggesti
     }
   }
 
-  const writeGoodSuggestions = writeGood(text, writeGoodOpts);
-  for (const s of writeGoodSuggestions) {
-    suggestions.push({
-      index: s.index,
-      offset: s.offset,
-      reason: s.reason,
-      type: 'write-good',
-    });
-  }
+  // Lint each stretch of prose on its own, so matches never run into code or
+  // frontmatter, then shift positions back into the whole document
+  const ranges = extractProseRanges(text, { skipBlockquotes: opts.skipBlockquotes, skipCallouts: opts.skipCallouts });
+  for (const range of ranges) {
+    const found: Finding[] = [];
+
+    for (const s of writeGood(range.text, writeGoodOpts)) {
+      found.push(writeGoodFinding(s));
+    }
 
-  // Run AI-ism checks
-  if (opts.aiIsms) {
-    const aiSuggestions = checkAiIsms(text);
-    suggestions.push(...aiSuggestions);
+    // Run AI-ism checks
+    if (opts.aiIsms) {
+      found.push(...checkAiIsms(range.text));
+    }
+
+    if (opts.customPhrases && opts.customPhrases.length > 0) {
+      found.push(...checkCustomPhrases(range.text, opts.customPhrases));
+    }
+
+    for (const suggestion of found) {
+      suggestions.push({ ...suggestion, index: suggestion.index + range.start });
+    }
   }
 
+  const allowlist = (opts.allowlist || [])
+    .map(phraseToRegExp)
+    .filter((pattern): pattern is RegExp => pattern !== null);
+  const reported = allowlist.length > 0
+    ? suggestions.filter(s => !isAllowed(text.slice(s.index, s.index + s.offset), allowlist))
+    : suggestions;
+
   // Sort by position in text
-  suggestions.sort((a, b) => a.index - b.index);
+  reported.sort((a, b) => a.index - b.index);
 
-  return suggestions;
+  const starts = lineStarts(text);
+  return reported.map(s => ({ ...s, ...locate(starts, s.index) }));
+}
+
+export interface LintPage {
+  // Issues to skip
+  offset?: number;
+  // Issues to show (default 15)
+  limit?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 15;
+const CONTEXT_CHARS = 30;
+
+/**
+ * The flagged text with some of the line around it, the flagged part in «»
+ */
+function suggestionContext(text: string, suggestion: LintSuggestion): string {
+  const end = suggestion.index + suggestion.offset;
+  const lineStart = text.lastIndexOf('\n', suggestion.index - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const start = Math.max(lineStart, suggestion.index - CONTEXT_CHARS);
+  const stop = Math.min(lineEnd, end + CONTEXT_CHARS);
+
+  const oneLine = (part: string) => part.replace(/\s+/g, ' ');
+  let context = `${oneLine(text.slice(start, suggestion.index))}«${oneLine(text.slice(suggestion.index, end))}»${oneLine(text.slice(end, stop))}`;
+  if (start > lineStart) context = '...' + context;
+  if (stop < lineEnd) context = context + '...';
+  return context.trim();
+}
+
+function pageBounds(total: number, page: LintPage): { first: number; last: number } {
+  const first = Math.min(Math.max(0, page.offset ?? 0), total);
+  const last = Math.min(total, first + Math.max(1, page.limit ?? DEFAULT_PAGE_SIZE));
+  return { first, last };
 }
 
 /**
  * Format lint suggestions as a readable summary for the agent
  */
-export function formatLintSummary(text: string, suggestions: LintSuggestion[]): string {
+export function formatLintSummary(text: string, suggestions: LintSuggestion[], page: LintPage = {}): string {
   if (suggestions.length === 0) {
     return 'No prose issues detected.';
   }
@@ -501,34 +756,64 @@ export function formatLintSummary(text: string, suggestions: LintSuggestion[]):
   // Group by type
   const writeGoodCount = suggestions.filter(s => s.type === 'write-good').length;
   const aiIsmCount = suggestions.filter(s => s.type === 'ai-ism').length;
+  const customCount = suggestions.filter(s => s.type === 'custom').length;
 
   let summary = `Found ${suggestions.length} prose issue(s)`;
-  if (writeGoodCount > 0 && aiIsmCount > 0) {
-    summary += ` (${writeGoodCount} style, ${aiIsmCount} AI-isms)`;
-  } else if (aiIsmCount > 0) {
-    summary += ` (${aiIsmCount} AI-isms)`;
+  const counts = [
+    writeGoodCount > 0 ? `${writeGoodCount} style` : '',
+    aiIsmCount > 0 ? `${aiIsmCount} AI-isms` : '',
+    customCount > 0 ? `${customCount} banned phrases` : '',
+  ].filter(Boolean);
+  if (counts.length > 1 || (counts.length === 1 && writeGoodCount === 0)) {
+    summary += ` (${counts.join(', ')})`;
+  }
+
+  const { first, last } = pageBounds(suggestions.length, page);
+  if (first >= last) {
+    return `${summary}. No more issues after offset ${first}.`;
+  }
+  if (first > 0 || last < suggestions.length) {
+    summary += `, showing ${first + 1}-${last}`;
   }
   summary += ':\n\n';
 
   // Show each issue with context
-  for (const suggestion of suggestions.slice(0, 15)) { // Limit to first 15
-    const start = Math.max(0, suggestion.index - 20);
-    const end = Math.min(text.length, suggestion.index + suggestion.offset + 20);
-
-    let context = text.slice(start, end);
-    if (start > 0) context = '...' + context;
-    if (end < text.length) context = context + '...';
-
-    // Highlight the issue
-    const issueText = text.slice(suggestion.index, suggestion.index + suggestion.offset);
-
-    const typeLabel = suggestion.type === 'ai-ism' ? '[AI-ism]' : '[Style]';
-    summary += `${typeLabel} "${issueText}": ${suggestion.reason}\n`;
+  for (const suggestion of suggestions.slice(first, last)) {
+    const typeLabel = suggestion.type === 'ai-ism' ? '[AI-ism]' : suggestion.type === 'custom' ? '[Banned]' : '[Style]';
+    summary += `Line ${suggestion.line}:${suggestion.column} ${suggestion.severity} ${typeLabel} ${suggestion.reason}`;
+    if (suggestion.replacement !== undefined) {
+      summary += ` → "${suggestion.replacement}"`;
+    }
+    summary += `\n    ${suggestionContext(text, suggestion)}\n`;
   }
 
-  if (suggestions.length > 15) {
-    summary += `\n... and ${suggestions.length - 15} more issues.`;
+  if (last < suggestions.length) {
+    summary += `\n${suggestions.length - last} more issue(s). Call lint_prose with offset ${last} to see them.`;
   }
 
   return summary;
 }
+
+/**
+ * Suggestions as plain data, for the lint_prose tool's JSON output
+ */
+export function formatLintJson(text: string, suggestions: LintSuggestion[], page: LintPage = {}) {
+  const { first, last } = pageBounds(suggestions.length, page);
+  return {
+    total: suggestions.length,
+    offset: first,
+    issues: suggestions.slice(first, last).map(s => ({
+      line: s.line,
+      column: s.column,
+      index: s.index,
+      length: s.offset,
+      text: text.slice(s.index, s.index + s.offset),
+      ruleId: s.ruleId,
+      severity: s.severity,
+      type: s.type,
+      reason: s.reason,
+      ...(s.replacement !== undefined ? { replacement: s.replacement } : {}),
+    })),
+    ...(last < suggestions.length ? { nextOffset: last } : {}),
+  };
+}
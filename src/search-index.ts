@@ -0,0 +1,439 @@
+/**
+ * Incremental in-memory inverted index for vault search with BM25 ranking
+ */
+
+import { App, TFile, getAllTags } from 'obsidian';
+
+interface IndexedDocument {
+  path: string;
+  basename: string;
+  content: string;
+  length: number;
+  termFreqs: Map<string, number>;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  regexes: RegExp[];
+  pathFilters: string[];
+  tagFilters: string[];
+  fieldFilters: Array<{ field: string; value: string }>;
+}
+
+export interface SearchHit {
+  path: string;
+  score: number;
+  matches: Array<{ line: number; text: string }>;
+  totalMatches: number;
+}
+
+export interface SearchResults {
+  total: number;
+  offset: number;
+  hits: SearchHit[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+  maxMatchesPerFile?: number;
+}
+
+// BM25 tuning constants (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Extra weight when a query term appears in the note's file name
+const TITLE_BOOST = 1.5;
+// Extra weight per exact phrase occurrence
+const PHRASE_BOOST = 2;
+// How many removed notes keep their content available for undo
+const MAX_RECENTLY_REMOVED = 200;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Parse a search string into free terms, "quoted phrases", /regexes/ and filters.
+ * Supported filters: path:folder, tag:#tag and frontmatter fields (e.g. status:draft).
+ * Filter values may be quoted: path:"Reading Notes". Any other key:value for which
+ * isField is false (e.g. 10:30 or TODO:fix) is searched as plain text.
+ */
+export function parseSearchQuery(input: string, isField: (key: string) => boolean = () => true): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    regexes: [],
+    pathFilters: [],
+    tagFilters: [],
+    fieldFilters: [],
+  };
+
+  const tokenPattern = /([\w-]+):"([^"]*)"|([\w-]+):(?!\/\/)(\S+)|"([^"]+)"|\/((?:\\.|[^\/\\])+)\/([gimsuy]*)|(\S+)/g;
+  let match;
+  while ((match = tokenPattern.exec(input)) !== null) {
+    const [, quotedKey, quotedValue, key, value, phrase, regexSource, regexFlags, word] = match;
+    const filterKey = quotedKey || key;
+    const filterValue = quotedKey ? quotedValue : value;
+
+    if (filterKey) {
+      const normalizedKey = filterKey.toLowerCase();
+      if (normalizedKey === 'path') {
+        parsed.pathFilters.push(filterValue.toLowerCase());
+      } else if (normalizedKey === 'tag') {
+        parsed.tagFilters.push(filterValue.replace(/^#/, '').toLowerCase());
+      } else if (isField(filterKey)) {
+        parsed.fieldFilters.push({ field: filterKey, value: filterValue.toLowerCase() });
+      } else if (quotedKey) {
+        parsed.terms.push(...tokenize(filterKey));
+        parsed.phrases.push(filterValue.toLowerCase());
+        parsed.terms.push(...tokenize(filterValue));
+      } else {
+        parsed.terms.push(...tokenize(match[0]));
+      }
+    } else if (phrase) {
+      parsed.phrases.push(phrase.toLowerCase());
+      parsed.terms.push(...tokenize(phrase));
+    } else if (regexSource) {
+      // Drop the global/sticky flags; matching is done line by line
+      const flags = regexFlags.replace(/[gy]/g, '');
+      parsed.regexes.push(new RegExp(regexSource, flags));
+    } else if (word) {
+      parsed.terms.push(...tokenize(word));
+    }
+  }
+
+  parsed.terms = [...new Set(parsed.terms)];
+  return parsed;
+}
+
+export class VaultSearchIndex {
+  private app: App;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map();
+  private totalLength = 0;
+  private buildPromise: Promise<void> | null = null;
+  // Content of recently deleted or renamed notes, so changes made outside Obsidian can still be undone
+  private recentlyRemoved: Map<string, string> = new Map();
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * Build the index once; later calls return the same promise
+   */
+  ensureBuilt(): Promise<void> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.build();
+    }
+    return this.buildPromise;
+  }
+
+  private async build() {
+    const start = Date.now();
+    const files = this.app.vault.getMarkdownFiles();
+    for (const file of files) {
+      await this.indexFile(file);
+    }
+    console.log(`[ObsidianAgent] Search index built: ${files.length} notes in ${Date.now() - start}ms`);
+  }
+
+  // Vault events are ignored until the first search builds the index; events that
+  // arrive mid-build wait for it so they are applied on top of the initial pass.
+
+  /**
+   * Re-index a file after it was created or modified
+   */
+  async updateFile(file: TFile) {
+    if (!this.buildPromise || file.extension !== 'md') return;
+    await this.buildPromise;
+    await this.indexFile(file);
+  }
+
+  async renameFile(file: TFile, oldPath: string) {
+    if (!this.buildPromise) return;
+    await this.buildPromise;
+    this.removePath(oldPath);
+    if (file.extension === 'md') {
+      await this.indexFile(file);
+    }
+  }
+
+  async deleteFile(filePath: string) {
+    if (!this.buildPromise) return;
+    await this.buildPromise;
+    this.removePath(filePath);
+  }
+
+  /**
+   * Last indexed content of a note, including notes removed from the vault recently
+   */
+  getContent(filePath: string): string | undefined {
+    return this.documents.get(filePath)?.content ?? this.recentlyRemoved.get(filePath);
+  }
+
+  private removePath(filePath: string) {
+    const doc = this.documents.get(filePath);
+    if (!doc) return;
+
+    this.recentlyRemoved.delete(filePath);
+    this.recentlyRemoved.set(filePath, doc.content);
+    if (this.recentlyRemoved.size > MAX_RECENTLY_REMOVED) {
+      this.recentlyRemoved.delete(this.recentlyRemoved.keys().next().value as string);
+    }
+
+    for (const term of doc.termFreqs.keys()) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(filePath);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.totalLength -= doc.length;
+    this.documents.delete(filePath);
+  }
+
+  private async indexFile(file: TFile) {
+    let content: string;
+    try {
+      content = await this.app.vault.cachedRead(file);
+    } catch (error) {
+      console.warn('[ObsidianAgent] Could not index file:', file.path, error);
+      return;
+    }
+
+    this.removePath(file.path);
+
+    const tokens = tokenize(content);
+    const termFreqs = new Map<string, number>();
+    for (const token of tokens) {
+      termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+    }
+
+    for (const [term, freq] of termFreqs) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(file.path, freq);
+    }
+
+    this.documents.set(file.path, {
+      path: file.path,
+      basename: file.basename.toLowerCase(),
+      content,
+      length: tokens.length,
+      termFreqs,
+    });
+    this.totalLength += tokens.length;
+  }
+
+  async search(queryText: string, options: SearchOptions = {}): Promise<SearchResults> {
+    await this.ensureBuilt();
+
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const maxMatchesPerFile = options.maxMatchesPerFile ?? 5;
+    const parsed = parseSearchQuery(queryText, this.frontmatterKeyLookup());
+
+    const scored: Array<{ doc: IndexedDocument; score: number }> = [];
+    for (const doc of this.candidates(parsed)) {
+      if (!this.passesFilters(doc, parsed)) continue;
+
+      const lowerContent = doc.content.toLowerCase();
+      let phraseHits = 0;
+      let phrasesOk = true;
+      for (const phrase of parsed.phrases) {
+        const count = countOccurrences(lowerContent, phrase);
+        if (count === 0) {
+          phrasesOk = false;
+          break;
+        }
+        phraseHits += count;
+      }
+      if (!phrasesOk) continue;
+
+      let regexHits = 0;
+      let regexesOk = true;
+      for (const regex of parsed.regexes) {
+        const count = countRegexMatches(doc.content, regex);
+        if (count === 0) {
+          regexesOk = false;
+          break;
+        }
+        regexHits += count;
+      }
+      if (!regexesOk) continue;
+
+      const score = this.bm25(doc, parsed.terms) + phraseHits * PHRASE_BOOST + Math.log1p(regexHits);
+      scored.push({ doc, score });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.doc.path.localeCompare(b.doc.path));
+
+    const hits = scored.slice(offset, offset + limit).map(({ doc, score }) => {
+      const lineMatches = this.matchingLines(doc, parsed);
+      return {
+        path: doc.path,
+        score,
+        matches: lineMatches.slice(0, maxMatchesPerFile),
+        totalMatches: lineMatches.length,
+      };
+    });
+
+    return { total: scored.length, offset, hits };
+  }
+
+  /**
+   * Documents containing every query term; all documents when the query has no terms
+   */
+  private candidates(parsed: ParsedSearchQuery): IndexedDocument[] {
+    if (parsed.terms.length === 0) {
+      return [...this.documents.values()];
+    }
+
+    // Intersect starting from the rarest term
+    const postings = parsed.terms.map(term => this.postings.get(term));
+    if (postings.some(p => !p)) {
+      return [];
+    }
+    const sorted = (postings as Array<Map<string, number>>).sort((a, b) => a.size - b.size);
+
+    const result: IndexedDocument[] = [];
+    for (const docPath of sorted[0].keys()) {
+      if (sorted.every(p => p.has(docPath))) {
+        const doc = this.documents.get(docPath);
+        if (doc) result.push(doc);
+      }
+    }
+    return result;
+  }
+
+  private bm25(doc: IndexedDocument, terms: string[]): number {
+    const docCount = this.documents.size;
+    const avgLength = docCount > 0 ? this.totalLength / docCount : 0;
+    let score = 0;
+
+    for (const term of terms) {
+      const tf = doc.termFreqs.get(term) || 0;
+      if (tf === 0) continue;
+
+      const df = this.postings.get(term)?.size || 0;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (avgLength ? doc.length / avgLength : 1));
+      score += idf * (tf * (BM25_K1 + 1)) / norm;
+
+      if (doc.basename.includes(term)) {
+        score += idf * TITLE_BOOST;
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Whether a key is a frontmatter field of some indexed note; the keys are gathered on first use
+   */
+  private frontmatterKeyLookup(): (key: string) => boolean {
+    let keys: Set<string> | null = null;
+    return (key: string) => {
+      if (!keys) {
+        keys = new Set();
+        for (const filePath of this.documents.keys()) {
+          const file = this.app.vault.getAbstractFileByPath(filePath);
+          const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+          Object.keys(frontmatter || {}).forEach(k => keys!.add(k.toLowerCase()));
+        }
+      }
+      return keys.has(key.toLowerCase());
+    };
+  }
+
+  private passesFilters(doc: IndexedDocument, parsed: ParsedSearchQuery): boolean {
+    const lowerPath = doc.path.toLowerCase();
+    for (const pathFilter of parsed.pathFilters) {
+      if (!lowerPath.includes(pathFilter)) return false;
+    }
+
+    if (parsed.tagFilters.length === 0 && parsed.fieldFilters.length === 0) {
+      return true;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(doc.path);
+    const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+    if (!cache) return false;
+
+    if (parsed.tagFilters.length > 0) {
+      const tags = (getAllTags(cache) || []).map(tag => tag.replace(/^#/, '').toLowerCase());
+      for (const tagFilter of parsed.tagFilters) {
+        // tag:project matches #project and nested tags like #project/active
+        if (!tags.some(tag => tag === tagFilter || tag.startsWith(`${tagFilter}/`))) {
+          return false;
+        }
+      }
+    }
+
+    const frontmatter = cache.frontmatter || {};
+    for (const { field, value } of parsed.fieldFilters) {
+      const key = Object.keys(frontmatter).find(k => k.toLowerCase() === field.toLowerCase());
+      if (!key) return false;
+
+      const fieldValue = frontmatter[key];
+      const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      if (!values.some(v => v !== null && v !== undefined && String(v).toLowerCase().includes(value))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private matchingLines(doc: IndexedDocument, parsed: ParsedSearchQuery): Array<{ line: number; text: string }> {
+    const lines = doc.content.split('\n');
+    const matches: Array<{ line: number; text: string }> = [];
+
+    lines.forEach((line, idx) => {
+      const lowerLine = line.toLowerCase();
+      const lineTokens = parsed.terms.length > 0 ? new Set(tokenize(line)) : null;
+      const isMatch =
+        parsed.phrases.some(phrase => lowerLine.includes(phrase)) ||
+        parsed.regexes.some(regex => regex.test(line)) ||
+        (lineTokens !== null && parsed.terms.some(term => lineTokens.has(term)));
+
+      if (isMatch) {
+        matches.push({ line: idx + 1, text: line.trim() });
+      }
+    });
+
+    return matches;
+  }
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  let pos = haystack.indexOf(needle);
+  while (pos !== -1) {
+    count++;
+    pos = haystack.indexOf(needle, pos + needle.length);
+  }
+  return count;
+}
+
+function countRegexMatches(text: string, regex: RegExp): number {
+  const globalRegex = new RegExp(regex.source, regex.flags + 'g');
+  let count = 0;
+  let match;
+  while ((match = globalRegex.exec(text)) !== null) {
+    count++;
+    // Avoid infinite loops on zero-length matches
+    if (match[0].length === 0) globalRegex.lastIndex++;
+    if (count >= 1000) break;
+  }
+  return count;
+}
@@ -0,0 +1,153 @@
+/**
+ * Named secrets for tool configs, referenced as ${secret:NAME}. Values are encrypted
+ * with the OS keychain (Electron safeStorage) when available, and redacted from
+ * logs, tool displays and saved transcripts.
+ */
+
+export interface StoredSecret {
+  name: string;
+  // base64 ciphertext when encrypted, otherwise the value itself
+  value: string;
+  encrypted: boolean;
+}
+
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SECRET_REFERENCE_PATTERN = /\$\{secret:([^}]*)\}/g;
+// Shorter values would redact ordinary words
+const MIN_REDACT_LENGTH = 4;
+
+function getSafeStorage(): any | null {
+  try {
+    const electron = require('electron');
+    const safeStorage = electron.safeStorage ?? electron.remote?.safeStorage;
+    return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Names of all secrets a piece of config text refers to
+ */
+export function findSecretReferences(text: string): string[] {
+  const names: string[] = [];
+  text.replace(SECRET_REFERENCE_PATTERN, (reference, name: string) => {
+    names.push(name);
+    return reference;
+  });
+  return names;
+}
+
+export class SecretStore {
+  // The settings array; edits are saved through save()
+  private stored: StoredSecret[];
+  private save: () => Promise<void>;
+  private decrypted = new Map<string, string>();
+
+  constructor(stored: StoredSecret[], save: () => Promise<void>) {
+    this.stored = stored;
+    this.save = save;
+  }
+
+  static encryptionAvailable(): boolean {
+    return getSafeStorage() !== null;
+  }
+
+  list(): StoredSecret[] {
+    return [...this.stored];
+  }
+
+  has(name: string): boolean {
+    return this.stored.some(secret => secret.name === name);
+  }
+
+  get(name: string): string | undefined {
+    const cached = this.decrypted.get(name);
+    if (cached !== undefined) return cached;
+
+    const secret = this.stored.find(s => s.name === name);
+    if (!secret) return undefined;
+
+    let value = secret.value;
+    if (secret.encrypted) {
+      const safeStorage = getSafeStorage();
+      if (!safeStorage) {
+        throw new Error(`Secret "${name}" is encrypted, but system encryption is not available`);
+      }
+      value = safeStorage.decryptString(Buffer.from(secret.value, 'base64'));
+    }
+    this.decrypted.set(name, value);
+    return value;
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error('Secret names may only contain letters, numbers and "_", and cannot start with a number');
+    }
+
+    const safeStorage = getSafeStorage();
+    const secret: StoredSecret = safeStorage
+      ? { name, value: safeStorage.encryptString(value).toString('base64'), encrypted: true }
+      : { name, value, encrypted: false };
+
+    const index = this.stored.findIndex(s => s.name === name);
+    if (index >= 0) {
+      this.stored[index] = secret;
+    } else {
+      this.stored.push(secret);
+    }
+    this.decrypted.set(name, value);
+    await this.save();
+  }
+
+  async delete(name: string): Promise<void> {
+    const index = this.stored.findIndex(s => s.name === name);
+    if (index < 0) return;
+    this.stored.splice(index, 1);
+    this.decrypted.delete(name);
+    await this.save();
+  }
+
+  /**
+   * Replace ${secret:NAME} references with their values; unknown names are an error
+   */
+  resolve(text: string): string {
+    return text.replace(SECRET_REFERENCE_PATTERN, (_, name: string) => {
+      const value = this.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown secret "${name}" (add it under Settings → Secrets)`);
+      }
+      return value;
+    });
+  }
+
+  resolveRecord(values: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, this.resolve(value)]));
+  }
+
+  /**
+   * Replace any secret values in text with [secret:NAME]
+   */
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.stored) {
+      let value: string | undefined;
+      try {
+        value = this.get(secret.name);
+      } catch {
+        continue;
+      }
+      if (!value || value.length < MIN_REDACT_LENGTH) continue;
+      result = result.split(value).join(`[secret:${secret.name}]`);
+    }
+    return result;
+  }
+
+  /**
+   * Redact every string inside a value (tool inputs, results, transcript blocks)
+   */
+  redactDeep<T>(value: T): T {
+    if (this.stored.length === 0 || value === undefined) return value;
+    return JSON.parse(JSON.stringify(value, (_, item) => typeof item === 'string' ? this.redact(item) : item));
+  }
+}
@@ -0,0 +1,205 @@
+import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import ObsidianAgentPlugin from './main';
+import { ChatSessionSummary } from './session-store';
+
+export const VIEW_TYPE_SESSION_HISTORY = 'agent-session-history-view';
+
+/**
+ * Sidebar listing saved chat sessions, with search, reopen, rename and delete
+ */
+export class SessionHistoryView extends ItemView {
+  private plugin: ObsidianAgentPlugin;
+  private listEl: HTMLElement | null = null;
+  private searchQuery = '';
+
+  constructor(leaf: WorkspaceLeaf, plugin: ObsidianAgentPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SESSION_HISTORY;
+  }
+
+  getDisplayText(): string {
+    return 'Agent Sessions';
+  }
+
+  getIcon(): string {
+    return 'history';
+  }
+
+  async onOpen() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('agent-history-container');
+
+    const searchInput = container.createEl('input', {
+      type: 'search',
+      placeholder: 'Search sessions...',
+      cls: 'agent-history-search',
+    });
+    searchInput.addEventListener('input', () => {
+      this.searchQuery = searchInput.value;
+      this.refresh();
+    });
+
+    this.listEl = container.createDiv('agent-history-list');
+
+    this.registerEvent(this.plugin.sessionStore.on('changed', () => this.refresh()));
+
+    this.addStyles();
+    await this.refresh();
+  }
+
+  async refresh() {
+    if (!this.listEl) return;
+
+    const sessions = await this.plugin.sessionStore.search(this.searchQuery);
+    this.listEl.empty();
+
+    if (sessions.length === 0) {
+      this.listEl.createDiv({
+        cls: 'agent-history-empty',
+        text: this.searchQuery ? 'No matching sessions' : 'No saved sessions yet',
+      });
+      return;
+    }
+
+    for (const session of sessions) {
+      this.renderSessionItem(this.listEl, session);
+    }
+  }
+
+  private renderSessionItem(parent: HTMLElement, session: ChatSessionSummary) {
+    const itemEl = parent.createDiv('agent-history-item');
+
+    const titleEl = itemEl.createDiv({ cls: 'agent-history-title', text: session.title });
+    itemEl.createDiv({
+      cls: 'agent-history-meta',
+      text: `${new Date(session.updatedAt).toLocaleString()} · ${session.messageCount} message(s)`,
+    });
+
+    titleEl.addEventListener('click', () => {
+      this.plugin.openSession(session.id);
+    });
+
+    const actionsEl = itemEl.createDiv('agent-history-actions');
+
+    const openBtn = actionsEl.createEl('button', { text: 'Open' });
+    openBtn.addEventListener('click', () => {
+      this.plugin.openSession(session.id);
+    });
+
+    const renameBtn = actionsEl.createEl('button', { text: 'Rename' });
+    renameBtn.addEventListener('click', () => {
+      const input = createEl('input', { type: 'text', cls: 'agent-history-rename' });
+      input.value = session.title;
+      titleEl.replaceWith(input);
+      input.focus();
+      input.select();
+
+      let done = false;
+      const commit = async (save: boolean) => {
+        if (done) return;
+        done = true;
+        if (save && input.value.trim() !== session.title) {
+          await this.plugin.sessionStore.rename(session.id, input.value);
+        } else {
+          input.replaceWith(titleEl);
+        }
+      };
+
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit(true);
+        } else if (e.key === 'Escape') {
+          commit(false);
+        }
+      });
+      input.addEventListener('blur', () => commit(true));
+    });
+
+    const deleteBtn = actionsEl.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+    deleteBtn.addEventListener('click', async () => {
+      if (!confirm(`Delete session "${session.title}"? This cannot be undone.`)) return;
+      await this.plugin.sessionStore.delete(session.id);
+      new Notice(`Deleted session: ${session.title}`);
+    });
+  }
+
+  addStyles() {
+    if (document.getElementById('agent-history-styles')) return;
+
+    const style = document.createElement('style');
+    style.id = 'agent-history-styles';
+    style.textContent = `
+      .agent-history-container {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 12px;
+      }
+
+      .agent-history-search {
+        width: 100%;
+      }
+
+      .agent-history-list {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        overflow-y: auto;
+      }
+
+      .agent-history-empty {
+        color: var(--text-muted);
+        font-style: italic;
+        padding: 8px;
+      }
+
+      .agent-history-item {
+        padding: 8px 10px;
+        border: 1px solid var(--background-modifier-border);
+        border-radius: 6px;
+        background: var(--background-secondary);
+      }
+
+      .agent-history-title {
+        font-weight: 500;
+        cursor: pointer;
+        overflow-wrap: anywhere;
+      }
+
+      .agent-history-title:hover {
+        color: var(--interactive-accent);
+      }
+
+      .agent-history-rename {
+        width: 100%;
+      }
+
+      .agent-history-meta {
+        font-size: 0.8em;
+        color: var(--text-muted);
+        margin: 2px 0 6px;
+      }
+
+      .agent-history-actions {
+        display: flex;
+        gap: 6px;
+      }
+
+      .agent-history-actions button {
+        padding: 2px 10px;
+        font-size: 0.8em;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  async onClose() {
+    this.listEl = null;
+  }
+}
@@ -0,0 +1,201 @@
+import { DataAdapter, EventRef, Events, normalizePath } from 'obsidian';
+
+/**
+ * A single rendered piece of an assistant reply: either markdown text or a tool call
+ */
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: any;
+    result?: any;
+    fileChangeId?: string;
+    fileChangeIds?: string[];
+  };
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  blocks?: TranscriptBlock[];
+  // Query turn whose file changes are recorded in the change journal
+  turnId?: string;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  sdkSessionId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  messages: TranscriptMessage[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Build a session title from the first user message
+ */
+export function deriveSessionTitle(messages: TranscriptMessage[]): string {
+  const firstUser = messages.find(m => m.role === 'user');
+  if (!firstUser) {
+    return 'New chat';
+  }
+
+  const firstLine = firstUser.content.trim().split('\n')[0];
+  if (firstLine.length <= TITLE_MAX_LENGTH) {
+    return firstLine || 'New chat';
+  }
+  return firstLine.slice(0, TITLE_MAX_LENGTH - 1) + '…';
+}
+
+export function createEmptySession(): ChatSession {
+  const now = Date.now();
+  return {
+    id: `${now}_${Math.random().toString(36).slice(2, 8)}`,
+    title: '',
+    sdkSessionId: null,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+}
+
+/**
+ * Persists chat sessions as one JSON file per session inside the plugin folder.
+ * Triggers a 'changed' event whenever the set of sessions or their metadata changes,
+ * and 'deleted' (with the id) when a session is deleted.
+ * Every string is passed through redact before it is written (e.g. to mask secrets).
+ */
+export class SessionStore extends Events {
+  private adapter: DataAdapter;
+  private dir: string;
+  private cache: Map<string, ChatSession> | null = null;
+  private redact: (text: string) => string;
+
+  constructor(adapter: DataAdapter, pluginDir: string, redact: (text: string) => string = text => text) {
+    super();
+    this.adapter = adapter;
+    this.dir = normalizePath(`${pluginDir}/sessions`);
+    this.redact = redact;
+  }
+
+  on(name: 'changed', callback: () => any, ctx?: any): EventRef;
+  on(name: 'deleted', callback: (sessionId: string) => any, ctx?: any): EventRef;
+  on(name: string, callback: (...data: any[]) => any, ctx?: any): EventRef {
+    return super.on(name, callback, ctx);
+  }
+
+  private sessionPath(id: string): string {
+    return normalizePath(`${this.dir}/${id}.json`);
+  }
+
+  private async ensureLoaded(): Promise<Map<string, ChatSession>> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    const cache = new Map<string, ChatSession>();
+    if (await this.adapter.exists(this.dir)) {
+      const listing = await this.adapter.list(this.dir);
+      for (const filePath of listing.files) {
+        if (!filePath.endsWith('.json')) continue;
+        try {
+          const session = JSON.parse(await this.adapter.read(filePath)) as ChatSession;
+          if (session && session.id) {
+            cache.set(session.id, session);
+          }
+        } catch (error) {
+          console.warn('[ObsidianAgent] Skipping unreadable session file:', filePath, error);
+        }
+      }
+    }
+
+    this.cache = cache;
+    return cache;
+  }
+
+  async list(): Promise<ChatSessionSummary[]> {
+    const cache = await this.ensureLoaded();
+    return [...cache.values()]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(session => ({
+        id: session.id,
+        title: session.title || deriveSessionTitle(session.messages),
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+      }));
+  }
+
+  /**
+   * Case-insensitive search over session titles and transcript text
+   */
+  async search(query: string): Promise<ChatSessionSummary[]> {
+    const summaries = await this.list();
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return summaries;
+    }
+
+    const cache = await this.ensureLoaded();
+    return summaries.filter(summary => {
+      if (summary.title.toLowerCase().includes(needle)) {
+        return true;
+      }
+      const session = cache.get(summary.id);
+      return !!session && session.messages.some(m => m.content.toLowerCase().includes(needle));
+    });
+  }
+
+  async load(id: string): Promise<ChatSession | null> {
+    const cache = await this.ensureLoaded();
+    return cache.get(id) || null;
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    const cache = await this.ensureLoaded();
+    session.updatedAt = Date.now();
+    if (!session.title) {
+      session.title = deriveSessionTitle(session.messages);
+    }
+
+    if (!(await this.adapter.exists(this.dir))) {
+      await this.adapter.mkdir(this.dir);
+    }
+    await this.adapter.write(
+      this.sessionPath(session.id),
+      JSON.stringify(session, (_, value) => typeof value === 'string' ? this.redact(value) : value)
+    );
+
+    cache.set(session.id, session);
+    this.trigger('changed');
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    const session = await this.load(id);
+    if (!session) return;
+    session.title = title.trim() || deriveSessionTitle(session.messages);
+    await this.save(session);
+  }
+
+  async delete(id: string): Promise<void> {
+    const cache = await this.ensureLoaded();
+    const filePath = this.sessionPath(id);
+    if (await this.adapter.exists(filePath)) {
+      await this.adapter.remove(filePath);
+    }
+    cache.delete(id);
+    this.trigger('deleted', id);
+    this.trigger('changed');
+  }
+}
@@ -1,6 +1,23 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, EventRef, Notice } from 'obsidian';
 import ObsidianAgentPlugin from './main';
 import { BASE_PROMPT, detectClaudeCodePath } from './config';
+import { PermissionRule, PermissionDecision, createPermissionRule } from './permission-policy';
+import { CustomToolDefinition, describeParameter, resolveCommand, resolveUserPath } from './custom-tools';
+import { CustomToolTestModal } from './custom-tool-test-modal';
+import {
+  McpServerSetting,
+  McpServerType,
+  createMcpServerSetting,
+  validateMcpServer,
+  testMcpServer,
+  parseKeyValueLines,
+  formatKeyValueLines,
+  resolveServerSecrets,
+} from './mcp-servers';
+import { StoredSecret, SecretStore } from './secret-store';
+import { LintOptions, LINT_CHECKS, DEFAULT_LINT_OPTIONS } from './prose-lint';
+import { LINT_FRONTMATTER_KEY } from './prose-lint-config';
+import { ActiveContextOptions, ACTIVE_CONTEXT_SECTIONS, DEFAULT_ACTIVE_CONTEXT_OPTIONS } from './active-context';
 
 // Re-export for backward compatibility
 export { BASE_PROMPT, detectClaudeCodePath };
@@ -9,8 +26,20 @@ export interface ObsidianAgentSettings {
   claudeCodePath: string;
   customWorkflow: string;
   customMcpConfigPath: string;
+  mcpServers: McpServerSetting[];
+  secrets: StoredSecret[];
   requireEditApproval: boolean;
+  permissionRules: PermissionRule[];
   enableProseLinting: boolean;
+  // Underline issues in the note editor
+  editorProseLinting: boolean;
+  proseLintOptions: LintOptions;
+  // Notes with this name configure linting for their folder and subfolders
+  proseLintConfigNote: string;
+  // Most tokens of @-mentioned notes, folders, headings and tags added to a message
+  mentionContextTokens: number;
+  // What the system prompt says about the active note, and its size limit
+  activeContext: ActiveContextOptions;
 }
 
 // This is the editable workflow section
@@ -88,12 +117,21 @@ export const DEFAULT_SETTINGS: ObsidianAgentSettings = {
   claudeCodePath: '',
   customWorkflow: DEFAULT_WORKFLOW,
   customMcpConfigPath: '',
+  mcpServers: [],
+  secrets: [],
   requireEditApproval: false,
+  permissionRules: [],
   enableProseLinting: true,
+  editorProseLinting: false,
+  proseLintOptions: { ...DEFAULT_LINT_OPTIONS, customPhrases: [], allowlist: [] },
+  proseLintConfigNote: 'prose-lint',
+  mentionContextTokens: 8000,
+  activeContext: { ...DEFAULT_ACTIVE_CONTEXT_OPTIONS },
 };
 
 export class ObsidianAgentSettingTab extends PluginSettingTab {
   plugin: ObsidianAgentPlugin;
+  private customToolsRef: EventRef | null = null;
 
   constructor(app: App, plugin: ObsidianAgentPlugin) {
     super(app, plugin);
@@ -133,7 +171,7 @@ export class ObsidianAgentSettingTab extends PluginSettingTab {
     // Require Edit Approval
     new Setting(containerEl)
       .setName('Require Edit Approval')
-      .setDesc('When enabled, you must approve file edits before they are applied')
+      .setDesc('When enabled, you must approve file edits, moves, renames, copies and deletes before they are applied')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.requireEditApproval)
         .onChange(async (value) => {
@@ -141,10 +179,63 @@ export class ObsidianAgentSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Chat Context
+    containerEl.createEl('h3', { text: 'Chat Context' });
+    containerEl.createEl('p', {
+      text: 'What the agent is told about the note you\'re working in, with every message. The 👁 button in the chat previews exactly what will be sent. Type @ in the chat input to mention notes, folders, headings (@Note#Heading), blocks (@Note#^id) or tags (@#tag); their content is added to your message.',
+      cls: 'setting-item-description'
+    });
+
+    for (const section of ACTIVE_CONTEXT_SECTIONS) {
+      new Setting(containerEl)
+        .setName(`Include ${section.name.toLowerCase()}`)
+        .setDesc(section.description)
+        .addToggle(toggle => toggle
+          .setValue(this.plugin.settings.activeContext[section.key])
+          .onChange(async (value) => {
+            this.plugin.settings.activeContext[section.key] = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Context budget')
+      .setDesc('Most tokens of note context sent with each message (about 4 characters per token). Short sections are kept whole; long ones are trimmed, the note body around the cursor')
+      .addText(text => text
+        .setPlaceholder(String(DEFAULT_ACTIVE_CONTEXT_OPTIONS.budgetTokens))
+        .setValue(String(this.plugin.settings.activeContext.budgetTokens))
+        .onChange(async (value) => {
+          const tokens = parseInt(value, 10);
+          if (!isNaN(tokens) && tokens >= 0) {
+            this.plugin.settings.activeContext.budgetTokens = tokens;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Mention budget')
+      .setDesc('Most tokens of mentioned content added to one message (about 4 characters per token), shared between the mentions')
+      .addText(text => text
+        .setPlaceholder('8000')
+        .setValue(String(this.plugin.settings.mentionContextTokens))
+        .onChange(async (value) => {
+          const tokens = parseInt(value, 10);
+          if (!isNaN(tokens) && tokens >= 0) {
+            this.plugin.settings.mentionContextTokens = tokens;
+            await this.plugin.saveSettings();
+          }
+        }));
+
     // Prose Linting
+    containerEl.createEl('h3', { text: 'Prose Linting' });
+    containerEl.createEl('p', {
+      text: `Checks run by the lint_prose tool and after the agent writes a note. A folder can override them with a "${this.plugin.settings.proseLintConfigNote || 'prose-lint'}" note, and a note with its own frontmatter, under a "${LINT_FRONTMATTER_KEY}" key (see the README).`,
+      cls: 'setting-item-description'
+    });
+
     new Setting(containerEl)
       .setName('Enable Prose Linting')
-      .setDesc('Analyze notes for style issues and AI-isms (overused AI phrases like "delve", "crucial", "it\'s important to note")')
+      .setDesc('Let the agent check notes it writes for style issues and AI-isms (overused AI phrases like "delve", "crucial", "it\'s important to note")')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.enableProseLinting)
         .onChange(async (value) => {
@@ -152,6 +243,178 @@ export class ObsidianAgentSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Underline Issues in the Editor')
+      .setDesc('Mark issues in the open note as you write, with the reason and quick fixes on hover. The "Lint Current Note" command lists them in a side panel.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.editorProseLinting)
+        .onChange(async (value) => {
+          this.plugin.settings.editorProseLinting = value;
+          await this.saveLintSettings();
+        }));
+
+    const lintOptions = this.plugin.settings.proseLintOptions;
+    for (const check of LINT_CHECKS) {
+      new Setting(containerEl)
+        .setName(check.name)
+        .setDesc(check.description)
+        .addToggle(toggle => toggle
+          .setValue(lintOptions[check.key] ?? DEFAULT_LINT_OPTIONS[check.key] ?? false)
+          .onChange(async (value) => {
+            lintOptions[check.key] = value;
+            await this.saveLintSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Skip blockquotes')
+      .setDesc('Don\'t lint "> quoted" text, which is often someone else\'s writing')
+      .addToggle(toggle => toggle
+        .setValue(lintOptions.skipBlockquotes ?? true)
+        .onChange(async (value) => {
+          lintOptions.skipBlockquotes = value;
+          await this.saveLintSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Skip callouts')
+      .setDesc('Don\'t lint "> [!note]" callouts')
+      .addToggle(toggle => toggle
+        .setValue(lintOptions.skipCallouts ?? false)
+        .onChange(async (value) => {
+          lintOptions.skipCallouts = value;
+          await this.saveLintSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Allowlist')
+      .setDesc('Words and phrases never reported, one per line (e.g. "robust" for statistics notes)')
+      .addTextArea(text => {
+        text
+          .setPlaceholder('robust\nsignificant')
+          .setValue((lintOptions.allowlist || []).join('\n'))
+          .onChange(async (value) => {
+            lintOptions.allowlist = value.split('\n').map(line => line.trim()).filter(Boolean);
+            await this.saveLintSettings();
+          });
+        text.inputEl.rows = 4;
+      });
+
+    new Setting(containerEl)
+      .setName('Folder config note')
+      .setDesc('Name of the note whose frontmatter configures linting for its folder and subfolders')
+      .addText(text => text
+        .setPlaceholder('prose-lint')
+        .setValue(this.plugin.settings.proseLintConfigNote)
+        .onChange(async (value) => {
+          this.plugin.settings.proseLintConfigNote = value.trim();
+          await this.saveLintSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Banned phrases')
+      .setDesc('Extra words or phrases to flag, matched as whole words ignoring case (or /regex/), with the reason to show and an optional replacement');
+
+    const customPhrases = lintOptions.customPhrases || (lintOptions.customPhrases = []);
+    customPhrases.forEach((entry, index) => {
+      new Setting(containerEl)
+        .addText(text => text
+          .setPlaceholder('Phrase')
+          .setValue(entry.phrase)
+          .onChange(async (value) => {
+            entry.phrase = value;
+            await this.saveLintSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Reason (optional)')
+          .setValue(entry.reason)
+          .onChange(async (value) => {
+            entry.reason = value;
+            await this.saveLintSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Replacement (optional)')
+          .setValue(entry.replacement ?? '')
+          .onChange(async (value) => {
+            entry.replacement = value || undefined;
+            await this.saveLintSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Remove phrase')
+          .onClick(async () => {
+            customPhrases.splice(index, 1);
+            await this.saveLintSettings();
+            this.display(); // Refresh UI
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Phrase')
+        .onClick(async () => {
+          customPhrases.push({ phrase: '', reason: '' });
+          await this.saveLintSettings();
+          this.display(); // Refresh UI
+        }));
+
+    // Permission rules
+    containerEl.createEl('h3', { text: 'Permissions' });
+    containerEl.createEl('p', {
+      text: 'Allow, ask or deny tool calls by tool name (e.g. Bash, WebFetch, mcp__obsidian__*), vault path glob (e.g. .obsidian/**, Projects/**) and Bash command pattern (e.g. "rm *" or /regex/). When several rules match, deny wins over ask and ask over allow. Calls no rule matches are allowed, except edits when "Require Edit Approval" is on.',
+      cls: 'setting-item-description'
+    });
+
+    this.plugin.settings.permissionRules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .addText(text => text
+          .setPlaceholder('Tool (* for any)')
+          .setValue(rule.tool)
+          .onChange(async (value) => {
+            rule.tool = value.trim();
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Path glob (optional)')
+          .setValue(rule.path)
+          .onChange(async (value) => {
+            rule.path = value.trim();
+            await this.plugin.saveSettings();
+          }))
+        .addText(text => text
+          .setPlaceholder('Bash command (optional)')
+          .setValue(rule.command)
+          .onChange(async (value) => {
+            rule.command = value.trim();
+            await this.plugin.saveSettings();
+          }))
+        .addDropdown(dropdown => dropdown
+          .addOptions({ allow: 'Allow', ask: 'Ask', deny: 'Deny' })
+          .setValue(rule.decision)
+          .onChange(async (value) => {
+            rule.decision = value as PermissionDecision;
+            await this.plugin.saveSettings();
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete rule')
+          .onClick(async () => {
+            this.plugin.settings.permissionRules.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display(); // Refresh UI
+          }));
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Rule')
+        .onClick(async () => {
+          this.plugin.settings.permissionRules.push(createPermissionRule());
+          await this.plugin.saveSettings();
+          this.display(); // Refresh UI
+        }));
+
     // Custom Tools Config
     containerEl.createEl('h3', { text: 'Custom Tools' });
     containerEl.createEl('p', {
@@ -168,6 +431,116 @@ export class ObsidianAgentSettingTab extends PluginSettingTab {
         .onChange(async (value) => {
           this.plugin.settings.customMcpConfigPath = value;
           await this.plugin.saveSettings();
+          this.plugin.watchCustomToolsConfig();
+          await this.plugin.reloadCustomTools();
+        }));
+
+    new Setting(containerEl)
+      .setName('Check Config')
+      .setDesc('Reload the config file now. It is also checked automatically whenever the file changes.')
+      .addButton(button => button
+        .setButtonText('Check')
+        .onClick(async () => {
+          await this.plugin.reloadCustomTools();
+        }));
+
+    // Status panel, kept current as the watched config changes
+    const customToolsStatusEl = containerEl.createDiv({ cls: 'custom-tools-status' });
+    this.renderCustomToolsStatus(customToolsStatusEl);
+    if (this.customToolsRef) {
+      this.plugin.customToolsEvents.offref(this.customToolsRef);
+    }
+    this.customToolsRef = this.plugin.customToolsEvents.on('changed', () => {
+      this.renderCustomToolsStatus(customToolsStatusEl);
+    });
+
+    // External MCP servers
+    containerEl.createEl('h3', { text: 'MCP Servers' });
+    containerEl.createEl('p', {
+      text: 'Connect other MCP servers, either a local command (stdio) or a Streamable HTTP URL. Their tools are available to the agent alongside the built-in ones, named mcp__<server>__<tool>.',
+      cls: 'setting-item-description'
+    });
+
+    this.plugin.settings.mcpServers.forEach((server, index) => {
+      this.renderMcpServer(containerEl, server, index);
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText('Add Server')
+        .onClick(async () => {
+          this.plugin.settings.mcpServers.push(createMcpServerSetting());
+          await this.plugin.saveSettings();
+          this.display(); // Refresh UI
+        }));
+
+    // Secrets for tool configs
+    containerEl.createEl('h3', { text: 'Secrets' });
+    containerEl.createEl('p', {
+      text: 'API keys and tokens for custom tools and MCP servers. Refer to them as ${secret:NAME} in custom tool args and env, or in MCP server arguments, environment, URL and headers. Secret values are hidden in logs, tool blocks and saved chats.',
+      cls: 'setting-item-description'
+    });
+    if (!SecretStore.encryptionAvailable()) {
+      containerEl.createEl('p', {
+        text: 'System encryption is not available here, so secrets are stored unencrypted in the plugin\'s data.json.',
+        cls: 'setting-item-description mod-warning'
+      });
+    }
+
+    for (const secret of this.plugin.secretStore.list()) {
+      new Setting(containerEl)
+        .setName(secret.name)
+        .setDesc(secret.encrypted ? 'Encrypted' : 'Not encrypted')
+        .addExtraButton(button => button
+          .setIcon('copy')
+          .setTooltip('Copy reference')
+          .onClick(async () => {
+            await navigator.clipboard.writeText(`\${secret:${secret.name}}`);
+            new Notice('Secret reference copied');
+          }))
+        .addExtraButton(button => button
+          .setIcon('trash')
+          .setTooltip('Delete secret')
+          .onClick(async () => {
+            await this.plugin.secretStore.delete(secret.name);
+            this.display(); // Refresh UI
+            await this.plugin.reloadCustomTools();
+          }));
+    }
+
+    let newSecretName = '';
+    let newSecretValue = '';
+    new Setting(containerEl)
+      .setName('Add Secret')
+      .setDesc('Adding a secret with an existing name replaces its value')
+      .addText(text => text
+        .setPlaceholder('NAME')
+        .onChange(value => {
+          newSecretName = value.trim();
+        }))
+      .addText(text => {
+        text
+          .setPlaceholder('Value')
+          .onChange(value => {
+            newSecretValue = value;
+          });
+        text.inputEl.type = 'password';
+      })
+      .addButton(button => button
+        .setButtonText('Add')
+        .onClick(async () => {
+          if (!newSecretName || !newSecretValue) {
+            new Notice('Enter a name and a value');
+            return;
+          }
+          try {
+            await this.plugin.secretStore.set(newSecretName, newSecretValue);
+          } catch (error: any) {
+            new Notice(error.message);
+            return;
+          }
+          this.display(); // Refresh UI
+          await this.plugin.reloadCustomTools();
         }));
 
     // Custom Workflow
@@ -209,9 +582,212 @@ export class ObsidianAgentSettingTab extends PluginSettingTab {
     containerEl.createEl('h3', { text: 'Customization Tips' });
     const ul = containerEl.createEl('ul');
     ul.createEl('li', { text: 'Change folder names (e.g., "Library/" → "Work/") to match your vault structure' });
-    ul.createEl('li', { text: 'Update daily notes path (e.g., "Daily/" → "Journal/") if you use a different folder' });
+    ul.createEl('li', { text: 'Daily note folder, date format, and template come from Obsidian\'s Daily Notes (or Periodic Notes) settings' });
     ul.createEl('li', { text: 'Adjust linking philosophy (more/less aggressive linking)' });
     ul.createEl('li', { text: 'Modify the weekly review workflow to match your PKM system' });
     ul.createEl('li', { text: 'Core rules and tool descriptions are protected and cannot be edited' });
   }
+
+  private renderMcpServer(containerEl: HTMLElement, server: McpServerSetting, index: number) {
+    const serverEl = containerEl.createDiv({ cls: 'mcp-server-setting' });
+    const statusEl = createDiv({ cls: 'mcp-server-status setting-item-description' });
+
+    const showProblem = () => {
+      const problem = validateMcpServer(server, this.plugin.settings.mcpServers);
+      statusEl.toggleClass('mcp-server-status-error', !!problem);
+      statusEl.setText(problem ?? '');
+    };
+
+    new Setting(serverEl)
+      .setName(`Server ${index + 1}`)
+      .addText(text => text
+        .setPlaceholder('Name, e.g. github')
+        .setValue(server.name)
+        .onChange(async (value) => {
+          server.name = value.trim();
+          await this.plugin.saveSettings();
+          showProblem();
+        }))
+      .addDropdown(dropdown => dropdown
+        .addOptions({ stdio: 'Command (stdio)', http: 'HTTP' })
+        .setValue(server.type)
+        .onChange(async (value) => {
+          server.type = value as McpServerType;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh UI
+        }))
+      .addToggle(toggle => toggle
+        .setTooltip('Enabled')
+        .setValue(server.enabled)
+        .onChange(async (value) => {
+          server.enabled = value;
+          await this.plugin.saveSettings();
+        }))
+      .addButton(button => button
+        .setButtonText('Test')
+        .onClick(async () => {
+          const problem = validateMcpServer(server, this.plugin.settings.mcpServers);
+          if (problem) {
+            showProblem();
+            return;
+          }
+          button.setDisabled(true);
+          statusEl.removeClass('mcp-server-status-error');
+          statusEl.setText('Connecting…');
+          try {
+            const result = await testMcpServer(resolveServerSecrets(server, this.plugin.secretStore), this.plugin.vaultPath);
+            const serverLabel = result.serverName ? ` to ${result.serverName}${result.serverVersion ? ` ${result.serverVersion}` : ''}` : '';
+            statusEl.setText(`Connected${serverLabel}. ${result.tools.length} tool(s): ${result.tools.join(', ') || 'none'}`);
+          } catch (error: any) {
+            statusEl.addClass('mcp-server-status-error');
+            statusEl.setText(`Connection failed: ${error.message}`);
+          } finally {
+            button.setDisabled(false);
+          }
+        }))
+      .addExtraButton(button => button
+        .setIcon('trash')
+        .setTooltip('Remove server')
+        .onClick(async () => {
+          this.plugin.settings.mcpServers.splice(index, 1);
+          await this.plugin.saveSettings();
+          this.display(); // Refresh UI
+        }));
+
+    if (server.type === 'stdio') {
+      new Setting(serverEl)
+        .setName('Command')
+        .setDesc('Executable that starts the server, e.g. npx or uvx')
+        .addText(text => text
+          .setPlaceholder('npx')
+          .setValue(server.command)
+          .onChange(async (value) => {
+            server.command = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(serverEl)
+        .setName('Arguments')
+        .setDesc('One per line')
+        .addTextArea(text => text
+          .setPlaceholder('-y\n@modelcontextprotocol/server-github')
+          .setValue(server.args.join('\n'))
+          .onChange(async (value) => {
+            server.args = value.split('\n').map(arg => arg.trim()).filter(Boolean);
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(serverEl)
+        .setName('Environment')
+        .setDesc('KEY=value, one per line')
+        .addTextArea(text => text
+          .setPlaceholder('GITHUB_TOKEN=...')
+          .setValue(formatKeyValueLines(server.env, '='))
+          .onChange(async (value) => {
+            server.env = parseKeyValueLines(value, '=');
+            await this.plugin.saveSettings();
+          }));
+    } else {
+      new Setting(serverEl)
+        .setName('URL')
+        .setDesc('Streamable HTTP endpoint')
+        .addText(text => text
+          .setPlaceholder('https://example.com/mcp')
+          .setValue(server.url)
+          .onChange(async (value) => {
+            server.url = value.trim();
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(serverEl)
+        .setName('Headers')
+        .setDesc('Name: value, one per line')
+        .addTextArea(text => text
+          .setPlaceholder('Authorization: Bearer ...')
+          .setValue(formatKeyValueLines(server.headers, ':'))
+          .onChange(async (value) => {
+            server.headers = parseKeyValueLines(value, ':');
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    serverEl.appendChild(statusEl);
+    if (server.name) {
+      showProblem();
+    }
+  }
+
+  // Editors re-lint open notes with the new settings
+  private async saveLintSettings() {
+    await this.plugin.saveSettings();
+    this.plugin.refreshEditorLinting();
+  }
+
+  hide(): void {
+    if (this.customToolsRef) {
+      this.plugin.customToolsEvents.offref(this.customToolsRef);
+      this.customToolsRef = null;
+    }
+  }
+
+  private renderCustomToolsStatus(el: HTMLElement) {
+    el.empty();
+    const status = this.plugin.customToolsStatus;
+    if (!this.plugin.settings.customMcpConfigPath) {
+      return;
+    }
+    if (!status) {
+      el.createEl('p', { text: 'Not checked yet.', cls: 'setting-item-description' });
+      return;
+    }
+
+    el.createEl('p', {
+      text: `${status.configPath}: ${status.tools.length} tool(s) loaded, checked ${new Date(status.checkedAt).toLocaleTimeString()}`,
+      cls: 'setting-item-description'
+    });
+
+    if (status.errors.length > 0) {
+      const list = el.createEl('ul', { cls: 'custom-tools-errors' });
+      for (const error of status.errors) {
+        list.createEl('li', { text: `${error.tool}: ${error.message}` });
+      }
+    }
+
+    for (const toolDef of status.tools) {
+      this.renderCustomTool(el, toolDef);
+    }
+  }
+
+  private renderCustomTool(el: HTMLElement, toolDef: CustomToolDefinition) {
+    const setting = new Setting(el)
+      .setName(toolDef.name)
+      .setDesc(toolDef.description)
+      .addButton(button => button
+        .setButtonText('Test run')
+        .onClick(() => {
+          new CustomToolTestModal(this.app, this.plugin, toolDef).open();
+        }));
+    setting.settingEl.addClass('custom-tool-status');
+
+    const params = Object.entries(toolDef.parameters);
+    if (params.length > 0) {
+      const list = setting.descEl.createEl('ul', { cls: 'custom-tool-params' });
+      for (const [name, schema] of params) {
+        list.createEl('li', { text: describeParameter(name, schema, toolDef.required.includes(name)) });
+      }
+    }
+
+    // Check the command resolves the way the tool will run it (its env can override PATH)
+    const commandEl = setting.descEl.createDiv({ cls: 'custom-tool-command', text: `Command: ${toolDef.command} (checking…)` });
+    const env = { ...process.env, ...toolDef.env };
+    const cwd = toolDef.cwd ? resolveUserPath(toolDef.cwd, this.plugin.vaultPath) : process.cwd();
+    resolveCommand(toolDef.command, env, cwd).then(resolved => {
+      if (resolved) {
+        commandEl.setText(`Command: ${toolDef.command} → ${resolved}`);
+      } else {
+        commandEl.setText(`Command: ${toolDef.command} was not found${toolDef.command.includes('/') ? '' : ' on PATH'}`);
+        commandEl.addClass('custom-tool-command-missing');
+      }
+    });
+  }
 }
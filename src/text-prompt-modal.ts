@@ -0,0 +1,57 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Small modal that asks for a single line of text (e.g. a tab label)
+ */
+export class TextPromptModal extends Modal {
+  private title: string;
+  private value: string;
+  private onSubmit: (value: string) => void;
+
+  constructor(app: App, title: string, initialValue: string, onSubmit: (value: string) => void) {
+    super(app);
+    this.title = title;
+    this.value = initialValue;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: this.title });
+
+    new Setting(contentEl)
+      .addText(text => {
+        text
+          .setValue(this.value)
+          .onChange(value => {
+            this.value = value;
+          });
+        text.inputEl.style.width = '100%';
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            this.submit();
+          }
+        });
+        setTimeout(() => text.inputEl.select(), 0);
+      });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Save')
+        .setCta()
+        .onClick(() => this.submit()))
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()));
+  }
+
+  private submit() {
+    this.onSubmit(this.value.trim());
+    this.close();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
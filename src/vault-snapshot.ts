@@ -0,0 +1,254 @@
+/**
+ * Detects vault changes made outside the Obsidian API (e.g. Bash mv/rm/mkdir)
+ * by comparing Obsidian's file list before and after a command runs
+ */
+
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import * as path from 'path';
+import type { FileChangeInput } from './diff-utils';
+
+interface EntryInfo {
+  isFolder: boolean;
+  size: number;
+  mtime: number;
+}
+
+// Files we can store as text in the change journal
+const TEXT_EXTENSIONS = new Set(['md', 'txt', 'canvas', 'base', 'json', 'csv', 'tsv', 'yaml', 'yml', 'css', 'js', 'ts', 'html', 'xml', 'svg', 'bib']);
+
+// Limits on how much content is captured for files a command mentions
+const MAX_SNAPSHOT_FILES = 200;
+const MAX_SNAPSHOT_BYTES = 5 * 1024 * 1024;
+
+const QUIET_WINDOW_MS = 300;
+const MAX_SETTLE_MS = 2000;
+
+export function isTextFile(filePath: string): boolean {
+  return TEXT_EXTENSIONS.has(path.extname(filePath).slice(1).toLowerCase());
+}
+
+/**
+ * Pull the words of a shell command out as candidate paths, honouring quotes
+ */
+function commandPathTokens(command: string, vaultPath: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /'([^']*)'|"((?:\\.|[^"\\])*)"|([^\s;&|<>]+)/g;
+  let match;
+  while ((match = pattern.exec(command)) !== null) {
+    let token = match[1] ?? (match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3]);
+    if (!token || token.startsWith('-')) continue;
+    token = token.replace(/\\ /g, ' ');
+
+    if (path.isAbsolute(token)) {
+      const relative = path.relative(vaultPath, token);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+      token = relative;
+    }
+    token = token.replace(/^\.\//, '').replace(/\/+$/, '').split(path.sep).join('/');
+    if (token) tokens.push(token);
+  }
+  return tokens;
+}
+
+export class VaultSnapshot {
+  private app: App;
+  private entries: Map<string, EntryInfo>;
+  private contents: Map<string, string>;
+  private referenced: Set<string>;
+  private fallbackContent: (filePath: string) => string | undefined;
+
+  private constructor(
+    app: App,
+    entries: Map<string, EntryInfo>,
+    contents: Map<string, string>,
+    referenced: Set<string>,
+    fallbackContent: (filePath: string) => string | undefined
+  ) {
+    this.app = app;
+    this.entries = entries;
+    this.contents = contents;
+    this.referenced = referenced;
+    this.fallbackContent = fallbackContent;
+  }
+
+  /**
+   * Record the vault's file list, plus the content of text files the command mentions
+   * (directly or inside a mentioned folder) so deletes and in-place edits can be reverted.
+   * fallbackContent supplies content for files that weren't captured (e.g. from the search index).
+   */
+  static async capture(
+    app: App,
+    command: string,
+    vaultPath: string,
+    fallbackContent: (filePath: string) => string | undefined
+  ): Promise<VaultSnapshot> {
+    const entries = new Map<string, EntryInfo>();
+    for (const file of app.vault.getAllLoadedFiles()) {
+      if (file.path === '/') continue;
+      entries.set(file.path, describe(file));
+    }
+
+    const contents = new Map<string, string>();
+    const referenced = new Set<string>();
+    let capturedBytes = 0;
+
+    const captureFile = async (file: TFile) => {
+      if (contents.has(file.path) || !isTextFile(file.path)) return;
+      if (contents.size >= MAX_SNAPSHOT_FILES || capturedBytes + file.stat.size > MAX_SNAPSHOT_BYTES) return;
+      try {
+        const content = await app.vault.read(file);
+        contents.set(file.path, content);
+        capturedBytes += file.stat.size;
+      } catch (error) {
+        console.warn('[ObsidianAgent] Could not snapshot file:', file.path, error);
+      }
+    };
+
+    for (const token of commandPathTokens(command, vaultPath)) {
+      const target = app.vault.getAbstractFileByPath(token);
+      if (target instanceof TFile) {
+        referenced.add(target.path);
+        await captureFile(target);
+      } else if (target instanceof TFolder) {
+        for (const child of descendants(target)) {
+          if (child instanceof TFile) {
+            referenced.add(child.path);
+            await captureFile(child);
+          }
+        }
+      }
+    }
+
+    return new VaultSnapshot(app, entries, contents, referenced, fallbackContent);
+  }
+
+  private contentBefore(filePath: string): string | null {
+    return this.contents.get(filePath) ?? this.fallbackContent(filePath) ?? null;
+  }
+
+  /**
+   * Wait for Obsidian to pick up external changes, then compare against the snapshot.
+   * Changes are returned in the order they should be recorded: new folders, file
+   * changes, then removed folders (so undoing newest-first replays them correctly).
+   */
+  async detectChanges(): Promise<FileChangeInput[]> {
+    await waitForVaultQuiet(this.app);
+
+    const after = new Map<string, EntryInfo>();
+    for (const file of this.app.vault.getAllLoadedFiles()) {
+      if (file.path === '/') continue;
+      after.set(file.path, describe(file));
+    }
+
+    const removedFiles = [...this.entries].filter(([p, info]) => !info.isFolder && !after.has(p)).map(([p]) => p);
+    const addedFiles = [...after].filter(([p, info]) => !info.isFolder && !this.entries.has(p)).map(([p]) => p);
+    const removedFolders = [...this.entries].filter(([p, info]) => info.isFolder && !after.has(p)).map(([p]) => p);
+    const addedFolders = [...after].filter(([p, info]) => info.isFolder && !this.entries.has(p)).map(([p]) => p);
+
+    const folderCreates: FileChangeInput[] = addedFolders
+      .sort((a, b) => a.length - b.length)
+      .map(p => ({ operation: 'create', filePath: p, oldContent: null, newContent: null, isFolder: true }));
+    const folderDeletes: FileChangeInput[] = removedFolders
+      .sort((a, b) => b.length - a.length)
+      .map(p => ({ operation: 'delete', filePath: p, oldContent: null, newContent: null, isFolder: true }));
+
+    const fileChanges: FileChangeInput[] = [];
+    const unmatchedRemoved = new Set(removedFiles);
+
+    for (const addedPath of addedFiles) {
+      const addedFile = this.app.vault.getAbstractFileByPath(addedPath);
+      const addedInfo = after.get(addedPath)!;
+      const newContent = addedFile instanceof TFile && isTextFile(addedPath)
+        ? await this.app.vault.read(addedFile)
+        : null;
+
+      // A removed file with the same size and either the same name or the same content was moved here
+      const source = [...unmatchedRemoved].find(removedPath => {
+        const removedInfo = this.entries.get(removedPath)!;
+        if (removedInfo.size !== addedInfo.size) return false;
+        if (path.extname(removedPath) !== path.extname(addedPath)) return false;
+        if (path.basename(removedPath) === path.basename(addedPath)) return true;
+        const oldContent = this.contentBefore(removedPath);
+        return oldContent !== null && newContent !== null && oldContent === newContent;
+      });
+
+      if (source) {
+        unmatchedRemoved.delete(source);
+        fileChanges.push({ operation: 'move', filePath: addedPath, oldPath: source, oldContent: null, newContent: null });
+      } else {
+        fileChanges.push({ operation: 'create', filePath: addedPath, oldContent: null, newContent });
+      }
+    }
+
+    for (const removedPath of unmatchedRemoved) {
+      fileChanges.push({
+        operation: 'delete',
+        filePath: removedPath,
+        oldContent: isTextFile(removedPath) ? this.contentBefore(removedPath) : null,
+        newContent: null,
+      });
+    }
+
+    // In-place edits are only detected for files the command mentioned
+    for (const filePath of this.referenced) {
+      const before = this.contents.get(filePath);
+      const file = this.app.vault.getAbstractFileByPath(filePath);
+      if (before === undefined || !(file instanceof TFile)) continue;
+      const now = await this.app.vault.read(file);
+      if (now !== before) {
+        fileChanges.push({ operation: 'edit', filePath, oldContent: before, newContent: now });
+      }
+    }
+
+    return [...folderCreates, ...fileChanges, ...folderDeletes];
+  }
+}
+
+function describe(file: TAbstractFile): EntryInfo {
+  if (file instanceof TFile) {
+    return { isFolder: false, size: file.stat.size, mtime: file.stat.mtime };
+  }
+  return { isFolder: true, size: 0, mtime: 0 };
+}
+
+function descendants(folder: TFolder): TAbstractFile[] {
+  const result: TAbstractFile[] = [];
+  for (const child of folder.children) {
+    result.push(child);
+    if (child instanceof TFolder) {
+      result.push(...descendants(child));
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolve once no vault events have fired for a short window (or after a cap),
+ * giving Obsidian's file watcher time to notice changes made on disk
+ */
+function waitForVaultQuiet(app: App): Promise<void> {
+  return new Promise(resolve => {
+    const vault = app.vault;
+    let quietTimer: ReturnType<typeof setTimeout>;
+    const refs = [
+      vault.on('create', () => bump()),
+      vault.on('delete', () => bump()),
+      vault.on('rename', () => bump()),
+      vault.on('modify', () => bump()),
+    ];
+
+    const finish = () => {
+      clearTimeout(quietTimer);
+      clearTimeout(capTimer);
+      refs.forEach(ref => vault.offref(ref));
+      resolve();
+    };
+    const bump = () => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(finish, QUIET_WINDOW_MS);
+    };
+
+    const capTimer = setTimeout(finish, MAX_SETTLE_MS);
+    bump();
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Minimal ZIP reader for the document converters (.docx, .pptx and .epub are all
+ * ZIP archives). Handles stored and deflated entries; no ZIP64 or encryption.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Limits on what an archive may expand to, so a small crafted file (a zip bomb) can't
+// exhaust memory; these readers run on Obsidian's UI thread
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 256 * 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+  // Bytes handed out so far, against MAX_TOTAL_BYTES
+  private bytesRead = 0;
+
+  constructor(private buffer: Buffer) {
+    // The end record sits in the last 22 bytes, plus up to 64KB of comment
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+      if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('Not a ZIP archive');
+    }
+
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    if (count === 0xffff || offset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    let totalSize = 0;
+    for (let i = 0; i < count; i++) {
+      if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+      const entry: ZipEntry = {
+        name,
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        uncompressedSize: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      };
+      this.entries.set(name, entry);
+      totalSize += entry.uncompressedSize;
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    if (totalSize > MAX_TOTAL_BYTES) {
+      throw new Error(`ZIP archive expands to ${formatMB(totalSize)}, more than the ${formatMB(MAX_TOTAL_BYTES)} allowed`);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * An entry's bytes, or null when the archive doesn't contain it. Throws when it's larger
+   * than the limits allow, whatever size the directory claims.
+   */
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+      throw new Error(`ZIP entry ${name} is too large (${formatMB(entry.uncompressedSize)})`);
+    }
+
+    const header = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    // The local header's own name and extra lengths can differ from the central directory's
+    const start = header + 30 + this.buffer.readUInt16LE(header + 26) + this.buffer.readUInt16LE(header + 28);
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+    // The directory's sizes can lie, so the output is capped as well
+    const limit = Math.min(MAX_ENTRY_BYTES, MAX_TOTAL_BYTES - this.bytesRead);
+    let bytes: Buffer;
+    if (entry.method === 0) {
+      bytes = Buffer.from(data);
+    } else if (entry.method === 8) {
+      try {
+        bytes = inflateRawSync(data, { maxOutputLength: Math.max(1, limit) });
+      } catch (error: any) {
+        if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`ZIP entry ${name} expands to more than ${formatMB(limit)}`);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+    if (bytes.length > limit) {
+      throw new Error(`ZIP entry ${name} expands to more than ${formatMB(limit)}`);
+    }
+    this.bytesRead += bytes.length;
+    return bytes;
+  }
+
+  readText(name: string): string | null {
+    return this.read(name)?.toString('utf-8') ?? null;
+  }
+}
+
+function formatMB(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}